@@ -1,4 +1,10 @@
-import { largeScenario, mediumScenario, smallScenario } from "./scenarios"
+import {
+  cloneScenario,
+  largeScenario,
+  mediumScenario,
+  smallScenario,
+  snapshotCodecScenario,
+} from "./scenarios"
 
 // here's what we'll be testing
 const plan = [
@@ -47,6 +53,48 @@ const plan = [
   () => largeScenario(50, 0, 100),
   () => largeScenario(250, 0, 100),
   () => largeScenario(50, 0, 100),
+  "",
+  "--------------------------------------------------",
+  "Large Model (lazy) - 10 small & 10 medium children",
+  "--------------------------------------------------",
+  () => largeScenario(50, 10, 10, true),
+  () => largeScenario(250, 10, 10, true),
+  () => largeScenario(50, 10, 10, true),
+  "",
+  "---------------------------------------------------",
+  "Large Model (lazy) - 0 small & 100 medium children",
+  "---------------------------------------------------",
+  () => largeScenario(50, 0, 100, true),
+  () => largeScenario(250, 0, 100, true),
+  () => largeScenario(50, 0, 100, true),
+  "",
+  "-------------------------------------",
+  "Clone - 10 small & 10 medium children",
+  "-------------------------------------",
+  () => cloneScenario(50, 10, 10, false),
+  () => cloneScenario(250, 10, 10, false),
+  () => cloneScenario(50, 10, 10, false),
+  "",
+  "-----------------------------------------------------",
+  "Clone (copy-on-write) - 10 small & 10 medium children",
+  "-----------------------------------------------------",
+  () => cloneScenario(50, 10, 10, true),
+  () => cloneScenario(250, 10, 10, true),
+  () => cloneScenario(50, 10, 10, true),
+  "",
+  "--------------------------------------------------------",
+  "Snapshot codec (compact) - 10 small & 10 medium children",
+  "--------------------------------------------------------",
+  () => snapshotCodecScenario(50, 10, 10, false),
+  () => snapshotCodecScenario(250, 10, 10, false),
+  () => snapshotCodecScenario(50, 10, 10, false),
+  "",
+  "-------------------------------------------------------",
+  "Snapshot codec (binary) - 10 small & 10 medium children",
+  "-------------------------------------------------------",
+  () => snapshotCodecScenario(50, 10, 10, true),
+  () => snapshotCodecScenario(250, 10, 10, true),
+  () => snapshotCodecScenario(50, 10, 10, true),
 ]
 // burn a few to get the juices flowing
 smallScenario(1000)
@@ -1,4 +1,11 @@
-import { fromSnapshot } from "../dist"
+import {
+  clone,
+  decodeSnapshot,
+  diffSnapshots,
+  encodeSnapshot,
+  fromSnapshot,
+  getSnapshot,
+} from "../dist"
 import { createHeros, createMonsters, createTreasure } from "./fixtures/fixture-data"
 import { Hero, Monster, Treasure } from "./fixtures/fixture-models"
 import { start } from "./timer"
@@ -35,14 +42,75 @@ export function mediumScenario(count: number) {
  * @param count The number of records to create.
  * @param smallChildren The number of small children contained within.
  * @param mediumChildren The number of medium children contained within.
+ * @param lazy Whether to instantiate children lazily.
  */
-export function largeScenario(count: number, smallChildren: number, mediumChildren: number) {
+export function largeScenario(
+  count: number,
+  smallChildren: number,
+  mediumChildren: number,
+  lazy = false
+) {
   const data = createMonsters(count, smallChildren, mediumChildren) // ready?
   const time = start()
   for (let i = 0; i < data.length; i++) {
-    fromSnapshot<Monster>(data[i]) // go
+    fromSnapshot<Monster>(data[i], { lazy }) // go
   }
   const elapsed = time()
   const sanity = true
   return { count, elapsed, sanity }
 }
+
+/**
+ * Covers encoding and decoding snapshots of models with a large number of fields.
+ *
+ * @param count The number of records to encode / decode.
+ * @param smallChildren The number of small children contained within.
+ * @param mediumChildren The number of medium children contained within.
+ * @param binary Whether to use the binary encoding.
+ */
+export function snapshotCodecScenario(
+  count: number,
+  smallChildren: number,
+  mediumChildren: number,
+  binary: boolean
+) {
+  const data = createMonsters(count, smallChildren, mediumChildren).map(d =>
+    getSnapshot(fromSnapshot<Monster>(d))
+  ) // ready?
+  const time = start()
+  let decoded
+  for (let i = 0; i < data.length; i++) {
+    decoded = decodeSnapshot(encodeSnapshot(data[i], { binary })) // go
+  }
+  const elapsed = time()
+  // decoding does not keep the key order, so compare them deeply
+  const sanity = diffSnapshots(data[data.length - 1], decoded).patches.length === 0
+  return { count, elapsed, sanity }
+}
+
+/**
+ * Covers cloning models with a large number of fields.
+ *
+ * @param count The number of records to clone.
+ * @param smallChildren The number of small children contained within.
+ * @param mediumChildren The number of medium children contained within.
+ * @param copyOnWrite Whether to make copy-on-write clones.
+ */
+export function cloneScenario(
+  count: number,
+  smallChildren: number,
+  mediumChildren: number,
+  copyOnWrite: boolean
+) {
+  const data = createMonsters(count, smallChildren, mediumChildren).map(d =>
+    fromSnapshot<Monster>(d)
+  ) // ready?
+  const time = start()
+  let cloned: Monster | undefined
+  for (let i = 0; i < data.length; i++) {
+    cloned = clone(data[i], { copyOnWrite }) // go
+  }
+  const elapsed = time()
+  const sanity = cloned!.treasures.length === smallChildren
+  return { count, elapsed, sanity }
+}
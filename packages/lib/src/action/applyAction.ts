@@ -7,6 +7,7 @@ import { applySnapshot } from "../snapshot/applySnapshot"
 import { assertTweakedObject } from "../tweaker/core"
 import { failure } from "../utils"
 import { BuiltInAction, isBuiltInAction } from "./builtInActions"
+import { ActionContextOrigin, runWithAppliedActionOrigin } from "./context"
 import { isHookAction } from "./hookActions"
 
 /**
@@ -49,6 +50,25 @@ export interface ActionCall {
  * @returns The return value of the action, if any.
  */
 export function applyAction<TRet = any>(subtreeRoot: object, call: ActionCall): TRet {
+  return internalApplyAction(subtreeRoot, call, ActionContextOrigin.ApplyAction)
+}
+
+/**
+ * @ignore
+ * @internal
+ *
+ * Applies (runs) an action over a target object, with the given action origin.
+ *
+ * @param subtreeRoot Subtree root target object to run the action over.
+ * @param call The action.
+ * @param origin Origin the applied action (and its child actions) will get.
+ * @returns The return value of the action, if any.
+ */
+export function internalApplyAction<TRet = any>(
+  subtreeRoot: object,
+  call: ActionCall,
+  origin: ActionContextOrigin
+): TRet {
   if (call.serialized) {
     throw failure(
       "cannot apply a serialized action call, use one of the 'applySerializedAction' methods instead"
@@ -72,6 +92,14 @@ export function applyAction<TRet = any>(subtreeRoot: object, call: ActionCall):
   }
   assertIsModel(current, `resolved ${current}`)
 
+  if (isHookAction(call.actionName)) {
+    throw failure(`calls to hooks (${call.actionName}) cannot be applied`)
+  }
+
+  return runWithAppliedActionOrigin(origin, () => runActionCall(current, call))
+}
+
+function runActionCall(current: any, call: ActionCall): any {
   if (isBuiltInAction(call.actionName)) {
     switch (call.actionName) {
       case BuiltInAction.ApplySnapshot:
@@ -86,8 +114,6 @@ export function applyAction<TRet = any>(subtreeRoot: object, call: ActionCall):
       default:
         throw failure(`assertion error: unknown built-in action - ${call.actionName}`)
     }
-  } else if (isHookAction(call.actionName)) {
-    throw failure(`calls to hooks (${call.actionName}) cannot be applied`)
   } else {
     return current[call.actionName].apply(current, call.args)
   }
@@ -40,6 +40,11 @@ export interface ActionContext {
    * Async step type, or undefined for sync actions.
    */
   readonly asyncStepType?: ActionContextAsyncStepType
+  /**
+   * Where the action comes from. Child actions (and further steps of flows) inherit the origin
+   * of their parent, unless it is a direct one.
+   */
+  readonly origin: ActionContextOrigin
   /**
    * Custom data for the action context to be set by middlewares, an object.
    * It is advised to use symbols as keys whenever possible to avoid name
@@ -82,6 +87,33 @@ export enum ActionContextAsyncStepType {
   Throw = "throw",
 }
 
+/**
+ * Where an action comes from.
+ */
+export enum ActionContextOrigin {
+  /**
+   * The action was called directly (e.g. by user code).
+   */
+  Direct = "direct",
+  /**
+   * The action was applied via `applyAction`.
+   */
+  ApplyAction = "applyAction",
+  /**
+   * The action was applied from a serialized action call (usually coming from a remote source)
+   * via one of the `applySerializedAction` methods.
+   */
+  Serialized = "serialized",
+  /**
+   * The action is a built-in action (`applySnapshot`, `applyPatches`, `detach`).
+   */
+  BuiltIn = "builtIn",
+  /**
+   * The action is a hook (`onInit`, `onAttachedToRootStore`, etc.).
+   */
+  Hook = "hook",
+}
+
 let currentActionContext: ActionContext | undefined
 
 /**
@@ -104,3 +136,51 @@ export function getCurrentActionContext(): ActionContext | undefined {
 export function setCurrentActionContext(ctx: ActionContext | undefined): void {
   currentActionContext = ctx
 }
+
+interface AppliedActionOrigin {
+  readonly origin: ActionContextOrigin
+  // action context that was current when the function started running
+  readonly parentContext: ActionContext | undefined
+}
+
+let appliedActionOrigin: AppliedActionOrigin | undefined
+
+/**
+ * @ignore
+ * @internal
+ *
+ * Runs a function so the actions started directly inside it (and therefore their child actions)
+ * get the given origin.
+ *
+ * @param origin Action origin.
+ * @param fn Function to run.
+ * @returns
+ */
+export function runWithAppliedActionOrigin<T>(origin: ActionContextOrigin, fn: () => T): T {
+  const prevAppliedActionOrigin = appliedActionOrigin
+  appliedActionOrigin = { origin, parentContext: currentActionContext }
+  try {
+    return fn()
+  } finally {
+    appliedActionOrigin = prevAppliedActionOrigin
+  }
+}
+
+/**
+ * @ignore
+ * @internal
+ *
+ * Gets the origin set by `runWithAppliedActionOrigin` for an action about to be started, if any.
+ * Only actions started directly inside the function get it (rather than only the first one),
+ * since the ones nested inside those will inherit it anyway.
+ *
+ * @param parentContext Parent context of the action about to be started.
+ * @returns
+ */
+export function getAppliedActionOrigin(
+  parentContext: ActionContext | undefined
+): ActionContextOrigin | undefined {
+  return appliedActionOrigin && appliedActionOrigin.parentContext === parentContext
+    ? appliedActionOrigin.origin
+    : undefined
+}
@@ -14,6 +14,14 @@ export enum HookAction {
    * disposer for onAttachedToRootStore hook
    */
   OnAttachedToRootStoreDisposer = "$$onAttachedToRootStoreDisposer",
+  /**
+   * onDetachedFromRootStore hook
+   */
+  OnDetachedFromRootStore = "$$onDetachedFromRootStore",
+  /**
+   * onMovedWithinRootStore hook
+   */
+  OnMovedWithinRootStore = "$$onMovedWithinRootStore",
 }
 
 const hookActionValues = new Set(Object.values(HookAction))
@@ -23,6 +31,8 @@ const hookActionValues = new Set(Object.values(HookAction))
  * - onInit() hook
  * - onAttachedToRootStore() hook
  * - disposer returned by a onAttachedToRootStore() hook
+ * - onDetachedFromRootStore() hook
+ * - onMovedWithinRootStore() hook
  *
  * @param actionName Action name to check.
  * @returns true if it is a hook, false otherwise.
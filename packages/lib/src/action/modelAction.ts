@@ -1,8 +1,27 @@
+import { isModelAutoTypeCheckingEnabled } from "../globalConfig/globalConfig"
 import { checkModelDecoratorArgs } from "../model/utils"
-import { decorateWrapMethodOrField, failure } from "../utils"
+import { AnyType } from "../typeChecking/schemas"
+import { typeCheck } from "../typeChecking/typeCheck"
+import { TypeCheckError } from "../typeChecking/TypeCheckError"
+import { assertIsArray, assertIsObject, decorateWrapMethodOrField, failure } from "../utils"
 import { ActionContextActionType } from "./context"
 import { modelActionSymbol, wrapInAction } from "./wrapInAction"
 
+const modelActionArgTypesSymbol = Symbol("modelActionArgTypes")
+
+/**
+ * Options for the `modelAction` decorator.
+ */
+export interface ModelActionOptions {
+  /**
+   * Types of the action arguments, by argument position.
+   * Arguments will be type-checked when the action is called locally (when model auto
+   * type-checking is enabled) and always when the action is applied from a serialized
+   * action call.
+   */
+  argTypes?: ReadonlyArray<AnyType>
+}
+
 /**
  * Returns if the given function is a model action or not.
  *
@@ -13,6 +32,44 @@ export function isModelAction(fn: any) {
   return typeof fn === "function" && fn[modelActionSymbol]
 }
 
+/**
+ * @ignore
+ * @internal
+ *
+ * Returns the argument types declared for a model action, if any.
+ *
+ * @param fn Model action.
+ * @returns
+ */
+export function getModelActionArgTypes(fn: any): ReadonlyArray<AnyType> | undefined {
+  return isModelAction(fn) ? fn[modelActionArgTypesSymbol] : undefined
+}
+
+/**
+ * @ignore
+ * @internal
+ *
+ * Type-checks action arguments against their declared types.
+ * The path of the returned error starts with the argument index.
+ *
+ * @param argTypes Argument types.
+ * @param args Argument values.
+ * @returns A `TypeCheckError` if the check fails or null if no error.
+ */
+export function typeCheckModelActionArgs(
+  argTypes: ReadonlyArray<AnyType>,
+  args: ReadonlyArray<any>
+): TypeCheckError | null {
+  const len = argTypes.length
+  for (let i = 0; i < len; i++) {
+    const err = typeCheck(argTypes[i], args[i])
+    if (err) {
+      return new TypeCheckError([i, ...err.path], err.expectedTypeName, err.actualValue)
+    }
+  }
+  return null
+}
+
 function checkModelActionArgs(target: any, propertyKey: string, value: any) {
   if (typeof value !== "function") {
     throw failure("modelAction has to be used over functions")
@@ -20,6 +77,32 @@ function checkModelActionArgs(target: any, propertyKey: string, value: any) {
   checkModelDecoratorArgs("modelAction", target, propertyKey)
 }
 
+function wrapModelAction(name: string, fn: any, options: ModelActionOptions | undefined) {
+  if (isModelAction(fn)) {
+    return fn
+  }
+
+  const argTypes = options && options.argTypes
+  if (argTypes) {
+    const baseFn = fn
+    fn = function(this: any) {
+      if (isModelAutoTypeCheckingEnabled()) {
+        const err = typeCheckModelActionArgs(argTypes, arguments as any)
+        if (err) {
+          err.throw(arguments)
+        }
+      }
+      return baseFn.apply(this, arguments)
+    }
+  }
+
+  const wrappedFn = wrapInAction(name, fn, ActionContextActionType.Sync)
+  if (argTypes) {
+    ;(wrappedFn as any)[modelActionArgTypesSymbol] = argTypes
+  }
+  return wrappedFn
+}
+
 /**
  * Decorator that turns a function into a model action.
  *
@@ -32,7 +115,49 @@ export function modelAction(
   target: any,
   propertyKey: string,
   baseDescriptor?: PropertyDescriptor
-): void {
+): void
+
+/**
+ * Decorator factory that turns a function into a model action with the given options.
+ *
+ * ```ts
+ * @modelAction({ argTypes: [types.string, types.maybe(types.number)] })
+ * addTodo(text: string, index?: number) { ... }
+ * ```
+ *
+ * @param options Model action options.
+ * @returns The decorator.
+ */
+export function modelAction(
+  options: ModelActionOptions
+): (target: any, propertyKey: string, baseDescriptor?: PropertyDescriptor) => void
+
+// base
+export function modelAction(
+  targetOrOptions: any,
+  propertyKey?: string,
+  baseDescriptor?: PropertyDescriptor
+): any {
+  if (propertyKey === undefined) {
+    const options: ModelActionOptions = targetOrOptions
+    assertIsObject(options, "options")
+    if (options.argTypes !== undefined) {
+      assertIsArray(options.argTypes, "argTypes")
+    }
+
+    return (target: any, propertyKey: string, baseDescriptor?: PropertyDescriptor) =>
+      decorateModelAction(target, propertyKey, baseDescriptor, options)
+  }
+
+  return decorateModelAction(targetOrOptions, propertyKey, baseDescriptor, undefined)
+}
+
+function decorateModelAction(
+  target: any,
+  propertyKey: string,
+  baseDescriptor: PropertyDescriptor | undefined,
+  options: ModelActionOptions | undefined
+) {
   return decorateWrapMethodOrField(
     "modelAction",
     {
@@ -41,12 +166,10 @@ export function modelAction(
       baseDescriptor,
     },
     (data, fn) => {
-      if (isModelAction(fn)) {
-        return fn
-      } else {
+      if (!isModelAction(fn)) {
         checkModelActionArgs(data.target, data.propertyKey, fn)
-        return wrapInAction(data.propertyKey, fn, ActionContextActionType.Sync)
       }
+      return wrapModelAction(data.propertyKey, fn, options)
     }
   )
 }
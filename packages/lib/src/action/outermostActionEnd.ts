@@ -0,0 +1,32 @@
+type OutermostActionEndListener = () => void
+
+const outermostActionEndListeners: OutermostActionEndListener[] = []
+
+/**
+ * @ignore
+ * @internal
+ *
+ * Adds a listener that will be called every time an outermost model action (or a step of an
+ * outermost flow) finishes, either by returning or by throwing.
+ */
+export function onOutermostActionEnd(listener: OutermostActionEndListener): () => void {
+  outermostActionEndListeners.push(listener)
+  return () => {
+    const index = outermostActionEndListeners.indexOf(listener)
+    if (index >= 0) {
+      outermostActionEndListeners.splice(index, 1)
+    }
+  }
+}
+
+/**
+ * @ignore
+ * @internal
+ */
+export function emitOutermostActionEnd() {
+  // listeners might remove themselves while being called
+  const listeners = outermostActionEndListeners.slice()
+  for (let i = 0; i < listeners.length; i++) {
+    listeners[i]()
+  }
+}
@@ -1,15 +1,22 @@
 import { action, isAction } from "mobx"
 import { O } from "ts-toolbelt"
 import { AnyModel } from "../model/BaseModel"
+import { isCheckingDanglingRefs, runCheckingDanglingRefs } from "../ref/danglingRefChecks"
+import { canDeferDetaches, runDeferringDetaches } from "../rootStore/deferredDetaches"
 import { assertTweakedObject } from "../tweaker/core"
 import { inDevMode } from "../utils"
+import { isBuiltInAction } from "./builtInActions"
 import {
   ActionContext,
   ActionContextActionType,
+  ActionContextOrigin,
+  getAppliedActionOrigin,
   getCurrentActionContext,
   setCurrentActionContext,
 } from "./context"
+import { isHookAction } from "./hookActions"
 import { getActionMiddlewares } from "./middleware"
+import { emitOutermostActionEnd } from "./outermostActionEnd"
 import { isModelAction } from "./modelAction"
 import { FlowFinisher } from "./modelFlow"
 
@@ -47,6 +54,7 @@ export function wrapInAction<T extends Function>(
       parentContext,
       data: {},
       rootContext: undefined as any, // will be set after the override
+      origin: undefined as any, // will be set after the override
     }
     if (overrideContext) {
       overrideContext(context)
@@ -60,10 +68,23 @@ export function wrapInAction<T extends Function>(
         context.rootContext = context
       }
     }
+    if (!context.origin) {
+      context.origin = getActionOrigin(name, context.previousAsyncStepContext, parentContext)
+    }
 
     setCurrentActionContext(context)
 
     let mwareFn: () => any = fn.bind(this, ...arguments)
+    if (!parentContext && isCheckingDanglingRefs()) {
+      // dangling ref policies are applied as part of the outermost action
+      const actionFn = mwareFn
+      mwareFn = () => runCheckingDanglingRefs(actionFn)
+    }
+    if (!parentContext && canDeferDetaches()) {
+      // so nodes moved within a root store are not reported as detached and then attached
+      const actionFn = mwareFn
+      mwareFn = () => runDeferringDetaches(actionFn)
+    }
     const mwareIter = getActionMiddlewares(this)[Symbol.iterator]()
     let mwareCur = mwareIter.next()
     while (!mwareCur.done) {
@@ -94,6 +115,9 @@ export function wrapInAction<T extends Function>(
       }
     } finally {
       setCurrentActionContext(context.parentContext)
+      if (!parentContext) {
+        emitOutermostActionEnd()
+      }
     }
   }
   ;(wrappedAction as any)[modelActionSymbol] = true
@@ -101,6 +125,33 @@ export function wrapInAction<T extends Function>(
   return wrappedAction as any
 }
 
+function getActionOrigin(
+  actionName: string,
+  previousAsyncStepContext: ActionContext | undefined,
+  parentContext: ActionContext | undefined
+): ActionContextOrigin {
+  // further flow steps just inherit the origin of the previous one
+  if (!previousAsyncStepContext) {
+    const appliedOrigin = getAppliedActionOrigin(parentContext)
+    if (appliedOrigin) {
+      return appliedOrigin
+    }
+  }
+
+  const baseContext = previousAsyncStepContext || parentContext
+  if (baseContext && baseContext.origin !== ActionContextOrigin.Direct) {
+    return baseContext.origin
+  }
+
+  if (isBuiltInAction(actionName)) {
+    return ActionContextOrigin.BuiltIn
+  }
+  if (isHookAction(actionName)) {
+    return ActionContextOrigin.Hook
+  }
+  return ActionContextOrigin.Direct
+}
+
 /**
  * @ignore
  */
@@ -0,0 +1,375 @@
+import { ActionContext, ActionContextActionType, getCurrentActionContext } from "../action/context"
+import { ActionMiddlewareDisposer } from "../action/middleware"
+import { applyPatches } from "../patch/applyPatches"
+import { onPatches } from "../patch/emitPatch"
+import { Patch } from "../patch/Patch"
+import { applySnapshot } from "../snapshot/applySnapshot"
+import { fromSnapshot } from "../snapshot/fromSnapshot"
+import { getSnapshot } from "../snapshot/getSnapshot"
+import { assertTweakedObject } from "../tweaker/core"
+import { assertIsObject, failure, isArray, isObject } from "../utils"
+import {
+  SerializedActionCall,
+  serializeActionCall,
+} from "./actionSerialization/actionSerialization"
+import {
+  applySerializedActionAndSyncNewModelIds,
+  scanPatchesForModelIdChanges,
+  SerializedActionCallWithModelIdOverrides,
+} from "./actionSerialization/applySerializedAction"
+import { ActionTrackingResult } from "./actionTrackingMiddleware"
+import { onActionMiddleware } from "./onActionMiddleware"
+
+/**
+ * A topmost model action recorded by an `ActionRecorder`.
+ */
+export interface RecordedAction {
+  readonly type: "action"
+  /**
+   * When the action finished, in milliseconds since the epoch.
+   */
+  readonly timestamp: number
+  /**
+   * The serialized action call, including the model ids it generated so they are the same
+   * when replayed.
+   */
+  readonly actionCall: SerializedActionCallWithModelIdOverrides
+}
+
+/**
+ * A step of a topmost model flow recorded by an `ActionRecorder`.
+ * Since flow steps usually depend on the result of async operations (e.g. requests), they are
+ * recorded as the patches they generated rather than as action calls.
+ */
+export interface RecordedFlowStep {
+  readonly type: "flowStep"
+  /**
+   * When the step started, in milliseconds since the epoch.
+   */
+  readonly timestamp: number
+  /**
+   * Name of the flow.
+   */
+  readonly actionName: string
+  /**
+   * Patches generated by the step.
+   */
+  readonly patches: ReadonlyArray<Patch>
+}
+
+/**
+ * Changes recorded by an `ActionRecorder` that cannot be replayed as action calls, this is,
+ * the ones made by model actions that threw (since those changes are not rolled back) and the
+ * ones made outside recorded model actions (e.g. inside `runUnprotected`).
+ * They are recorded as the patches they generated.
+ */
+export interface RecordedChanges {
+  readonly type: "changes"
+  /**
+   * When the changes started, in milliseconds since the epoch.
+   */
+  readonly timestamp: number
+  /**
+   * Name of the topmost model action that made the changes, or `undefined` if they were made
+   * outside model actions.
+   */
+  readonly actionName: string | undefined
+  /**
+   * Patches generated by the changes.
+   */
+  readonly patches: ReadonlyArray<Patch>
+}
+
+/**
+ * An event recorded by an `ActionRecorder`.
+ */
+export type RecordedActionEvent = RecordedAction | RecordedFlowStep | RecordedChanges
+
+/**
+ * A recording generated by an `ActionRecorder`. It is a plain serializable object.
+ */
+export interface ActionRecording {
+  /**
+   * Snapshot of the subtree root when the recording started.
+   */
+  readonly initialSnapshot: any
+  /**
+   * Recorded events, in the order they happened.
+   */
+  readonly events: ReadonlyArray<RecordedActionEvent>
+}
+
+/**
+ * Action recorder class returned by `actionRecorder`.
+ */
+export class ActionRecorder {
+  private readonly recordedEvents: RecordedActionEvent[] = []
+
+  /**
+   * Snapshot of the subtree root when the recording started.
+   */
+  readonly initialSnapshot: any
+
+  /**
+   * The recorded events so far, in the order they happened.
+   */
+  get events(): ReadonlyArray<RecordedActionEvent> {
+    return this.recordedEvents
+  }
+
+  /**
+   * The recording so far.
+   */
+  get recording(): ActionRecording {
+    return {
+      initialSnapshot: this.initialSnapshot,
+      events: this.recordedEvents.slice(),
+    }
+  }
+
+  /**
+   * @ignore
+   */
+  _addEvent(event: RecordedActionEvent) {
+    this.recordedEvents.push(event)
+  }
+
+  /**
+   * Stops recording.
+   */
+  dispose() {
+    this.disposer()
+  }
+
+  /**
+   * Creates an instance of ActionRecorder.
+   * Do not use directly, use `actionRecorder` instead.
+   *
+   * @param disposer
+   * @param subtreeRoot
+   */
+  constructor(private readonly disposer: ActionMiddlewareDisposer, subtreeRoot: object) {
+    this.initialSnapshot = getSnapshot(subtreeRoot)
+  }
+}
+
+/**
+ * Creates an action recorder, which records the topmost model actions and model flows run over
+ * a subtree, so they can be later exported and replayed (e.g. to reproduce bugs or as part of
+ * end to end tests) with `replayActionRecording`.
+ *
+ * Model actions are recorded as serialized action calls (so their arguments must be serializable)
+ * along with the model ids they generate, while model flow steps are recorded as the patches they
+ * generate, so replaying is deterministic.
+ * Since the changes made by model actions that throw are not rolled back, those are recorded as
+ * the patches they generated instead, and so are changes made outside model actions
+ * (e.g. inside `runUnprotected`).
+ *
+ * @param subtreeRoot Subtree root target object.
+ * @returns An `ActionRecorder`.
+ */
+export function actionRecorder(subtreeRoot: object): ActionRecorder {
+  assertTweakedObject(subtreeRoot, "subtreeRoot")
+
+  interface CurrentAction {
+    readonly actionCall: SerializedActionCall
+    readonly modelIdOverrides: Patch[]
+    readonly patches: Patch[]
+  }
+
+  interface CurrentPatchesEvent {
+    // context the patches of the event belong to
+    readonly context: ActionContext
+    readonly patches: Patch[]
+  }
+
+  const recordedFlowSymbol = Symbol("actionRecorderFlow")
+
+  let recorder: ActionRecorder
+  let currentAction: CurrentAction | undefined
+  let currentPatchesEvent: CurrentPatchesEvent | undefined
+
+  const middlewareDisposer = onActionMiddleware(subtreeRoot, {
+    onStart(actionCall, ctx) {
+      if (ctx.type === ActionContextActionType.Sync) {
+        currentAction = {
+          actionCall: serializeActionCall(actionCall, subtreeRoot),
+          modelIdOverrides: [],
+          patches: [],
+        }
+      } else {
+        ctx.data[recordedFlowSymbol] = true
+      }
+    },
+
+    onFinish(_actionCall, ctx, ret) {
+      if (ctx.type !== ActionContextActionType.Sync || !currentAction) {
+        return
+      }
+
+      const { actionCall, modelIdOverrides, patches } = currentAction
+      currentAction = undefined
+      if (ret.result === ActionTrackingResult.Return) {
+        recorder._addEvent({
+          type: "action",
+          timestamp: Date.now(),
+          actionCall: { ...actionCall, modelIdOverrides },
+        })
+      } else if (patches.length > 0) {
+        // the action threw, but whatever it changed before throwing stays changed
+        recorder._addEvent({
+          type: "changes",
+          timestamp: Date.now(),
+          actionName: actionCall.actionName,
+          patches,
+        })
+      }
+    },
+  })
+
+  const patchesDisposer = onPatches(subtreeRoot, patches => {
+    if (currentAction) {
+      currentAction.patches.push(...patches)
+      scanPatchesForModelIdChanges(subtreeRoot, currentAction.modelIdOverrides, patches)
+      return
+    }
+
+    const ctx = getCurrentActionContext()
+    if (!ctx) {
+      // changes made outside model actions
+      currentPatchesEvent = undefined
+      recorder._addEvent({
+        type: "changes",
+        timestamp: Date.now(),
+        actionName: undefined,
+        patches,
+      })
+      return
+    }
+
+    let stepContext = ctx
+    while (stepContext.parentContext) {
+      stepContext = stepContext.parentContext
+    }
+    if (currentPatchesEvent && currentPatchesEvent.context === stepContext) {
+      currentPatchesEvent.patches.push(...patches)
+      return
+    }
+
+    currentPatchesEvent = { context: stepContext, patches: [...patches] }
+    const spawnContext = stepContext.spawnAsyncStepContext
+    if (spawnContext && spawnContext.data[recordedFlowSymbol]) {
+      recorder._addEvent({
+        type: "flowStep",
+        timestamp: Date.now(),
+        actionName: spawnContext.actionName,
+        patches: currentPatchesEvent.patches,
+      })
+    } else {
+      // e.g. steps of flows started before recording or actions not seen by the middleware
+      recorder._addEvent({
+        type: "changes",
+        timestamp: Date.now(),
+        actionName: spawnContext ? spawnContext.actionName : stepContext.actionName,
+        patches: currentPatchesEvent.patches,
+      })
+    }
+  })
+
+  recorder = new ActionRecorder(() => {
+    middlewareDisposer()
+    patchesDisposer()
+  }, subtreeRoot)
+  return recorder
+}
+
+/**
+ * Options for `replayActionRecording`.
+ *
+ * @typeparam T Subtree root type.
+ */
+export interface ReplayActionRecordingOptions<T extends object> {
+  /**
+   * Target object to replay the recording over. Its state will be first replaced with the
+   * initial snapshot of the recording, so if it is a model it must have the same model id.
+   * If none is provided a new one will be created from such snapshot.
+   */
+  target?: T
+}
+
+/**
+ * Replays a recording generated by an `ActionRecorder`.
+ *
+ * @typeparam T Subtree root type.
+ * @param recording The recording.
+ * @param [options] Replay options.
+ * @returns The object the recording was replayed over.
+ */
+export function replayActionRecording<T extends object>(
+  recording: ActionRecording,
+  options?: ReplayActionRecordingOptions<T>
+): T {
+  assertIsActionRecording(recording)
+
+  let target = options && options.target
+  if (target) {
+    applySnapshot(target, recording.initialSnapshot)
+  } else {
+    target = fromSnapshot<T>(recording.initialSnapshot)
+  }
+
+  const events = recording.events
+  for (let i = 0; i < events.length; i++) {
+    const event = events[i]
+    switch (event.type) {
+      case "action":
+        applySerializedActionAndSyncNewModelIds(target, event.actionCall)
+        break
+
+      case "flowStep":
+      case "changes":
+        applyPatches(target, event.patches)
+        break
+
+      default:
+        throw failure(`unknown recorded event type: ${(event as any).type}`)
+    }
+  }
+
+  return target
+}
+
+/**
+ * Exports a recording generated by an `ActionRecorder` as a JSON string.
+ *
+ * @param recording The recording.
+ * @returns The JSON string.
+ */
+export function exportActionRecording(recording: ActionRecording): string {
+  assertIsActionRecording(recording)
+
+  return JSON.stringify(recording)
+}
+
+/**
+ * Imports a recording previously exported with `exportActionRecording`.
+ *
+ * @param json The JSON string.
+ * @returns The recording.
+ */
+export function importActionRecording(json: string): ActionRecording {
+  const recording = JSON.parse(json)
+  assertIsActionRecording(recording)
+  return recording
+}
+
+function assertIsActionRecording(recording: ActionRecording) {
+  assertIsObject(recording, "recording")
+
+  if (!isObject(recording.initialSnapshot)) {
+    throw failure("recording.initialSnapshot must be an object")
+  }
+  if (!isArray(recording.events)) {
+    throw failure("recording.events must be an array")
+  }
+}
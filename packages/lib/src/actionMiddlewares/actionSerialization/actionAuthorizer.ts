@@ -0,0 +1,242 @@
+import { ActionCall } from "../../action/applyAction"
+import { isBuiltInAction } from "../../action/builtInActions"
+import { isHookAction } from "../../action/hookActions"
+import { isModelAction } from "../../action/modelAction"
+import { isModelFlow } from "../../action/modelFlow"
+import { AbstractModelClass, AnyModel } from "../../model/BaseModel"
+import { isModel } from "../../model/utils"
+import { resolvePathCheckingIds } from "../../parent/path"
+import { assertTweakedObject } from "../../tweaker/core"
+import { assertIsFunction, MobxKeystoneError } from "../../utils"
+import { SerializedActionCall } from "./actionSerialization"
+
+/**
+ * Error thrown when an action call is not authorized by an `ActionAuthorizer`.
+ */
+export class ActionAuthorizationError extends MobxKeystoneError {
+  /**
+   * Creates an instance of ActionAuthorizationError.
+   *
+   * @param msg Error message.
+   * @param actionCall The rejected action call, which might still be serialized.
+   */
+  constructor(msg: string, readonly actionCall: ActionCall | SerializedActionCall) {
+    super(msg)
+
+    // Set the prototype explicitly.
+    Object.setPrototypeOf(this, ActionAuthorizationError.prototype)
+  }
+}
+
+/**
+ * Information about an action call that is about to be run, as passed to action policies.
+ *
+ * @typeparam M Target model type.
+ * @typeparam TCaller Caller context type.
+ */
+export interface ActionAuthorizationContext<M extends AnyModel, TCaller> {
+  /**
+   * Target model where the action would be run.
+   */
+  readonly target: M
+  /**
+   * Action name.
+   */
+  readonly actionName: string
+  /**
+   * Deserialized action arguments.
+   */
+  readonly args: ReadonlyArray<any>
+  /**
+   * The action call.
+   */
+  readonly actionCall: ActionCall
+  /**
+   * Caller context (for example the user that sent the action).
+   */
+  readonly caller: TCaller
+}
+
+/**
+ * An action policy, which returns `true` if the action call should be allowed.
+ *
+ * @typeparam M Target model type.
+ * @typeparam TCaller Caller context type.
+ */
+export type ActionPolicy<M extends AnyModel, TCaller> = (
+  ctx: ActionAuthorizationContext<M, TCaller>
+) => boolean
+
+// hook methods are wrapped in model actions, so they must be rejected by name as well
+const hookMethodNames = new Set([
+  "onInit",
+  "onAttachedToRootStore",
+  "onDetachedFromRootStore",
+  "onMovedWithinRootStore",
+])
+
+interface ActionRule {
+  readonly modelClass: AbstractModelClass<any>
+  readonly actionNames: ReadonlySet<string> | undefined
+  readonly policy: ActionPolicy<any, any> | undefined
+}
+
+/**
+ * Authorizes action calls (usually coming from a client) before they are applied, following an
+ * allowlist approach: only action calls allowed by at least one rule will be authorized.
+ *
+ * Rules are set per model class (subclasses included), optionally per action, and can include a
+ * policy that has access to the target model, the deserialized arguments and a caller context.
+ * Only model actions, model flows and built-in actions (`$$applyPatches`, `$$applySnapshot`,
+ * `$$detach`, which must be explicitly named) can be authorized, and never hooks.
+ *
+ * Use it through the `authorizer` option of the `applySerializedAction` methods, or call
+ * `authorizeTarget` / `authorize` directly.
+ *
+ * @typeparam TCaller Caller context type.
+ */
+export class ActionAuthorizer<TCaller = undefined> {
+  private readonly rules: ActionRule[] = []
+
+  /**
+   * Allows all the actions of a model class (and its subclasses), optionally only if a policy
+   * allows it.
+   *
+   * @param modelClass Model class.
+   * @param [policy] Policy that must return true for the call to be allowed.
+   * @returns The authorizer, so calls can be chained.
+   */
+  allowModel<M extends AnyModel>(
+    modelClass: AbstractModelClass<M>,
+    policy?: ActionPolicy<M, TCaller>
+  ): this {
+    return this.addRule(modelClass, undefined, policy)
+  }
+
+  /**
+   * Allows some actions of a model class (and its subclasses), optionally only if a policy
+   * allows it.
+   *
+   * @param modelClass Model class.
+   * @param actionNames Names of the actions to allow.
+   * @param [policy] Policy that must return true for the call to be allowed.
+   * @returns The authorizer, so calls can be chained.
+   */
+  allowActions<M extends AnyModel>(
+    modelClass: AbstractModelClass<M>,
+    actionNames: ReadonlyArray<(keyof M & string) | string>,
+    policy?: ActionPolicy<M, TCaller>
+  ): this {
+    return this.addRule(modelClass, new Set(actionNames), policy)
+  }
+
+  private addRule(
+    modelClass: AbstractModelClass<any>,
+    actionNames: ReadonlySet<string> | undefined,
+    policy: ActionPolicy<any, TCaller> | undefined
+  ): this {
+    assertIsFunction(modelClass, "modelClass")
+    if (policy !== undefined) {
+      assertIsFunction(policy, "policy")
+    }
+
+    this.rules.push({ modelClass, actionNames, policy })
+    return this
+  }
+
+  /**
+   * Checks if the target model and action name of an action call are allowed by at least one
+   * rule, throwing an `ActionAuthorizationError` if they are not. Policies are not run, so the
+   * call can still be serialized. This way calls that can never be allowed are rejected before
+   * their arguments get deserialized (and therefore before any models in them are created).
+   *
+   * @param subtreeRoot Subtree root target object the action would be run over.
+   * @param actionCall The (possibly serialized) action call.
+   */
+  authorizeTarget(subtreeRoot: object, actionCall: ActionCall | SerializedActionCall): void {
+    assertTweakedObject(subtreeRoot, "subtreeRoot")
+
+    this.getMatchingRules(subtreeRoot, actionCall)
+  }
+
+  /**
+   * Checks if an action call is authorized, throwing an `ActionAuthorizationError` if it is not.
+   *
+   * @param subtreeRoot Subtree root target object the action would be run over.
+   * @param actionCall The (deserialized) action call.
+   * @param caller Caller context.
+   */
+  authorize(subtreeRoot: object, actionCall: ActionCall, caller: TCaller): void {
+    assertTweakedObject(subtreeRoot, "subtreeRoot")
+
+    const { target, rules } = this.getMatchingRules(subtreeRoot, actionCall)
+
+    const ctx: ActionAuthorizationContext<AnyModel, TCaller> = {
+      target,
+      actionName: actionCall.actionName,
+      args: actionCall.args,
+      actionCall,
+      caller,
+    }
+
+    const len = rules.length
+    for (let i = 0; i < len; i++) {
+      const { policy } = rules[i]
+      if (!policy || policy(ctx)) {
+        return
+      }
+    }
+
+    return rejectActionCall(actionCall, "no rule allowed it")
+  }
+
+  private getMatchingRules(
+    subtreeRoot: object,
+    actionCall: ActionCall | SerializedActionCall
+  ): { target: AnyModel; rules: ActionRule[] } {
+    const { actionName } = actionCall
+
+    const { value: target, resolved } = resolvePathCheckingIds(
+      subtreeRoot,
+      actionCall.targetPath,
+      actionCall.targetPathIds
+    )
+    if (!resolved || !isModel(target)) {
+      return rejectActionCall(actionCall, "the target model could not be resolved")
+    }
+
+    if (isHookAction(actionName) || hookMethodNames.has(actionName)) {
+      return rejectActionCall(actionCall, "hooks cannot be called")
+    }
+
+    const builtIn = isBuiltInAction(actionName)
+    if (!builtIn) {
+      const fn = (target as any)[actionName]
+      if (!isModelAction(fn) && !isModelFlow(fn)) {
+        return rejectActionCall(actionCall, "it is not a model action or model flow")
+      }
+    }
+
+    const rules = this.rules.filter(rule => {
+      if (!(target instanceof rule.modelClass)) {
+        return false
+      }
+      // built-in actions must be explicitly allowed
+      return rule.actionNames ? rule.actionNames.has(actionName) : !builtIn
+    })
+    if (rules.length <= 0) {
+      return rejectActionCall(actionCall, "no rule allowed it")
+    }
+
+    return { target, rules }
+  }
+}
+
+function rejectActionCall(actionCall: ActionCall | SerializedActionCall, reason: string): never {
+  throw new ActionAuthorizationError(
+    `action '${actionCall.actionName}' at path ${JSON.stringify(
+      actionCall.targetPath
+    )} is not authorized: ${reason}`,
+    actionCall
+  )
+}
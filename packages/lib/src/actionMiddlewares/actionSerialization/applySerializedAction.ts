@@ -1,15 +1,18 @@
 import { runInAction } from "mobx"
-import { applyAction } from "../../action/applyAction"
+import { ActionCall, internalApplyAction } from "../../action/applyAction"
+import { ActionContextOrigin, runWithAppliedActionOrigin } from "../../action/context"
+import { getModelActionArgTypes, typeCheckModelActionArgs } from "../../action/modelAction"
 import { frozenKey } from "../../frozen/Frozen"
 import { isModel } from "../../model"
 import { modelIdKey } from "../../model/metadata"
-import { resolvePath } from "../../parent/path"
+import { resolvePath, resolvePathCheckingIds } from "../../parent/path"
 import { WritablePath } from "../../parent/pathTypes"
 import { applyPatches } from "../../patch/applyPatches"
 import { onPatches } from "../../patch/emitPatch"
 import { Patch } from "../../patch/Patch"
 import { assertTweakedObject } from "../../tweaker/core"
 import { failure, isObject } from "../../utils"
+import { ActionAuthorizer } from "./actionAuthorizer"
 import { deserializeActionCall, SerializedActionCall } from "./actionSerialization"
 
 /**
@@ -24,6 +27,25 @@ export interface SerializedActionCallWithModelIdOverrides extends SerializedActi
   readonly modelIdOverrides: ReadonlyArray<Patch>
 }
 
+/**
+ * Options for the `applySerializedAction` methods.
+ *
+ * @typeparam TCaller Caller context type.
+ */
+export interface ApplySerializedActionOptions<TCaller = any> {
+  /**
+   * Authorizer used to check that the action call is allowed before applying it.
+   * If the call is not allowed an `ActionAuthorizationError` will be thrown and the action
+   * won't be run.
+   */
+  authorizer?: ActionAuthorizer<TCaller>
+
+  /**
+   * Caller context passed to the authorizer policies (for example the user that sent the action).
+   */
+  caller?: TCaller
+}
+
 /**
  * Applies (runs) a serialized action over a target object.
  * In this mode newly generated / modified model IDs will be tracked
@@ -35,12 +57,14 @@ export interface SerializedActionCallWithModelIdOverrides extends SerializedActi
  *
  * @param subtreeRoot Subtree root target object to run the action over.
  * @param call The serialized action, usually as coming from the server/client.
+ * @param [options] Optional authorizer and caller context.
  * @returns The return value of the action, if any, plus a new serialized action
  * with model overrides.
  */
-export function applySerializedActionAndTrackNewModelIds<TRet = any>(
+export function applySerializedActionAndTrackNewModelIds<TRet = any, TCaller = any>(
   subtreeRoot: object,
-  call: SerializedActionCall
+  call: SerializedActionCall,
+  options?: ApplySerializedActionOptions<TCaller>
 ): {
   returnValue: TRet
   serializedActionCall: SerializedActionCallWithModelIdOverrides
@@ -51,7 +75,10 @@ export function applySerializedActionAndTrackNewModelIds<TRet = any>(
 
   assertTweakedObject(subtreeRoot, "subtreeRoot")
 
+  authorizeActionCallTarget(subtreeRoot, call, options)
   const deserializedCall = deserializeActionCall(call, subtreeRoot)
+  authorizeActionCall(subtreeRoot, deserializedCall, options)
+  typeCheckActionCallArgs(subtreeRoot, deserializedCall)
 
   const modelIdOverrides: Patch[] = []
 
@@ -61,7 +88,11 @@ export function applySerializedActionAndTrackNewModelIds<TRet = any>(
   })
 
   try {
-    const returnValue = applyAction(subtreeRoot, deserializedCall)
+    const returnValue = internalApplyAction(
+      subtreeRoot,
+      deserializedCall,
+      ActionContextOrigin.Serialized
+    )
 
     return {
       returnValue,
@@ -75,7 +106,60 @@ export function applySerializedActionAndTrackNewModelIds<TRet = any>(
   }
 }
 
-function scanPatchesForModelIdChanges(root: object, modelIdOverrides: Patch[], patches: Patch[]) {
+function authorizeActionCallTarget(
+  subtreeRoot: object,
+  call: SerializedActionCall,
+  options: ApplySerializedActionOptions | undefined
+) {
+  // done before deserializing so the models in the args of calls that can never be allowed
+  // are not created
+  if (options && options.authorizer) {
+    options.authorizer.authorizeTarget(subtreeRoot, call)
+  }
+}
+
+function authorizeActionCall(
+  subtreeRoot: object,
+  call: ActionCall,
+  options: ApplySerializedActionOptions | undefined
+) {
+  if (options && options.authorizer) {
+    options.authorizer.authorize(subtreeRoot, call, options.caller)
+  }
+}
+
+function typeCheckActionCallArgs(subtreeRoot: object, call: ActionCall) {
+  const { value: target, resolved } = resolvePathCheckingIds(
+    subtreeRoot,
+    call.targetPath,
+    call.targetPathIds
+  )
+  if (!resolved || !isObject(target)) {
+    // applyAction will throw
+    return
+  }
+
+  const argTypes = getModelActionArgTypes((target as any)[call.actionName])
+  if (argTypes) {
+    const err = typeCheckModelActionArgs(argTypes, call.args)
+    if (err) {
+      err.throw(call.args)
+    }
+  }
+}
+
+/**
+ * @ignore
+ * @internal
+ *
+ * Scans patches emitted over a subtree root for model id changes, adding them as model id
+ * overrides. Must be called as soon as the patches are emitted.
+ */
+export function scanPatchesForModelIdChanges(
+  root: object,
+  modelIdOverrides: Patch[],
+  patches: Patch[]
+) {
   const len = patches.length
   for (let i = 0; i < len; i++) {
     const patch = patches[i]
@@ -143,12 +227,14 @@ function deepScanValueForModelIdChanges(
  *
  * @param subtreeRoot Subtree root target object to run the action over.
  * @param call The serialized action, usually as coming from the server/client.
+ * @param [options] Optional authorizer and caller context.
  * @returns The return value of the action, if any, plus a new serialized action
  * with model overrides.
  */
-export function applySerializedActionAndSyncNewModelIds<TRet = any>(
+export function applySerializedActionAndSyncNewModelIds<TRet = any, TCaller = any>(
   subtreeRoot: object,
-  call: SerializedActionCallWithModelIdOverrides
+  call: SerializedActionCallWithModelIdOverrides,
+  options?: ApplySerializedActionOptions<TCaller>
 ): TRet {
   if (!call.serialized) {
     throw failure("cannot apply a non-serialized action call, use 'applyAction' instead")
@@ -156,14 +242,19 @@ export function applySerializedActionAndSyncNewModelIds<TRet = any>(
 
   assertTweakedObject(subtreeRoot, "subtreeRoot")
 
+  authorizeActionCallTarget(subtreeRoot, call, options)
   const deserializedCall = deserializeActionCall(call, subtreeRoot)
+  authorizeActionCall(subtreeRoot, deserializedCall, options)
+  typeCheckActionCallArgs(subtreeRoot, deserializedCall)
 
   let returnValue: any
   runInAction(() => {
-    returnValue = applyAction(subtreeRoot, deserializedCall)
+    returnValue = internalApplyAction(subtreeRoot, deserializedCall, ActionContextOrigin.Serialized)
 
     // apply model id overrides
-    applyPatches(subtreeRoot, call.modelIdOverrides)
+    runWithAppliedActionOrigin(ActionContextOrigin.Serialized, () => {
+      applyPatches(subtreeRoot, call.modelIdOverrides)
+    })
   })
 
   return returnValue
@@ -1,3 +1,4 @@
+export * from "./actionAuthorizer"
 export * from "./actionSerialization"
 export * from "./applySerializedAction"
 export * from "./core"
@@ -1,4 +1,4 @@
-import { fromSnapshot } from "../../snapshot/fromSnapshot"
+import { fromSnapshotUnchecked } from "../../snapshot/fromSnapshot"
 import { getSnapshot } from "../../snapshot/getSnapshot"
 import { isTweakedObject } from "../../tweaker/core"
 import { ActionCallArgumentSerializer, cannotSerialize } from "./core"
@@ -14,6 +14,6 @@ export const objectSnapshotSerializer: ActionCallArgumentSerializer<object, obje
   },
 
   deserialize(snapshot) {
-    return fromSnapshot(snapshot)
+    return fromSnapshotUnchecked(snapshot)
   },
 }
@@ -0,0 +1,417 @@
+import { action, computed, observable } from "mobx"
+import { applyAction } from "../action/applyAction"
+import { ActionContextActionType, ActionContextOrigin } from "../action/context"
+import { ActionMiddlewareDisposer } from "../action/middleware"
+import { getGlobalConfig } from "../globalConfig/globalConfig"
+import { applyPatches } from "../patch/applyPatches"
+import { Patch } from "../patch/Patch"
+import { patchRecorder, PatchRecorder } from "../patch/patchRecorder"
+import { assertTweakedObject } from "../tweaker/core"
+import { assertIsObject, failure } from "../utils"
+import {
+  deserializeActionCall,
+  SerializedActionCall,
+  serializeActionCall,
+} from "./actionSerialization/actionSerialization"
+import {
+  applySerializedActionAndSyncNewModelIds,
+  SerializedActionCallWithModelIdOverrides,
+} from "./actionSerialization/applySerializedAction"
+import { ActionTrackingResult } from "./actionTrackingMiddleware"
+import { onActionMiddleware } from "./onActionMiddleware"
+
+/**
+ * A local action that was applied optimistically and is waiting for the server to confirm
+ * or reject it.
+ */
+export interface PendingAction {
+  /**
+   * Unique id of the action, used to match server responses.
+   */
+  readonly actionId: string
+  /**
+   * The serialized action call.
+   */
+  readonly actionCall: SerializedActionCall
+}
+
+/**
+ * Message sent by an `ActionSyncClient` to the server through its transport.
+ */
+export interface ActionSyncClientMessage {
+  /**
+   * Unique id of the action, which the server should include in its response.
+   */
+  readonly actionId: string
+  /**
+   * The serialized action call, usually to be applied with
+   * `applySerializedActionAndTrackNewModelIds` on the server side.
+   */
+  readonly actionCall: SerializedActionCall
+}
+
+/**
+ * Message that tells an `ActionSyncClient` that the server applied an action.
+ * Confirmed actions must be received by all clients in the same order the server applied them.
+ */
+export interface ActionSyncConfirmedMessage {
+  readonly type: "confirmed"
+  /**
+   * The action call as applied by the server, usually as returned by
+   * `applySerializedActionAndTrackNewModelIds`.
+   */
+  readonly actionCall: SerializedActionCallWithModelIdOverrides
+  /**
+   * Id of the action, if it was sent by a client.
+   */
+  readonly actionId?: string
+}
+
+/**
+ * Message that tells an `ActionSyncClient` that the server rejected one of its actions.
+ */
+export interface ActionSyncRejectedMessage {
+  readonly type: "rejected"
+  /**
+   * Id of the rejected action.
+   */
+  readonly actionId: string
+  /**
+   * Rejection reason, if any.
+   */
+  readonly error?: any
+}
+
+/**
+ * Message received by an `ActionSyncClient` from the server.
+ */
+export type ActionSyncServerMessage = ActionSyncConfirmedMessage | ActionSyncRejectedMessage
+
+/**
+ * Transport used by an `ActionSyncClient` to send messages to the server.
+ */
+export interface ActionSyncTransport {
+  /**
+   * Sends a local action to the server.
+   *
+   * @param message Message to send.
+   */
+  send(message: ActionSyncClientMessage): void
+}
+
+/**
+ * Options for `actionSyncClient`.
+ */
+export interface ActionSyncClientOptions {
+  /**
+   * Unique id of the client, used as prefix of the action ids.
+   * If none is provided one will be generated with the global model id generator.
+   */
+  clientId?: string
+
+  /**
+   * Called when the server rejects one of the pending actions, after its changes have been
+   * rolled back.
+   *
+   * @param pendingAction The rejected action.
+   * @param error The rejection reason, if any.
+   */
+  onRejected?(pendingAction: PendingAction, error: any): void
+}
+
+interface InternalPendingAction extends PendingAction {
+  inversePatches: Patch[]
+}
+
+/**
+ * Client class returned by `actionSyncClient` that keeps track of the pending actions and
+ * allows to feed it with the messages received from the server.
+ */
+export class ActionSyncClient {
+  private readonly pending = observable.array<InternalPendingAction>([], { deep: false })
+
+  private lastActionId = 0
+
+  private syncing = false
+
+  /**
+   * The unique id of the client.
+   */
+  readonly clientId: string
+
+  /**
+   * The local actions that were applied optimistically and are waiting for the server to confirm
+   * or reject them, in the order they were applied.
+   */
+  @computed
+  get pendingActions(): ReadonlyArray<PendingAction> {
+    return this.pending.map(p => ({ actionId: p.actionId, actionCall: p.actionCall }))
+  }
+
+  /**
+   * If there are no pending actions.
+   */
+  @computed
+  get isSynced() {
+    return this.pending.length <= 0
+  }
+
+  /**
+   * @ignore
+   */
+  get _isSyncing() {
+    return this.syncing
+  }
+
+  /**
+   * @ignore
+   */
+  @action
+  _addPendingAction(actionCall: SerializedActionCall, inversePatches: Patch[]) {
+    this.lastActionId++
+    const pendingAction: InternalPendingAction = {
+      actionId: `${this.clientId}-${this.lastActionId}`,
+      actionCall,
+      inversePatches,
+    }
+    this.pending.push(pendingAction)
+
+    this.transport.send({
+      actionId: pendingAction.actionId,
+      actionCall,
+    })
+  }
+
+  /**
+   * @ignore
+   */
+  _applyWhileSyncing(fn: () => void) {
+    const wasSyncing = this.syncing
+    this.syncing = true
+    try {
+      fn()
+    } finally {
+      this.syncing = wasSyncing
+    }
+  }
+
+  /**
+   * Processes a message received from the server.
+   * Pending actions are rolled back, the server action is applied (or the rejected action
+   * removed), and the remaining pending actions are then applied again over the new state.
+   * Pending actions that cannot be applied anymore over the new state will be skipped until
+   * the server either confirms or rejects them.
+   *
+   * @param message Message received from the server.
+   */
+  @action
+  receive(message: ActionSyncServerMessage): void {
+    assertIsObject(message, "message")
+
+    let rejected: InternalPendingAction | undefined
+    let rejectionError: any
+
+    this._applyWhileSyncing(() => {
+      this.rollbackPendingActions()
+    })
+
+    try {
+      switch (message.type) {
+        case "confirmed":
+          // not sent back since its origin is "serialized"
+          this.removePendingAction(message.actionId)
+          applySerializedActionAndSyncNewModelIds(this.subtreeRoot, message.actionCall)
+          break
+
+        case "rejected":
+          rejected = this.removePendingAction(message.actionId)
+          rejectionError = message.error
+          break
+
+        default:
+          throw failure(`unknown action sync message type: ${(message as any).type}`)
+      }
+    } finally {
+      this._applyWhileSyncing(() => {
+        this.reapplyPendingActions()
+      })
+    }
+
+    if (rejected && this.onRejected) {
+      this.onRejected(
+        { actionId: rejected.actionId, actionCall: rejected.actionCall },
+        rejectionError
+      )
+    }
+  }
+
+  private removePendingAction(actionId: string | undefined): InternalPendingAction | undefined {
+    if (actionId === undefined) {
+      return undefined
+    }
+    const index = this.pending.findIndex(p => p.actionId === actionId)
+    if (index < 0) {
+      return undefined
+    }
+    return this.pending.splice(index, 1)[0]
+  }
+
+  private rollbackPendingActions() {
+    for (let i = this.pending.length - 1; i >= 0; i--) {
+      const pendingAction = this.pending[i]
+      applyPatches(this.subtreeRoot, pendingAction.inversePatches)
+      pendingAction.inversePatches = []
+    }
+  }
+
+  private reapplyPendingActions() {
+    const len = this.pending.length
+    for (let i = 0; i < len; i++) {
+      const pendingAction = this.pending[i]
+
+      const recorder = patchRecorder(this.subtreeRoot)
+      try {
+        applyAction(
+          this.subtreeRoot,
+          deserializeActionCall(pendingAction.actionCall, this.subtreeRoot)
+        )
+        pendingAction.inversePatches = getInversePatches(recorder)
+      } catch {
+        // the action cannot be applied over the new state, so undo any partial changes and
+        // skip it until the server tells us what to do with it
+        recorder.recording = false
+        applyPatches(this.subtreeRoot, getInversePatches(recorder))
+      } finally {
+        recorder.dispose()
+      }
+    }
+  }
+
+  /**
+   * Detaches the client middleware.
+   * Pending actions are kept applied.
+   */
+  dispose() {
+    this.disposer()
+  }
+
+  /**
+   * Creates an instance of ActionSyncClient.
+   * Do not use directly, use `actionSyncClient` instead.
+   *
+   * @param disposer
+   * @param subtreeRoot
+   * @param transport
+   * @param [options]
+   */
+  constructor(
+    private readonly disposer: ActionMiddlewareDisposer,
+    private readonly subtreeRoot: object,
+    private readonly transport: ActionSyncTransport,
+    options?: ActionSyncClientOptions
+  ) {
+    this.clientId = (options && options.clientId) || getGlobalConfig().modelIdGenerator()
+    this.onRejected = options && options.onRejected
+  }
+
+  private readonly onRejected: ActionSyncClientOptions["onRejected"]
+}
+
+/**
+ * Creates an optimistic action sync client.
+ *
+ * Topmost model actions run over the subtree are applied locally right away, serialized and
+ * sent to the server through the given transport, and kept as pending actions until the server
+ * confirms or rejects them.
+ * Messages sent back by the server (confirmed actions, coming from this or other clients,
+ * and rejections) must be fed to the client with `receive`, which will roll back the pending
+ * actions using their inverse patches, apply the confirmed action (synchronizing new model ids)
+ * and finally apply the remaining pending actions again.
+ *
+ * Local actions that throw are rolled back and not sent. Only model actions are supported,
+ * model flows will throw.
+ *
+ * @param subtreeRoot Subtree root target object.
+ * @param transport Transport used to send the actions to the server.
+ * @param [options] Client options.
+ * @returns An `ActionSyncClient`.
+ */
+export function actionSyncClient(
+  subtreeRoot: object,
+  transport: ActionSyncTransport,
+  options?: ActionSyncClientOptions
+): ActionSyncClient {
+  assertTweakedObject(subtreeRoot, "subtreeRoot")
+  assertIsObject(transport, "transport")
+
+  interface LocalActionRecording {
+    readonly actionCall: SerializedActionCall
+    readonly patchRecorder: PatchRecorder
+  }
+
+  const localActionRecordingSymbol = Symbol("localActionRecording")
+
+  let client: ActionSyncClient
+
+  const middlewareDisposer = onActionMiddleware(subtreeRoot, {
+    onStart(actionCall, ctx) {
+      // remote actions (e.g. the ones confirmed by the server) are not sent
+      if (ctx.origin === ActionContextOrigin.Serialized) {
+        return undefined
+      }
+
+      // rolling back and reapplying pending actions is done through applyPatches / applyAction,
+      // which give the same origins as if they were used locally by the user, so the origin cannot
+      // tell them apart from local actions that need to be sent
+      if (client._isSyncing) {
+        return undefined
+      }
+
+      if (ctx.type !== ActionContextActionType.Sync) {
+        return {
+          result: ActionTrackingResult.Throw,
+          value: failure("model flows are not supported by actionSyncClient"),
+        }
+      }
+
+      const recording: LocalActionRecording = {
+        actionCall: serializeActionCall(actionCall, subtreeRoot),
+        patchRecorder: patchRecorder(subtreeRoot),
+      }
+      ctx.data[localActionRecordingSymbol] = recording
+      return undefined
+    },
+
+    onFinish(_actionCall, ctx, ret) {
+      const recording: LocalActionRecording | undefined = ctx.data[localActionRecordingSymbol]
+      if (!recording) {
+        return undefined
+      }
+      delete ctx.data[localActionRecordingSymbol]
+
+      recording.patchRecorder.dispose()
+      const inversePatches = getInversePatches(recording.patchRecorder)
+
+      if (ret.result === ActionTrackingResult.Throw) {
+        client._applyWhileSyncing(() => {
+          applyPatches(subtreeRoot, inversePatches)
+        })
+      } else {
+        client._addPendingAction(recording.actionCall, inversePatches)
+      }
+      return undefined
+    },
+  })
+
+  client = new ActionSyncClient(middlewareDisposer, subtreeRoot, transport, options)
+  return client
+}
+
+function getInversePatches(recorder: PatchRecorder): Patch[] {
+  const inversePatches: Patch[] = []
+  const events = recorder.events
+  for (let i = events.length - 1; i >= 0; i--) {
+    inversePatches.push(...events[i].inversePatches)
+  }
+  return inversePatches
+}
@@ -2,6 +2,7 @@ import {
   ActionContext,
   ActionContextActionType,
   ActionContextAsyncStepType,
+  ActionContextOrigin,
 } from "../action/context"
 import {
   ActionMiddleware,
@@ -41,6 +42,10 @@ export interface SimpleActionContext {
    * Root action context, or itself if the root.
    */
   readonly rootContext: SimpleActionContext
+  /**
+   * Where the action comes from.
+   */
+  readonly origin: ActionContextOrigin
   /**
    * Custom data for the action context to be set by middlewares, an object.
    * It is advised to use symbols as keys whenever possible to avoid name
@@ -411,6 +416,7 @@ export function simplifyActionContext(ctx: ActionContext): SimpleActionContext {
       args: ctx.args,
       data: ctx.data,
       parentContext,
+      origin: ctx.origin,
     }
     simpleCtx.rootContext = parentContext ? parentContext.rootContext : simpleCtx
 
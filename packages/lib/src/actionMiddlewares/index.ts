@@ -1,4 +1,6 @@
+export * from "./actionRecorder"
 export * from "./actionSerialization"
+export * from "./actionSyncClient"
 export * from "./actionTrackingMiddleware"
 export * from "./onActionMiddleware"
 export * from "./readonlyMiddleware"
@@ -5,9 +5,23 @@ import { Model } from "../model/Model"
 import { model } from "../model/modelDecorator"
 import { fastGetRootPath } from "../parent/path"
 import { Path } from "../parent/pathTypes"
-import { applyPatches, Patch, patchRecorder, PatchRecorder } from "../patch"
+import { frozen } from "../frozen/Frozen"
+import {
+  applyPatches,
+  mergePatches,
+  Patch,
+  patchRecorder,
+  PatchRecorder,
+  PatchesWithInverse,
+} from "../patch"
+import { pathsAreEqual } from "../patch/utils"
 import { assertTweakedObject } from "../tweaker/core"
 import { typesArray } from "../typeChecking/array"
+import { typesEnum } from "../typeChecking/enum"
+import { typesMaybe } from "../typeChecking/maybe"
+import { typesFrozen, typesObject } from "../typeChecking/object"
+import { typesOr } from "../typeChecking/or"
+import { typesNumber, typesString } from "../typeChecking/primitives"
 import { tProp } from "../typeChecking/tProp"
 import { typesUnchecked } from "../typeChecking/unchecked"
 import { failure } from "../utils"
@@ -35,17 +49,46 @@ export interface UndoEvent {
    * Use `undo()` in the `UndoManager` to apply them.
    */
   readonly inversePatches: ReadonlyArray<Patch>
+  /**
+   * Label of the group, if the event was generated by a labeled undo group.
+   * When several actions are grouped `targetPath` and `actionName` will be the ones
+   * of the first action of the group.
+   */
+  readonly groupLabel?: string
 }
 
+const pathType = typesArray(typesOr(typesString, typesNumber))
+
+const patchOpType = typesEnum<Patch["op"]>({ replace: "replace", remove: "remove", add: "add" })
+
+const patchType = typesObject(() => ({
+  op: patchOpType,
+  path: pathType,
+  value: typesUnchecked<any>(),
+}))
+
+const undoEventType = typesObject(() => ({
+  targetPath: pathType,
+  actionName: typesString,
+  patches: typesArray(patchType),
+  inversePatches: typesArray(patchType),
+  groupLabel: typesMaybe(typesString),
+}))
+
+const undoEventsType = typesArray(typesFrozen(undoEventType))
+
 /**
  * Store model instance for undo/redo actions.
  * Do not manipulate directly, other that creating it.
+ *
+ * Events are kept as frozen data, so the store can be safely persisted with `getSnapshot`
+ * and restored with `fromSnapshot` (snapshots inside patch values won't be turned into models),
+ * and they are type checked so a corrupted history will be rejected with a `TypeCheckError`.
  */
 @model("mobx-keystone/UndoStore")
 export class UndoStore extends Model({
-  // TODO: add proper type checking to undo store
-  undoEvents: tProp(typesArray(typesUnchecked<UndoEvent>()), () => []),
-  redoEvents: tProp(typesArray(typesUnchecked<UndoEvent>()), () => []),
+  undoEvents: tProp(undoEventsType, () => []),
+  redoEvents: tProp(undoEventsType, () => []),
 }) {
   /**
    * @ignore
@@ -93,13 +136,94 @@ export class UndoStore extends Model({
    * @ignore
    */
   @modelAction
-  _addUndo(event: UndoEvent) {
+  _addUndo(event: UndoEvent, replaceLast: boolean) {
     withoutUndo(() => {
-      this.undoEvents.push(event)
+      if (replaceLast) {
+        this.undoEvents.pop()
+      }
+      // the store types frozen event arrays as mutable ones, but frozen data is never mutated
+      this.undoEvents.push(frozen(event) as UndoStore["undoEvents"][number])
       // once an undo event is added redo queue is no longer valid
       this.redoEvents.length = 0
     })
   }
+
+  /**
+   * @ignore
+   */
+  @modelAction
+  _trimUndo(maxUndoLevels: number, maxPatches: number) {
+    withoutUndo(() => {
+      let removeCount = Math.max(0, this.undoEvents.length - maxUndoLevels)
+
+      let patchCount = 0
+      for (let i = this.undoEvents.length - 1; i >= removeCount; i--) {
+        const event = this.undoEvents[i].data
+        patchCount += event.patches.length + event.inversePatches.length
+        // the most recent event is always kept
+        if (patchCount > maxPatches && i < this.undoEvents.length - 1) {
+          removeCount = i + 1
+          break
+        }
+      }
+
+      if (removeCount > 0) {
+        this.undoEvents.splice(0, removeCount)
+      }
+    })
+  }
+}
+
+/**
+ * Undo middleware options.
+ */
+export interface UndoMiddlewareOptions {
+  /**
+   * Maximum number of undo levels to keep. When exceeded the oldest undo events are discarded.
+   * Defaults to no limit.
+   */
+  maxUndoLevels?: number
+
+  /**
+   * Maximum number of patches (including inverse patches) to keep in the undo queue.
+   * When exceeded the oldest undo events are discarded, though the most recent one is always kept.
+   * Defaults to no limit.
+   */
+  maxPatches?: number
+
+  /**
+   * Time window (in milliseconds) in which consecutive events generated by the same action
+   * over the same target path will be coalesced into a single undo event (for example when
+   * typing on a text field).
+   * Defaults to 0 (no coalescing).
+   */
+  coalesceTimeWindow?: number
+
+  /**
+   * Pass `true` to compress the patches of each undo event using `compressPatches`, which
+   * reduces the memory used by the undo history.
+   * Defaults to `false`.
+   */
+  compressPatches?: boolean
+
+  /**
+   * Filter function called whenever each action starts. Actions for which it returns `false`
+   * won't generate undo events (for example selection changes).
+   *
+   * Note that it is checked for every action, so accepted actions run inside filtered out
+   * ones will still be recorded, while filtered out actions run inside accepted ones will
+   * be recorded as part of them.
+   *
+   * @param ctx Simplified action context.
+   * @returns true to accept the action, false to skip it.
+   */
+  filter?(ctx: SimpleActionContext): boolean
+}
+
+interface UndoGroup {
+  readonly label: string | undefined
+  depth: number
+  readonly events: UndoEvent[]
 }
 
 /**
@@ -111,13 +235,23 @@ export class UndoManager {
    */
   readonly store: UndoStore
 
+  private currentGroup: UndoGroup | undefined
+
+  private lastAddedEvent: UndoEvent | undefined
+  private lastAddedEventTime = 0
+
+  private readonly maxUndoLevels: number
+  private readonly maxPatches: number
+  private readonly coalesceTimeWindow: number
+  private readonly compressPatches: boolean
+
   /**
    * The undo stack, where the first operation to undo will be the last of the array.
    * Do not manipulate this array directly.
    */
   @computed
   get undoQueue(): ReadonlyArray<UndoEvent> {
-    return this.store.undoEvents
+    return this.store.undoEvents.map(e => e.data)
   }
 
   /**
@@ -126,7 +260,7 @@ export class UndoManager {
    */
   @computed
   get redoQueue(): ReadonlyArray<UndoEvent> {
-    return this.store.redoEvents
+    return this.store.redoEvents.map(e => e.data)
   }
 
   /**
@@ -150,6 +284,7 @@ export class UndoManager {
    */
   @action
   clearUndo() {
+    this.lastAddedEvent = undefined
     this.store._clearUndo()
   }
 
@@ -177,12 +312,183 @@ export class UndoManager {
     this.store._clearRedo()
   }
 
+  /**
+   * If an undo group is currently open.
+   */
+  get isGroupOpen() {
+    return !!this.currentGroup
+  }
+
+  /**
+   * Opens an undo group. All the actions finished while the group is open will be collapsed
+   * into a single undo event once the group is closed with `endGroup`.
+   * Groups can be nested, in which case only the outermost one will generate an event
+   * (and only its label will be used).
+   *
+   * @param [label] Optional label for the group, which will be stored as `groupLabel` in the event.
+   */
+  startGroup(label?: string) {
+    if (this.currentGroup) {
+      this.currentGroup.depth++
+    } else {
+      this.currentGroup = {
+        label,
+        depth: 1,
+        events: [],
+      }
+    }
+  }
+
+  /**
+   * Closes the last undo group opened with `startGroup`.
+   * Will throw if there is no open group.
+   */
+  @action
+  endGroup() {
+    const group = this.currentGroup
+    if (!group) {
+      throw failure("there is no undo group to end")
+    }
+
+    group.depth--
+    if (group.depth > 0) {
+      return
+    }
+    this.currentGroup = undefined
+
+    const { events } = group
+    if (events.length <= 0) {
+      return
+    }
+
+    const { patches, inversePatches } = mergeEventPatches(events, this.compressPatches)
+
+    this.pushUndoEvent(
+      {
+        targetPath: events[0].targetPath,
+        actionName: events[0].actionName,
+        patches,
+        inversePatches,
+        ...(group.label !== undefined ? { groupLabel: group.label } : {}),
+      },
+      false
+    )
+  }
+
+  /**
+   * Runs a function inside an undo group, so all the actions run inside will be collapsed into
+   * a single undo event.
+   * If the function returns a promise (for example when it calls a `modelFlow`) the group
+   * will be kept open until such promise is settled.
+   * Note that any action that finishes while the group is open will become part of the group.
+   *
+   * @typeparam T Return type of the function.
+   * @param fn Function to run.
+   * @returns The function result.
+   */
+  withGroup<T>(fn: () => T): T
+
+  /**
+   * Runs a function inside a labeled undo group, so all the actions run inside will be collapsed into
+   * a single undo event.
+   * If the function returns a promise (for example when it calls a `modelFlow`) the group
+   * will be kept open until such promise is settled.
+   * Note that any action that finishes while the group is open will become part of the group.
+   *
+   * @typeparam T Return type of the function.
+   * @param label Label for the group, which will be stored as `groupLabel` in the event.
+   * @param fn Function to run.
+   * @returns The function result.
+   */
+  withGroup<T>(label: string | undefined, fn: () => T): T
+
+  withGroup<T>(arg1: any, arg2?: any): T {
+    let label: string | undefined
+    let fn: () => T
+    if (typeof arg1 === "function") {
+      fn = arg1
+    } else {
+      label = arg1
+      fn = arg2
+    }
+
+    this.startGroup(label)
+    let ret: any
+    try {
+      ret = fn()
+    } catch (e) {
+      this.endGroup()
+      throw e
+    }
+
+    if (ret && typeof ret.then === "function") {
+      return ret.then(
+        (value: any) => {
+          this.endGroup()
+          return value
+        },
+        (err: any) => {
+          this.endGroup()
+          throw err
+        }
+      )
+    }
+
+    this.endGroup()
+    return ret
+  }
+
+  /**
+   * @ignore
+   * @internal
+   */
+  @action
+  _addUndo(event: UndoEvent) {
+    if (this.currentGroup) {
+      this.currentGroup.events.push(event)
+    } else {
+      this.pushUndoEvent(event, true)
+    }
+  }
+
+  private pushUndoEvent(event: UndoEvent, canCoalesce: boolean) {
+    const now = Date.now()
+
+    const { undoQueue } = this
+    const lastEvent = undoQueue.length > 0 ? undoQueue[undoQueue.length - 1] : undefined
+
+    const coalesce =
+      canCoalesce &&
+      this.coalesceTimeWindow > 0 &&
+      !!lastEvent &&
+      lastEvent === this.lastAddedEvent &&
+      now - this.lastAddedEventTime <= this.coalesceTimeWindow &&
+      lastEvent.groupLabel === undefined &&
+      lastEvent.actionName === event.actionName &&
+      pathsAreEqual(lastEvent.targetPath, event.targetPath)
+
+    if (coalesce) {
+      event = {
+        ...event,
+        ...mergeEventPatches([lastEvent!, event], this.compressPatches),
+      }
+    }
+
+    this.store._addUndo(event, coalesce)
+    this.store._trimUndo(this.maxUndoLevels, this.maxPatches)
+
+    // only events generated by a single action can be coalesced later
+    this.lastAddedEvent = canCoalesce ? event : undefined
+    this.lastAddedEventTime = now
+  }
+
   /**
    * Undoes the last action.
-   * Will throw if there is no action to undo.
+   * Will throw if there is no action to undo or if an undo group is open.
    */
   @action
   undo() {
+    this.assertNoOpenGroup("undo")
     if (!this.canUndo) {
       throw failure("nothing to undo")
     }
@@ -192,15 +498,17 @@ export class UndoManager {
       applyPatches(this.subtreeRoot, event.inversePatches)
     })
 
+    this.lastAddedEvent = undefined
     this.store._undo()
   }
 
   /**
    * Redoes the previous action.
-   * Will throw if there is no action to redo.
+   * Will throw if there is no action to redo or if an undo group is open.
    */
   @action
   redo() {
+    this.assertNoOpenGroup("redo")
     if (!this.canRedo) {
       throw failure("nothing to redo")
     }
@@ -210,9 +518,16 @@ export class UndoManager {
       applyPatches(this.subtreeRoot, event.patches)
     })
 
+    this.lastAddedEvent = undefined
     this.store._redo()
   }
 
+  private assertNoOpenGroup(operation: string) {
+    if (this.currentGroup) {
+      throw failure(`cannot ${operation} while an undo group is open`)
+    }
+  }
+
   /**
    * Disposes the undo middleware.
    */
@@ -227,68 +542,104 @@ export class UndoManager {
    * @param disposer
    * @param subtreeRoot
    * @param [store]
+   * @param [options]
    */
   constructor(
     private readonly disposer: ActionMiddlewareDisposer,
     private readonly subtreeRoot: object,
-    store?: UndoStore
+    store?: UndoStore,
+    options?: UndoMiddlewareOptions
   ) {
     this.store = store || new UndoStore({})
+
+    const opts = {
+      maxUndoLevels: Infinity,
+      maxPatches: Infinity,
+      coalesceTimeWindow: 0,
+      compressPatches: false,
+      ...options,
+    }
+    this.maxUndoLevels = opts.maxUndoLevels
+    this.maxPatches = opts.maxPatches
+    this.coalesceTimeWindow = opts.coalesceTimeWindow
+    this.compressPatches = opts.compressPatches
   }
 }
 
 /**
  * Creates an undo middleware.
  *
+ * Several undo middlewares can be attached to disjoint subtrees of a same root (for example
+ * to get per-document undo in a multi-document editor), and each one will only record the
+ * changes done to its own subtree.
+ *
  * @param subtreeRoot Subtree root target object.
  * @param [store] Optional `UndoStore` where to store the undo/redo queues. Use this if you want to
  * store such queues somewhere in your models. If none is provided it will reside in memory.
+ * @param [options] Optional action filter, history size limits and coalescing options.
  * @returns An `UndoManager` which allows you to do the manage the undo/redo operations and dispose of the middleware.
  */
-export function undoMiddleware(subtreeRoot: object, store?: UndoStore): UndoManager {
+export function undoMiddleware(
+  subtreeRoot: object,
+  store?: UndoStore,
+  options?: UndoMiddlewareOptions
+): UndoManager {
   assertTweakedObject(subtreeRoot, "subtreeRoot")
 
-  const patchRecorderSymbol = Symbol("patchRecorder")
-  function initPatchRecorder(ctx: SimpleActionContext) {
-    ctx.rootContext.data[patchRecorderSymbol] = patchRecorder(subtreeRoot, {
-      recording: false,
-      filter: undoDisabledFilter,
-    })
+  interface UndoRecording {
+    // topmost accepted action context, which owns the recording
+    readonly ctx: SimpleActionContext
+    readonly patchRecorder: PatchRecorder
+    resumedCount: number
   }
-  function getPatchRecorder(ctx: SimpleActionContext): PatchRecorder {
-    return ctx.rootContext.data[patchRecorderSymbol]
+
+  const undoRecordingSymbol = Symbol("undoRecording")
+  function getUndoRecording(ctx: SimpleActionContext): UndoRecording | undefined {
+    return ctx.rootContext.data[undoRecordingSymbol]
   }
 
   let manager: UndoManager
 
   const middlewareDisposer = actionTrackingMiddleware(subtreeRoot, {
+    filter: options && options.filter,
     onStart(ctx) {
-      if (ctx === ctx.rootContext) {
-        initPatchRecorder(ctx)
+      // the root context might be outside the subtree (or filtered out), so the recording
+      // is owned by the topmost accepted action rather than by the root one
+      if (!getUndoRecording(ctx)) {
+        const undoRecording: UndoRecording = {
+          ctx,
+          patchRecorder: patchRecorder(subtreeRoot, {
+            recording: false,
+            filter: undoDisabledFilter,
+          }),
+          resumedCount: 0,
+        }
+        ctx.rootContext.data[undoRecordingSymbol] = undoRecording
       }
     },
     onResume(ctx) {
-      const patchRecorder = getPatchRecorder(ctx)
-      patchRecorder.recording = true
+      const undoRecording = getUndoRecording(ctx)!
+      undoRecording.resumedCount++
+      undoRecording.patchRecorder.recording = true
     },
     onSuspend(ctx) {
-      const patchRecorder = getPatchRecorder(ctx)
-      patchRecorder.recording = false
+      const undoRecording = getUndoRecording(ctx)!
+      undoRecording.resumedCount--
+      // keep recording if a parent action is still running
+      undoRecording.patchRecorder.recording = undoRecording.resumedCount > 0
     },
     onFinish(ctx) {
-      if (ctx === ctx.rootContext) {
-        const patchRecorder = getPatchRecorder(ctx)
+      const undoRecording = getUndoRecording(ctx)!
+      if (undoRecording.ctx === ctx) {
+        const { patchRecorder } = undoRecording
 
         if (patchRecorder.events.length > 0) {
-          const patches: Patch[] = []
-          const inversePatches: Patch[] = []
-
-          for (const event of patchRecorder.events) {
-            patches.push(...event.patches)
-            inversePatches.unshift(...event.inversePatches)
-          }
+          const { patches, inversePatches } = mergeEventPatches(
+            patchRecorder.events,
+            !!(options && options.compressPatches)
+          )
 
-          manager.store._addUndo({
+          manager._addUndo({
             targetPath: fastGetRootPath(ctx.target).path,
             actionName: ctx.actionName,
             patches,
@@ -297,14 +648,34 @@ export function undoMiddleware(subtreeRoot: object, store?: UndoStore): UndoMana
         }
 
         patchRecorder.dispose()
+        delete ctx.rootContext.data[undoRecordingSymbol]
       }
     },
   })
 
-  manager = new UndoManager(middlewareDisposer, subtreeRoot, store)
+  manager = new UndoManager(middlewareDisposer, subtreeRoot, store, options)
   return manager
 }
 
+function mergeEventPatches(
+  events: ReadonlyArray<PatchesWithInverse>,
+  compress: boolean
+): PatchesWithInverse {
+  if (compress) {
+    return mergePatches(events)
+  }
+
+  const patches: Patch[] = []
+  const inversePatches: Patch[] = []
+
+  for (const event of events) {
+    patches.push(...event.patches)
+    inversePatches.unshift(...event.inversePatches)
+  }
+
+  return { patches, inversePatches }
+}
+
 let undoDisabled = false
 
 const undoDisabledFilter = () => {
@@ -0,0 +1,102 @@
+import { addModelClassInitializer } from "../model/newModel"
+import { checkModelDecoratorArgs } from "../model/utils"
+import { assertIsFunction, assertIsObject, failure } from "../utils"
+import { modelEffect, ModelReactionEffectOptions } from "./modelEffect"
+
+/**
+ * Options for the `effect` decorator.
+ */
+export interface EffectOptions extends ModelReactionEffectOptions {
+  /**
+   * Expression function for reaction effects. When set the decorated method will be run every
+   * time the value returned by it changes, with such value as argument.
+   * When not set the decorated method will be run as an autorun, and the reaction only
+   * options (`fireImmediately`, `unprotected`) will be ignored.
+   */
+  expression?: (model: any) => any
+}
+
+/**
+ * Decorator that turns a model method into an autorun effect.
+ * See `modelEffect` for more info.
+ *
+ * @param target
+ * @param propertyKey
+ * @param [baseDescriptor]
+ * @returns
+ */
+export function effect(target: any, propertyKey: string, baseDescriptor?: PropertyDescriptor): void
+
+/**
+ * Decorator factory that turns a model method into an effect with the given options.
+ * See `modelEffect` for more info.
+ *
+ * ```ts
+ * @effect({ expression: (todo: Todo) => todo.text })
+ * saveText(text: string) { ... }
+ * ```
+ *
+ * @param options Effect options.
+ * @returns The decorator.
+ */
+export function effect(
+  options: EffectOptions
+): (target: any, propertyKey: string, baseDescriptor?: PropertyDescriptor) => void
+
+// base
+export function effect(
+  targetOrOptions: any,
+  propertyKey?: string,
+  baseDescriptor?: PropertyDescriptor
+): any {
+  if (propertyKey === undefined) {
+    const options: EffectOptions = targetOrOptions
+    assertIsObject(options, "options")
+    if (options.expression !== undefined) {
+      assertIsFunction(options.expression, "expression")
+    }
+
+    return (target: any, propertyKey: string, baseDescriptor?: PropertyDescriptor) =>
+      decorateEffect(target, propertyKey, baseDescriptor, options)
+  }
+
+  return decorateEffect(targetOrOptions, propertyKey, baseDescriptor, undefined)
+}
+
+function decorateEffect(
+  target: any,
+  propertyKey: string,
+  baseDescriptor: PropertyDescriptor | undefined,
+  options: EffectOptions | undefined
+) {
+  checkModelDecoratorArgs("effect", target, propertyKey)
+  if (!baseDescriptor || typeof baseDescriptor.value !== "function") {
+    throw failure("effect has to be used over methods")
+  }
+
+  const expression = options && options.expression
+  addModelClassInitializer(target.constructor, modelInstance => {
+    // methods are looked up on every run so they can be overridden
+    const m = modelInstance as any
+    if (expression) {
+      modelEffect(
+        m,
+        propertyKey,
+        () => expression(m),
+        value => {
+          m[propertyKey](value)
+        },
+        options
+      )
+    } else {
+      modelEffect(
+        m,
+        propertyKey,
+        () => {
+          m[propertyKey]()
+        },
+        options
+      )
+    }
+  })
+}
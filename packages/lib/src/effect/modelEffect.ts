@@ -0,0 +1,266 @@
+import { autorun, IReactionDisposer, reaction } from "mobx"
+import { runUnprotected } from "../action/protection"
+import { AnyModel } from "../model/BaseModel"
+import { modelTypeKey } from "../model/metadata"
+import { assertIsModel } from "../model/utils"
+import { trackRootStoreHooks } from "../rootStore/attachDetach"
+import { assertIsFunction, assertIsString, failure } from "../utils"
+
+/**
+ * Model effect type.
+ * - `"autorun"`: The effect runs once when started and then every time any observable it accessed
+ *   changes.
+ * - `"reaction"`: The effect runs every time the value returned by its expression changes.
+ */
+export type ModelEffectType = "autorun" | "reaction"
+
+/**
+ * Options for autorun model effects.
+ */
+export interface ModelEffectOptions {
+  /**
+   * Number of milliseconds the effect runs will be throttled by.
+   */
+  delay?: number
+}
+
+/**
+ * Options for reaction model effects.
+ */
+export interface ModelReactionEffectOptions extends ModelEffectOptions {
+  /**
+   * If the effect should also run when it is started. Defaults to `false`.
+   */
+  fireImmediately?: boolean
+
+  /**
+   * If the effect should be able to change the model state without using model actions, as if
+   * it were run inside `runUnprotected`. Defaults to `false`.
+   * Note that such changes won't be seen by action middlewares (and therefore won't be undoable,
+   * serialized, etc.), so only use it for state that is derived from the reaction expression.
+   */
+  unprotected?: boolean
+}
+
+/**
+ * Debugging information about an effect registered on a model.
+ */
+export interface ModelEffectInfo {
+  /**
+   * Effect name.
+   */
+  readonly name: string
+
+  /**
+   * Effect type.
+   */
+  readonly type: ModelEffectType
+
+  /**
+   * If the effect is running (the model is attached to a root store).
+   */
+  readonly isRunning: boolean
+}
+
+interface ModelEffect {
+  readonly name: string
+  readonly type: ModelEffectType
+  readonly start: () => IReactionDisposer
+  disposer?: IReactionDisposer
+}
+
+const modelEffects = new WeakMap<object, ModelEffect[]>()
+
+/**
+ * @ignore
+ * @internal
+ */
+export function hasModelEffects(model: AnyModel): boolean {
+  const effects = modelEffects.get(model)
+  return !!effects && effects.length > 0
+}
+
+function startModelEffect(effect: ModelEffect) {
+  if (!effect.disposer) {
+    effect.disposer = effect.start()
+  }
+}
+
+function stopModelEffect(effect: ModelEffect) {
+  if (effect.disposer) {
+    const disposer = effect.disposer
+    effect.disposer = undefined
+    disposer()
+  }
+}
+
+/**
+ * @ignore
+ * @internal
+ *
+ * Starts the effects of a model, in registration order.
+ */
+export function startModelEffects(model: AnyModel) {
+  const effects = modelEffects.get(model)
+  if (effects) {
+    effects.forEach(startModelEffect)
+  }
+}
+
+/**
+ * @ignore
+ * @internal
+ *
+ * Stops the effects of a model, in reverse registration order.
+ */
+export function stopModelEffects(model: AnyModel) {
+  const effects = modelEffects.get(model)
+  if (effects) {
+    for (let i = effects.length - 1; i >= 0; i--) {
+      stopModelEffect(effects[i])
+    }
+  }
+}
+
+/**
+ * Registers an autorun effect on a model instance.
+ * The effect will start running once the model is attached to a root store (right after its
+ * `onAttachedToRootStore` hook) and will stop once it is detached from it (right before the
+ * disposer returned by such hook), but it will be kept running when the model is just moved
+ * within the same root store.
+ * Usually called from `onInit`, or else used through the `effect` decorator.
+ *
+ * @typeparam M Model type.
+ * @param model Model instance.
+ * @param name Effect name, unique per model instance.
+ * @param effect Effect function, run inside a MobX `autorun`.
+ * @param [options] Effect options.
+ * @returns A disposer that will stop the effect and unregister it.
+ */
+export function modelEffect<M extends AnyModel>(
+  model: M,
+  name: string,
+  effect: (this: M) => void,
+  options?: ModelEffectOptions
+): () => void
+
+/**
+ * Registers a reaction effect on a model instance.
+ * The effect will start running once the model is attached to a root store (right after its
+ * `onAttachedToRootStore` hook) and will stop once it is detached from it (right before the
+ * disposer returned by such hook), but it will be kept running when the model is just moved
+ * within the same root store.
+ * Usually called from `onInit`, or else used through the `effect` decorator.
+ *
+ * @typeparam M Model type.
+ * @typeparam T Expression value type.
+ * @param model Model instance.
+ * @param name Effect name, unique per model instance.
+ * @param expression Expression function, tracked by a MobX `reaction`.
+ * @param effect Effect function, run every time the value returned by the expression changes.
+ * @param [options] Effect options.
+ * @returns A disposer that will stop the effect and unregister it.
+ */
+export function modelEffect<M extends AnyModel, T>(
+  model: M,
+  name: string,
+  expression: (this: M) => T,
+  effect: (this: M, value: T) => void,
+  options?: ModelReactionEffectOptions
+): () => void
+
+// base
+export function modelEffect(
+  model: AnyModel,
+  name: string,
+  fn1: () => any,
+  arg4?: any,
+  arg5?: ModelReactionEffectOptions
+): () => void {
+  assertIsModel(model, "model")
+  assertIsString(name, "name")
+  assertIsFunction(fn1, "effect")
+
+  let effects = modelEffects.get(model)
+  if (!effects) {
+    effects = []
+    modelEffects.set(model, effects)
+  }
+  if (effects.some(e => e.name === name)) {
+    throw failure(`an effect named '${name}' is already registered for this model`)
+  }
+
+  const mobxName = `${model[modelTypeKey]}.${name}`
+
+  let effect: ModelEffect
+  if (typeof arg4 === "function") {
+    const expression = fn1
+    const effectFn = arg4
+    const options = arg5 || {}
+    const runEffect: (value: any) => void = options.unprotected
+      ? value => {
+          runUnprotected(mobxName, () => effectFn.call(model, value))
+        }
+      : value => {
+          effectFn.call(model, value)
+        }
+
+    effect = {
+      name,
+      type: "reaction",
+      start: () =>
+        reaction(() => expression.call(model), runEffect, {
+          name: mobxName,
+          delay: options.delay,
+          fireImmediately: options.fireImmediately,
+        }),
+    }
+  } else {
+    const effectFn = fn1
+    const options: ModelEffectOptions = arg4 || {}
+    effect = {
+      name,
+      type: "autorun",
+      start: () =>
+        autorun(() => effectFn.call(model), {
+          name: mobxName,
+          delay: options.delay,
+        }),
+    }
+  }
+
+  effects.push(effect)
+
+  // start it right away if the model is already part of a root store
+  if (trackRootStoreHooks(model)) {
+    startModelEffect(effect)
+  }
+
+  return () => {
+    stopModelEffect(effect)
+    const index = effects!.indexOf(effect)
+    if (index >= 0) {
+      effects!.splice(index, 1)
+    }
+  }
+}
+
+/**
+ * Gets debugging information about the effects registered on a model instance.
+ *
+ * @param model Model instance.
+ * @returns An array with the effects, in registration order.
+ */
+export function getModelEffects(model: AnyModel): ReadonlyArray<ModelEffectInfo> {
+  assertIsModel(model, "model")
+
+  const effects = modelEffects.get(model)
+  if (!effects) {
+    return []
+  }
+  return effects.map(e => ({
+    name: e.name,
+    type: e.type,
+    isRunning: !!e.disposer,
+  }))
+}
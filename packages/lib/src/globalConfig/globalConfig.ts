@@ -33,6 +33,13 @@ export interface GlobalConfig {
    * ID generator function for $modelId.
    */
   modelIdGenerator(): string
+
+  /**
+   * Pass `true` to assert that all references in a tree are valid (through `assertRefIntegrity`)
+   * after it was created through `fromSnapshot` or changed through `applySnapshot`.
+   * Only done in dev mode. (Default is `false`)
+   */
+  checkRefIntegrityOnSnapshots: boolean
 }
 
 let localId = 0
@@ -49,6 +56,7 @@ function defaultModelIdGenerator(): string {
 let globalConfig: GlobalConfig = {
   modelAutoTypeChecking: ModelAutoTypeCheckingMode.DevModeOnly,
   modelIdGenerator: defaultModelIdGenerator,
+  checkRefIntegrityOnSnapshots: false,
 }
 
 /**
@@ -1,6 +1,7 @@
 export * from "./action"
 export * from "./actionMiddlewares"
 export * from "./context"
+export * from "./effect"
 export * from "./frozen"
 export * from "./globalConfig"
 export * from "./model"
@@ -11,6 +12,7 @@ export * from "./redux"
 export * from "./ref"
 export * from "./rootStore"
 export * from "./snapshot"
+export * from "./timeTravel"
 export * from "./tweaker"
 export * from "./typeChecking"
 export * from "./utils"
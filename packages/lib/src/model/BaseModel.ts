@@ -1,12 +1,14 @@
 import { observable } from "mobx"
 import { O } from "ts-toolbelt"
 import { getGlobalConfig } from "../globalConfig"
+import { Path } from "../parent/pathTypes"
+import { RootStoreDetachReason } from "../rootStore/rootStore"
 import { SnapshotInOfModel, SnapshotInOfObject, SnapshotOutOfModel } from "../snapshot/SnapshotOf"
 import { typesModel } from "../typeChecking/model"
 import { typeCheck } from "../typeChecking/typeCheck"
 import { TypeCheckError } from "../typeChecking/TypeCheckError"
 import { assertIsObject } from "../utils"
-import { modelIdKey, modelTypeKey } from "./metadata"
+import { modelIdKey, modelTypeKey, modelVersionKey } from "./metadata"
 import { modelInfoByClass } from "./modelInfo"
 import { internalNewModel } from "./newModel"
 import { assertIsModelClass } from "./utils"
@@ -79,6 +81,34 @@ export abstract class BaseModel<
    */
   onAttachedToRootStore?(rootStore: object): (() => void) | void
 
+  /**
+   * Optional hook that will run once this model instance is detached from the tree of a model marked
+   * as root store, after the disposer returned by `onAttachedToRootStore` (if any).
+   *
+   * When the model is detached inside a model action and by the time the outermost one finishes it
+   * has been attached again to the same root store this hook won't run, `onMovedWithinRootStore`
+   * will run instead.
+   *
+   * @param rootStore Root store it was detached from.
+   * @param reason Reason why it was detached.
+   */
+  onDetachedFromRootStore?(rootStore: object, reason: RootStoreDetachReason): void
+
+  /**
+   * Optional hook that will run when this model instance was detached from the tree of a model marked
+   * as root store and then attached again to it at a different path inside the same outermost model
+   * action (e.g. when moving it from one array to another).
+   * In this case neither the `onAttachedToRootStore` disposer nor `onDetachedFromRootStore` run, and
+   * `onAttachedToRootStore` won't run again, so any effects registered there are kept.
+   *
+   * Note that changes of index caused by other items being added to / removed from an array are not
+   * considered moves.
+   *
+   * @param oldPath Path from the root store to the model before it was moved.
+   * @param newPath Path from the root store to the model after it was moved.
+   */
+  onMovedWithinRootStore?(oldPath: Path, newPath: Path): void
+
   /**
    * Optional transformation that will be run when converting from a snapshot to the data part of the model.
    * Useful for example to do versioning and keep the data part up to date with the latest version of the model.
@@ -141,6 +171,8 @@ export const baseModelPropNames = new Set<keyof AnyModel>([
   "$",
   "getRefId",
   "onAttachedToRootStore",
+  "onDetachedFromRootStore",
+  "onMovedWithinRootStore",
   "fromSnapshot",
   "typeCheck",
 ])
@@ -196,6 +228,7 @@ export function modelSnapshotInWithMetadata<M extends AnyModel>(
     ...snapshot,
     [modelTypeKey]: modelInfo.name,
     [modelIdKey]: internalId,
+    ...(modelInfo.version !== undefined ? { [modelVersionKey]: modelInfo.version } : undefined),
   } as any
 }
 
@@ -223,5 +256,6 @@ export function modelSnapshotOutWithMetadata<M extends AnyModel>(
     ...snapshot,
     [modelTypeKey]: modelInfo.name,
     [modelIdKey]: internalId,
+    ...(modelInfo.version !== undefined ? { [modelVersionKey]: modelInfo.version } : undefined),
   } as any
 }
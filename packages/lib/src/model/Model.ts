@@ -11,6 +11,7 @@ import {
   ModelClass,
   modelInitializedSymbol,
 } from "./BaseModel"
+import { getModelPropData } from "./lazyModelProps"
 import { modelIdKey } from "./metadata"
 import {
   modelDataTypeCheckerSymbol,
@@ -225,7 +226,7 @@ function createModelPropDescriptor(modelPropName: string, enumerable: boolean):
     configurable: true,
     get(this: AnyModel) {
       // no need to use get since these vars always get on the initial $
-      return this.$[modelPropName]
+      return getModelPropData(this, modelPropName)[modelPropName]
     },
     set(this: AnyModel, v?: any) {
       // hack to only permit setting these values once fully constructed
@@ -235,7 +236,7 @@ function createModelPropDescriptor(modelPropName: string, enumerable: boolean):
         return
       }
       // no need to use set since these vars always get on the initial $
-      this.$[modelPropName] = v
+      getModelPropData(this, modelPropName)[modelPropName] = v
     },
   }
 }
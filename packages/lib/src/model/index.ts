@@ -3,5 +3,6 @@ export * from "./getModelDataType"
 export * from "./metadata"
 export * from "./Model"
 export * from "./modelDecorator"
+export * from "./modelMigrations"
 export * from "./prop"
 export * from "./utils"
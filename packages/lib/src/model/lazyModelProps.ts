@@ -0,0 +1,146 @@
+import { action } from "mobx"
+import { isModelAutoTypeCheckingEnabled } from "../globalConfig/globalConfig"
+import { getInternalSnapshot, setInternalSnapshot } from "../snapshot/internal"
+import { setQuietly } from "../tweaker/tweakPlainObject"
+import { inDevMode } from "../utils"
+import { AnyModel } from "./BaseModel"
+import { getModelDataType } from "./getModelDataType"
+
+/**
+ * @ignore
+ * @internal
+ *
+ * Model props that are kept in their snapshot form until first accessed.
+ */
+export interface LazyModelProps {
+  /**
+   * Snapshots of the props that are not yet instantiated, by prop name.
+   */
+  readonly snapshots: Map<string, any>
+
+  /**
+   * Instantiates a prop snapshot.
+   */
+  fromSnapshot(sn: any): any
+}
+
+interface LazyModel {
+  readonly data: any
+  readonly props: LazyModelProps
+}
+
+const lazyModels = new WeakMap<object, LazyModel>()
+
+/**
+ * @ignore
+ * @internal
+ *
+ * Links the data object of a model whose props (already present as `undefined` in the
+ * data object) will be instantiated on first access.
+ */
+export function initLazyModel(modelObj: AnyModel, data: any, props: LazyModelProps) {
+  // until then those props are part of the snapshot in their snapshot form
+  const standardSn: any = Object.assign({}, getInternalSnapshot(modelObj)!.standard)
+  props.snapshots.forEach((sn, k) => {
+    standardSn[k] = sn
+  })
+  setInternalSnapshot(modelObj, standardSn)
+
+  lazyModels.set(modelObj, { data, props })
+
+  // accessing the whole data object requires all props to be instantiated
+  Object.defineProperty(modelObj, "$", {
+    enumerable: true,
+    configurable: true,
+    get() {
+      materializeLazyModelProps(modelObj)
+      return data
+    },
+  })
+}
+
+/**
+ * @ignore
+ * @internal
+ *
+ * Gets the data object of a model, making sure the given prop is instantiated
+ * but without instantiating any other props.
+ */
+export function getModelPropData(modelObj: AnyModel, propName: string): any {
+  const lazyModel = lazyModels.get(modelObj)
+  if (!lazyModel) {
+    return modelObj.$
+  }
+
+  if (lazyModel.props.snapshots.has(propName)) {
+    materializeLazyModelProp(modelObj, lazyModel, propName)
+  }
+  return lazyModel.data
+}
+
+/**
+ * @ignore
+ * @internal
+ *
+ * Gets the data object of a model along with the snapshots of the props still in their snapshot
+ * form (which are `undefined` in the data object), without instantiating them.
+ * Returns `undefined` if all of its props are already instantiated.
+ */
+export function getLazyModelData(
+  modelObj: object
+): { readonly data: any; readonly pendingProps: ReadonlyMap<string, any> } | undefined {
+  const lazyModel = lazyModels.get(modelObj)
+  return lazyModel ? { data: lazyModel.data, pendingProps: lazyModel.props.snapshots } : undefined
+}
+
+/**
+ * @ignore
+ * @internal
+ *
+ * Instantiates all props of a model that are still in their snapshot form.
+ */
+export function materializeLazyModelProps(node: object) {
+  const lazyModel = lazyModels.get(node)
+  if (!lazyModel) {
+    return
+  }
+
+  const propNames = Array.from(lazyModel.props.snapshots.keys())
+  for (let i = 0; i < propNames.length; i++) {
+    const propName = propNames[i]
+    // might have been instantiated by a hook of a previous one
+    if (lazyModel.props.snapshots.has(propName)) {
+      materializeLazyModelProp(node as AnyModel, lazyModel, propName)
+    }
+  }
+}
+
+const materializeLazyModelProp = action(
+  "materializeLazyModelProp",
+  (modelObj: AnyModel, lazyModel: LazyModel, propName: string) => {
+    const { data, props } = lazyModel
+    const sn = props.snapshots.get(propName)
+
+    props.snapshots.delete(propName)
+    if (props.snapshots.size <= 0) {
+      lazyModels.delete(modelObj)
+      Object.defineProperty(modelObj, "$", {
+        value: data,
+        enumerable: true,
+        configurable: true,
+        writable: !inDevMode(),
+      })
+    }
+
+    // the prop snapshot is already part of the model snapshot, so this is not a change
+    setQuietly(data, propName, props.fromSnapshot(sn))
+
+    // props in their snapshot form are skipped by type checking until instantiated
+    if (isModelAutoTypeCheckingEnabled() && getModelDataType(modelObj)) {
+      const err = modelObj.typeCheck()
+      if (err) {
+        err.throw(modelObj)
+      }
+    }
+  }
+)
@@ -8,6 +8,12 @@ export const modelTypeKey = "$modelType"
  */
 export const modelIdKey = "$modelId"
 
+/**
+ * Key where model snapshots will store the model version metadata, for models that declare
+ * a version.
+ */
+export const modelVersionKey = "$modelVersion"
+
 /**
  * @internal
  * Returns if a given key is a reserved key in model snapshots.
@@ -16,5 +22,5 @@ export const modelIdKey = "$modelId"
  * @returns
  */
 export function isReservedModelKey(key: string) {
-  return key === modelTypeKey || key === modelIdKey
+  return key === modelTypeKey || key === modelIdKey || key === modelVersionKey
 }
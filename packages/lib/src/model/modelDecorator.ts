@@ -3,19 +3,45 @@ import { wrapModelMethodInActionIfNeeded } from "../action/wrapInAction"
 import { addHiddenProp, logWarning } from "../utils"
 import { AnyModel, ModelClass, modelInitializedSymbol } from "./BaseModel"
 import { modelInfoByClass, modelInfoByName } from "./modelInfo"
+import { checkModelVersionOptions, ModelSnapshotMigrations } from "./modelMigrations"
 import { modelInitializersSymbol } from "./modelSymbols"
 import { assertIsModelClass } from "./utils"
 
+/**
+ * Model options.
+ */
+export interface ModelOptions {
+  /**
+   * Current version of the model snapshots (an integer greater or equal to 1).
+   * When set, snapshots of the model will include it under `$modelVersion`, and snapshots of older
+   * versions (snapshots without version are considered to be of version 1) will be migrated
+   * through `migrations` when used with `fromSnapshot` / `applySnapshot`.
+   */
+  version?: number
+
+  /**
+   * Snapshot migrations, indexed by the version they migrate from. For example, the migration at
+   * key `1` gets a version 1 snapshot and must return a version 2 snapshot.
+   * Migrations run before the `fromSnapshot` input snapshot processor.
+   */
+  migrations?: ModelSnapshotMigrations
+}
+
 /**
  * Decorator that marks this class (which MUST inherit from the `Model` abstract class)
  * as a model.
  *
  * @param name Unique name for the model type. Note that this name must be unique for your whole
  * application, so it is usually a good idea to use some prefix unique to your application domain.
+ * @param [options] Model options (version and snapshot migrations).
  */
-export const model = (name: string) => (clazz: ModelClass<AnyModel>) => {
+export const model = (name: string, options?: ModelOptions) => (clazz: ModelClass<AnyModel>) => {
   assertIsModelClass(clazz, "a model class")
 
+  const version = options && options.version
+  const migrations = options && options.migrations
+  checkModelVersionOptions(name, version, migrations)
+
   if (modelInfoByName[name]) {
     logWarning(
       "error",
@@ -58,6 +84,8 @@ export const model = (name: string) => (clazz: ModelClass<AnyModel>) => {
   const modelInfo = {
     name,
     class: newClazz,
+    version,
+    migrations,
   }
 
   modelInfoByName[name] = modelInfo
@@ -1,10 +1,13 @@
 import { isObject } from "../utils"
 import { AnyModel, ModelClass } from "./BaseModel"
 import { modelTypeKey } from "./metadata"
+import { ModelSnapshotMigrations } from "./modelMigrations"
 
 interface ModelInfo {
   name: string
   class: ModelClass<AnyModel>
+  version?: number
+  migrations?: ModelSnapshotMigrations
 }
 
 /**
@@ -0,0 +1,141 @@
+import { failure, isPlainObject } from "../utils"
+import { modelIdKey, modelTypeKey, modelVersionKey } from "./metadata"
+
+/**
+ * A function that migrates a model snapshot from a version to the next one.
+ * It should not modify the given snapshot, but return a new one instead.
+ * The model type and id of the snapshot are kept even if the returned snapshot does not include
+ * them, but they cannot be changed.
+ */
+export type ModelSnapshotMigration = (snapshot: any) => any
+
+/**
+ * Model snapshot migrations, indexed by the version they migrate from.
+ */
+export interface ModelSnapshotMigrations {
+  readonly [fromVersion: number]: ModelSnapshotMigration
+}
+
+function isValidVersion(version: any): version is number {
+  return typeof version === "number" && Number.isInteger(version) && version >= 1
+}
+
+/**
+ * @ignore
+ * @internal
+ */
+export function checkModelVersionOptions(
+  name: string,
+  version: number | undefined,
+  migrations: ModelSnapshotMigrations | undefined
+) {
+  if (version === undefined) {
+    if (migrations !== undefined) {
+      throw failure(`model '${name}' declares migrations but no version`)
+    }
+    return
+  }
+
+  if (!isValidVersion(version)) {
+    throw failure(`model '${name}' version must be an integer greater or equal to 1`)
+  }
+
+  if (migrations === undefined) {
+    return
+  }
+
+  if (!isPlainObject(migrations)) {
+    throw failure(`model '${name}' migrations must be an object`)
+  }
+
+  for (const k of Object.keys(migrations)) {
+    const fromVersion = +k
+    if (!isValidVersion(fromVersion) || fromVersion >= version) {
+      throw failure(
+        `model '${name}' migration from version '${k}' must be from a version between 1 and ${version -
+          1}`
+      )
+    }
+    if (typeof (migrations as any)[k] !== "function") {
+      throw failure(`model '${name}' migration from version ${k} must be a function`)
+    }
+  }
+}
+
+/**
+ * @ignore
+ * @internal
+ *
+ * Runs the migrations needed to turn a model snapshot of a given version into the current one.
+ * Snapshots without version are considered to be of version 1.
+ * The model type and id of the given snapshot are kept after each migration.
+ */
+export function migrateModelSnapshot(
+  name: string,
+  version: number | undefined,
+  migrations: ModelSnapshotMigrations | undefined,
+  sn: any
+): any {
+  if (version === undefined) {
+    return sn
+  }
+
+  if (!isPlainObject(sn)) {
+    throw failure(`a snapshot of model '${name}' must be an object`)
+  }
+
+  const originalSn = sn
+  let snVersion = sn[modelVersionKey]
+  if (snVersion === undefined) {
+    snVersion = 1
+  } else if (!isValidVersion(snVersion)) {
+    throw failure(`invalid snapshot version for model '${name}': ${snVersion}`)
+  }
+
+  if (snVersion > version) {
+    throw failure(
+      `snapshot version ${snVersion} of model '${name}' is newer than the current model version (${version})`
+    )
+  }
+
+  while (snVersion < version) {
+    const migration = migrations && migrations[snVersion]
+    if (!migration) {
+      throw failure(`model '${name}' has no migration from version ${snVersion}`)
+    }
+
+    sn = migration(sn)
+    if (!isPlainObject(sn)) {
+      throw failure(
+        `model '${name}' migration from version ${snVersion} must return a snapshot object`
+      )
+    }
+    sn = keepModelSnapshotKeys(name, snVersion, originalSn, sn)
+    snVersion++
+  }
+
+  return sn
+}
+
+const keptModelSnapshotKeys = [modelTypeKey, modelIdKey]
+
+function keepModelSnapshotKeys(name: string, fromVersion: number, originalSn: any, sn: any): any {
+  let keptSn = sn
+  for (const k of keptModelSnapshotKeys) {
+    const value = originalSn[k]
+    if (value === undefined || sn[k] === value) {
+      continue
+    }
+    if (sn[k] !== undefined) {
+      throw failure(
+        `model '${name}' migration from version ${fromVersion} must not change the ${k} of the snapshot`
+      )
+    }
+    if (keptSn === sn) {
+      // the migrated snapshot might be shared, so it is not modified
+      keptSn = { ...sn }
+    }
+    keptSn[k] = value
+  }
+  return keptSn
+}
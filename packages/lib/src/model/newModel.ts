@@ -6,8 +6,10 @@ import { tweakPlainObject } from "../tweaker/tweakPlainObject"
 import { failure, inDevMode, makePropReadonly } from "../utils"
 import { AnyModel, ModelClass, ModelCreationData } from "./BaseModel"
 import { getModelDataType } from "./getModelDataType"
+import { initLazyModel, LazyModelProps } from "./lazyModelProps"
 import { modelIdKey, modelTypeKey } from "./metadata"
 import { modelInfoByClass } from "./modelInfo"
+import { migrateModelSnapshot } from "./modelMigrations"
 import { modelInitializersSymbol, modelPropertiesSymbol } from "./modelSymbols"
 import { ModelProps, noDefaultValue } from "./prop"
 import { assertIsModelClass } from "./utils"
@@ -24,7 +26,9 @@ export const internalNewModel = action(
     snapshotInitialData:
       | {
           unprocessedSnapshot: any
-          snapshotToInitialData(processedSnapshot: any): any
+          snapshotToInitialData(
+            processedSnapshot: any
+          ): { initialData: any; lazyProps: LazyModelProps | undefined }
         }
       | undefined,
     generateNewId: boolean
@@ -43,6 +47,7 @@ export const internalNewModel = action(
     }
 
     let id
+    let lazyProps: LazyModelProps | undefined
     if (snapshotInitialData) {
       let sn = snapshotInitialData.unprocessedSnapshot
 
@@ -52,11 +57,15 @@ export const internalNewModel = action(
         id = sn[modelIdKey]
       }
 
+      sn = migrateModelSnapshot(modelInfo.name, modelInfo.version, modelInfo.migrations, sn)
+
       if (modelObj.fromSnapshot) {
         sn = modelObj.fromSnapshot(sn)
       }
 
-      initialData = snapshotInitialData.snapshotToInitialData(sn)
+      const snInitialData = snapshotInitialData.snapshotToInitialData(sn)
+      initialData = snInitialData.initialData
+      lazyProps = snInitialData.lazyProps
     } else {
       // use symbol if provided
       if (initialData![modelIdKey]) {
@@ -74,7 +83,7 @@ export const internalNewModel = action(
     for (let i = 0; i < modelPropsKeys.length; i++) {
       const k = modelPropsKeys[i]
       const v = (initialData as any)[k]
-      if (v === undefined || v === null) {
+      if ((v === undefined || v === null) && !(lazyProps && lazyProps.snapshots.has(k))) {
         let newValue: any = v
         const propData = modelProps[k]
         if (propData.defaultFn !== noDefaultValue) {
@@ -106,9 +115,13 @@ export const internalNewModel = action(
     })
 
     // link it, and make it readonly
-    modelObj.$ = obsData
-    if (inDevMode()) {
-      makePropReadonly(modelObj, "$", true)
+    if (lazyProps) {
+      initLazyModel(modelObj, obsData, lazyProps)
+    } else {
+      modelObj.$ = obsData
+      if (inDevMode()) {
+        makePropReadonly(modelObj, "$", true)
+      }
     }
 
     // type check it if needed
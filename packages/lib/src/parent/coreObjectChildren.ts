@@ -1,4 +1,5 @@
 import { action, createAtom, IAtom, observable, ObservableSet } from "mobx"
+import { materializeLazyModelProps } from "../model/lazyModelProps"
 import { fastGetParent } from "./path"
 
 const defaultObservableSetOptions = { deep: false }
@@ -33,6 +34,8 @@ export function initializeObjectChildren(node: object) {
  * @ignore
  */
 export function getObjectChildren(node: object): ReadonlySet<object> {
+  // children still in snapshot form need to be actual children first
+  materializeLazyModelProps(node)
   return objectChildren.get(node)!.shallow
 }
 
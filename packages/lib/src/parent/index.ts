@@ -4,4 +4,5 @@ export * from "./getChildrenObjects"
 export * from "./onChildAttachedTo"
 export * from "./path"
 export * from "./pathTypes"
+export * from "./treeIndex"
 export * from "./walkTree"
@@ -1,7 +1,9 @@
 import { action } from "mobx"
 import { BaseModel } from "../model/BaseModel"
 import { attachToRootStore, detachFromRootStore } from "../rootStore/attachDetach"
+import { trackDetachedNode } from "../ref/danglingRefChecks"
 import { isRootStore } from "../rootStore/rootStore"
+import { getCopyOnWriteCloneSource } from "../snapshot/copyOnWriteClones"
 import { isTweakedObject } from "../tweaker/core"
 import { failure, inDevMode, isPrimitive } from "../utils"
 import {
@@ -12,7 +14,8 @@ import {
   reportParentPathChanged,
 } from "./core"
 import { addObjectChild, initializeObjectChildren, removeObjectChild } from "./coreObjectChildren"
-import { fastGetParentPath, fastGetRoot, ParentPath } from "./path"
+import { fastGetParentPath, fastGetRoot, fastGetRootPath, ParentPath } from "./path"
+import { reportChildAttachedToIndexes, reportChildDetachedFromIndexes } from "./treeIndex"
 
 /**
  * @ignore
@@ -82,9 +85,21 @@ export const setParent = action(
       }
     }
 
+    if (inDevMode() && parentPath) {
+      const cloneSource = getCopyOnWriteCloneSource(value)
+      if (cloneSource && fastGetRoot(cloneSource) === fastGetRoot(parentPath.parent)) {
+        throw failure(
+          "a copy-on-write clone (or any object taken from it) cannot be part of the same tree as the object it was cloned from, since both share the same model ids"
+        )
+      }
+    }
+
     const removeFromOldParent = () => {
       if (oldParentPath && oldParentPath.parent) {
         removeObjectChild(oldParentPath.parent, value)
+        reportChildDetachedFromIndexes(oldParentPath.parent, value)
+        // refs to it might have been left dangling
+        trackDetachedNode(value)
       }
     }
 
@@ -92,6 +107,7 @@ export const setParent = action(
       objectParents.set(value, parentPath)
       if (parentPath && parentPath.parent) {
         addObjectChild(parentPath.parent, value)
+        reportChildAttachedToIndexes(parentPath.parent, value)
       }
       reportParentPathChanged(value)
     }
@@ -108,7 +124,8 @@ export const setParent = action(
       // invoke model root store events
       if (oldRootStore !== newRootStore) {
         if (oldRootStore) {
-          detachFromRootStore(value)
+          const oldPath = [...fastGetRootPath(oldParentPath!.parent).path, oldParentPath!.path]
+          detachFromRootStore(oldRootStore, value, "detached", oldPath)
         }
         if (newRootStore) {
           attachToRootStore(newRootStore, value)
@@ -0,0 +1,344 @@
+import { action, createAtom, IAtom, observable, ObservableSet } from "mobx"
+import { AnyModel, BaseModel, ModelClass } from "../model/BaseModel"
+import { modelIdKey } from "../model/metadata"
+import { assertIsModelClass, isModel } from "../model/utils"
+import { assertTweakedObject } from "../tweaker/core"
+import { assertIsString } from "../utils"
+import { getObjectChildren } from "./coreObjectChildren"
+import { fastGetParent } from "./path"
+
+/**
+ * Index definition.
+ */
+interface TreeIndexDef {
+  /**
+   * Returns the keys a node is indexed by.
+   */
+  getKeys(node: object): ReadonlyArray<unknown>
+
+  /**
+   * The model prop the keys of a node are taken from (so they change when it does).
+   */
+  readonly keyProp?: string
+}
+
+interface TreeIndexData {
+  /**
+   * Nodes by key. Only keys with nodes are kept.
+   */
+  readonly sets: Map<unknown, ObservableSet<object>>
+
+  /**
+   * Atoms reporting when the set of a key gets added / removed. Only observed ones are kept.
+   */
+  readonly keyAtoms: Map<unknown, IAtom>
+}
+
+/**
+ * Indexes of the subtree of a node, by index definition.
+ */
+const nodeIndexes = new WeakMap<object, Map<TreeIndexDef, TreeIndexData>>()
+
+// so nothing has to be done on changes until the first index is used
+let treeIndexesInUse = false
+
+const noKeys: ReadonlyArray<unknown> = []
+
+const observableSetOptions = { deep: false }
+
+function getTreeIndex(root: object, def: TreeIndexDef): TreeIndexData {
+  let indexes = nodeIndexes.get(root)
+  if (!indexes) {
+    indexes = new Map()
+    nodeIndexes.set(root, indexes)
+  }
+
+  let index = indexes.get(def)
+  if (!index) {
+    treeIndexesInUse = true
+    index = { sets: new Map(), keyAtoms: new Map() }
+    indexes.set(def, index)
+
+    // this is the only time the whole subtree is walked, from then on it is kept up to date
+    buildTreeIndex(index, def, root)
+  }
+
+  return index
+}
+
+const buildTreeIndex = action(
+  "buildTreeIndex",
+  (index: TreeIndexData, def: TreeIndexDef, root: object) => {
+    addSubtreeToIndex(index, def, root)
+  }
+)
+
+/**
+ * Gets the nodes with a given key, or an empty set (which won't be kept up to date) if there are
+ * none. Either way the key is observed, so reactions will run again once the nodes change.
+ */
+function lookUpIndexKey(index: TreeIndexData, key: unknown): ReadonlySet<object> {
+  let atom = index.keyAtoms.get(key)
+  if (atom) {
+    atom.reportObserved()
+  } else {
+    const newAtom = createAtom("treeIndexKey", undefined, () => {
+      if (index.keyAtoms.get(key) === newAtom) {
+        index.keyAtoms.delete(key)
+      }
+    })
+    // lookups outside reactions do not need to be tracked
+    if (newAtom.reportObserved()) {
+      index.keyAtoms.set(key, newAtom)
+    }
+  }
+
+  return index.sets.get(key) || new Set()
+}
+
+function reportIndexKeyChanged(index: TreeIndexData, key: unknown) {
+  const atom = index.keyAtoms.get(key)
+  if (atom) {
+    atom.reportChanged()
+  }
+}
+
+function addToIndexKey(index: TreeIndexData, key: unknown, node: object) {
+  let set = index.sets.get(key)
+  if (!set) {
+    set = observable.set(undefined, observableSetOptions)
+    index.sets.set(key, set)
+    reportIndexKeyChanged(index, key)
+  }
+  set.add(node)
+}
+
+function removeFromIndexKey(index: TreeIndexData, key: unknown, node: object) {
+  const set = index.sets.get(key)
+  if (set && set.delete(node) && set.size <= 0) {
+    index.sets.delete(key)
+    reportIndexKeyChanged(index, key)
+  }
+}
+
+function addToIndex(index: TreeIndexData, def: TreeIndexDef, node: object) {
+  const keys = def.getKeys(node)
+  for (let i = 0; i < keys.length; i++) {
+    addToIndexKey(index, keys[i], node)
+  }
+}
+
+function removeFromIndex(index: TreeIndexData, def: TreeIndexDef, node: object) {
+  const keys = def.getKeys(node)
+  for (let i = 0; i < keys.length; i++) {
+    removeFromIndexKey(index, keys[i], node)
+  }
+}
+
+function addSubtreeToIndex(index: TreeIndexData, def: TreeIndexDef, node: object) {
+  addToIndex(index, def, node)
+  getObjectChildren(node).forEach(ch => addSubtreeToIndex(index, def, ch))
+}
+
+function removeSubtreeFromIndex(index: TreeIndexData, def: TreeIndexDef, node: object) {
+  removeFromIndex(index, def, node)
+  getObjectChildren(node).forEach(ch => removeSubtreeFromIndex(index, def, ch))
+}
+
+function forEachIndexUpToRoot(node: object, fn: (index: TreeIndexData, def: TreeIndexDef) => void) {
+  let current: object | undefined = node
+  while (current) {
+    const indexes = nodeIndexes.get(current)
+    if (indexes) {
+      indexes.forEach(fn)
+    }
+    current = fastGetParent(current)
+  }
+}
+
+/**
+ * @ignore
+ * @internal
+ *
+ * Updates the indexes of the given parent and its ancestors after a child was attached to it.
+ * Must be called inside an action.
+ */
+export function reportChildAttachedToIndexes(parent: object, child: object) {
+  if (!treeIndexesInUse) {
+    return
+  }
+  forEachIndexUpToRoot(parent, (index, def) => {
+    addSubtreeToIndex(index, def, child)
+  })
+}
+
+/**
+ * @ignore
+ * @internal
+ *
+ * Updates the indexes of the given parent and its ancestors after a child was detached from it.
+ * Must be called inside an action.
+ */
+export function reportChildDetachedFromIndexes(parent: object, child: object) {
+  if (!treeIndexesInUse) {
+    return
+  }
+  forEachIndexUpToRoot(parent, (index, def) => {
+    removeSubtreeFromIndex(index, def, child)
+  })
+}
+
+/**
+ * @ignore
+ * @internal
+ *
+ * Updates the indexes of a model and its ancestors after one of its props changed.
+ * Must be called inside an action.
+ */
+export function reportModelPropChangedToIndexes(
+  modelObj: AnyModel,
+  propName: string,
+  oldValue: unknown,
+  newValue: unknown
+) {
+  if (!treeIndexesInUse) {
+    return
+  }
+  forEachIndexUpToRoot(modelObj, (index, def) => {
+    if (def.keyProp !== propName || def.getKeys(modelObj).length <= 0) {
+      return
+    }
+    removeFromIndexKey(index, oldValue, modelObj)
+    addToIndexKey(index, newValue, modelObj)
+  })
+}
+
+/**
+ * @ignore
+ * @internal
+ *
+ * Number of keys kept by the indexes of a root node (either because they have nodes or because
+ * they are being observed).
+ */
+export function getTreeIndexesKeyCount(root: object): number {
+  let count = 0
+  const indexes = nodeIndexes.get(root)
+  if (indexes) {
+    indexes.forEach(index => {
+      count += index.sets.size + index.keyAtoms.size
+    })
+  }
+  return count
+}
+
+const idIndexDef: TreeIndexDef = {
+  getKeys(node) {
+    return isModel(node) ? [node[modelIdKey]] : noKeys
+  },
+  keyProp: modelIdKey,
+}
+
+const modelTypeIndexDef: TreeIndexDef = {
+  getKeys(node) {
+    if (!isModel(node)) {
+      return noKeys
+    }
+
+    // indexed by the prototype of its class and of every model class it extends
+    const keys: object[] = []
+    let proto = Object.getPrototypeOf(node)
+    while (proto && proto !== BaseModel.prototype) {
+      keys.push(proto)
+      proto = Object.getPrototypeOf(proto)
+    }
+    return keys
+  },
+}
+
+/**
+ * Gets the model with a given `$modelId` inside a tree (or subtree).
+ * The first time it is used for a given root all the tree is indexed, but from then on the index
+ * is kept up to date as nodes get attached / detached / their ids change, so further lookups are fast.
+ * The result is observable. Only ids that currently have models are kept in the index.
+ *
+ * @typeparam T Model type.
+ * @param root Root of the tree (or subtree) to look in.
+ * @param id Model id.
+ * @returns The model with that id, or `undefined` if none is found.
+ */
+export function getNodeById<T extends object = AnyModel>(root: object, id: string): T | undefined {
+  assertTweakedObject(root, "root")
+  assertIsString(id, "id")
+
+  const set = lookUpIndexKey(getTreeIndex(root, idIndexDef), id)
+  return set.size > 0 ? (set.values().next().value as T) : undefined
+}
+
+/**
+ * Gets all models of a given class (including subclasses) inside a tree (or subtree).
+ * The index is built and kept up to date the same way `getNodeById` does.
+ *
+ * @typeparam M Model type.
+ * @param root Root of the tree (or subtree) to look in.
+ * @param modelClass Model class.
+ * @returns A readonly observable set with the models (not kept up to date while empty, so look
+ * it up again rather than holding on to it).
+ */
+export function getNodesByModelType<M extends AnyModel>(
+  root: object,
+  modelClass: ModelClass<M>
+): ReadonlySet<M> {
+  assertTweakedObject(root, "root")
+  assertIsModelClass(modelClass, "modelClass")
+
+  return lookUpIndexKey(getTreeIndex(root, modelTypeIndexDef), modelClass.prototype) as ReadonlySet<
+    any
+  >
+}
+
+/**
+ * An index of models by the value of one of their props.
+ */
+export interface ModelPropIndex<M extends AnyModel, K extends keyof M> {
+  /**
+   * Gets the models inside a tree (or subtree) whose indexed prop has the given value.
+   *
+   * @param root Root of the tree (or subtree) to look in.
+   * @param value Prop value.
+   * @returns A readonly observable set with the models (not kept up to date while empty).
+   */
+  get(root: object, value: M[K]): ReadonlySet<M>
+}
+
+/**
+ * Creates an index of models of a given class (including subclasses) by the value of one of their
+ * props. The index is built and kept up to date the same way `getNodeById` does.
+ *
+ * @typeparam M Model type.
+ * @typeparam K Prop name.
+ * @param modelClass Model class.
+ * @param propName Name of the prop to index by.
+ * @returns The model prop index.
+ */
+export function createModelPropIndex<M extends AnyModel, K extends keyof M & string>(
+  modelClass: ModelClass<M>,
+  propName: K
+): ModelPropIndex<M, K> {
+  assertIsModelClass(modelClass, "modelClass")
+  assertIsString(propName, "propName")
+
+  const def: TreeIndexDef = {
+    getKeys(node) {
+      return node instanceof modelClass ? [node[propName]] : noKeys
+    },
+    keyProp: propName,
+  }
+
+  return {
+    get(root, value) {
+      assertTweakedObject(root, "root")
+
+      return lookUpIndexKey(getTreeIndex(root, def), value) as ReadonlySet<any>
+    },
+  }
+}
@@ -5,3 +5,38 @@ export interface Patch {
   readonly path: Path
   readonly value?: any
 }
+
+/**
+ * A patch that moves the value at the `from` path to the `path` path,
+ * keeping the same instance (and therefore model identity).
+ */
+export interface MovePatch {
+  readonly op: "move"
+  readonly from: Path
+  readonly path: Path
+}
+
+/**
+ * A patch that adds a copy of the value at the `from` path to the `path` path.
+ */
+export interface CopyPatch {
+  readonly op: "copy"
+  readonly from: Path
+  readonly path: Path
+}
+
+/**
+ * A patch that checks that the value at the `path` path is equal to the given value (snapshot),
+ * failing otherwise.
+ */
+export interface TestPatch {
+  readonly op: "test"
+  readonly path: Path
+  readonly value: any
+}
+
+/**
+ * Any patch that can be applied through `applyPatches`.
+ * Note that `onPatches` and `patchRecorder` will only ever generate `Patch` objects.
+ */
+export type ExtendedPatch = Patch | MovePatch | CopyPatch | TestPatch
@@ -3,9 +3,12 @@ import { BuiltInAction } from "../action/builtInActions"
 import { ActionContextActionType } from "../action/context"
 import { wrapInAction } from "../action/wrapInAction"
 import { modelToDataNode } from "../parent/core"
-import { PathElement } from "../parent/pathTypes"
-import { Patch } from "../patch/Patch"
-import { fromSnapshot } from "../snapshot/fromSnapshot"
+import { Path, PathElement } from "../parent/pathTypes"
+import { ExtendedPatch } from "../patch/Patch"
+import { isPathPrefix } from "../patch/utils"
+import { snapshotsAreEqual } from "../snapshot/diffSnapshots"
+import { fromSnapshotUnchecked } from "../snapshot/fromSnapshot"
+import { getSnapshot } from "../snapshot/getSnapshot"
 import { reconcileSnapshot } from "../snapshot/reconcileSnapshot"
 import { assertTweakedObject } from "../tweaker/core"
 import { failure, inDevMode, isArray } from "../utils"
@@ -13,10 +16,17 @@ import { failure, inDevMode, isArray } from "../utils"
 /**
  * Applies the given patches to the given target object.
  *
+ * Besides the `add`, `remove` and `replace` operations, the `move`, `copy` and `test`
+ * operations from JSON Patch (RFC 6902) are supported as well. `move` keeps the moved instance
+ * (and therefore its model identity) rather than detaching it and creating a new one, while
+ * `test` throws if the snapshot of the value at the given path is not equal to the patch value.
+ * As in JSON Patch, `-` can be used as the last path element to refer to the end of an array
+ * when adding, and invalid array indexes (e.g. out of range ones) will make it throw.
+ *
  * @param node Target object.
  * @param patches List of patches to apply.
  */
-export function applyPatches(node: object, patches: ReadonlyArray<Patch>): void {
+export function applyPatches(node: object, patches: ReadonlyArray<ExtendedPatch>): void {
   assertTweakedObject(node, "node")
 
   wrappedInternalApplyPatches.call(node, patches)
@@ -26,7 +36,7 @@ export function applyPatches(node: object, patches: ReadonlyArray<Patch>): void
  * @ignore
  * @internal
  */
-export function internalApplyPatches(this: object, patches: ReadonlyArray<Patch>): void {
+export function internalApplyPatches(this: object, patches: ReadonlyArray<ExtendedPatch>): void {
   const obj = this
 
   const len = patches.length
@@ -41,69 +51,111 @@ const wrappedInternalApplyPatches = wrapInAction(
   ActionContextActionType.Sync
 )
 
-function applySinglePatch(obj: object, patch: Patch): void {
-  const { target, prop } = pathArrayToObjectAndProp(obj, patch.path)
-
-  if (isArray(target)) {
-    switch (patch.op) {
-      case "add": {
-        const index = +prop!
-        // no reconciliation, new value
-        target.splice(index, 0, fromSnapshot(patch.value))
-        break
+function applySinglePatch(obj: object, patch: ExtendedPatch): void {
+  switch (patch.op) {
+    case "move": {
+      if (patch.from.length < patch.path.length && isPathPrefix(patch.from, patch.path)) {
+        throw failure(`a value cannot be moved into one of its children`)
       }
+      // no reconciliation, same instance
+      addValue(obj, patch.path, removeValue(obj, patch.from))
+      return
+    }
+
+    case "copy": {
+      // no reconciliation, new value
+      addValue(obj, patch.path, fromSnapshotUnchecked(getSnapshot(getValue(obj, patch.from))))
+      return
+    }
 
-      case "remove": {
-        const index = +prop!
-        // no reconciliation, removing
-        target.splice(index, 1)
-        break
+    case "test": {
+      if (!snapshotsAreEqual(getSnapshot(getValue(obj, patch.path)), patch.value)) {
+        throw failure(`test patch failed at path ${JSON.stringify(patch.path)}`)
       }
+      return
+    }
 
-      case "replace": {
+    case "add": {
+      // no reconciliation, new value
+      addValue(obj, patch.path, fromSnapshotUnchecked(patch.value))
+      return
+    }
+
+    case "remove": {
+      // no reconciliation, removing
+      removeValue(obj, patch.path)
+      return
+    }
+
+    case "replace": {
+      const { target, prop } = pathArrayToObjectAndProp(obj, patch.path)
+
+      if (isArray(target)) {
         if (prop === "length") {
           target.length = patch.value
         } else {
-          const index = +prop!
+          const index = toArrayIndex(target, patch.path, false)
           // try to reconcile
           set(target, index as any, reconcileSnapshot(target[index], patch.value))
         }
-        break
+      } else {
+        // try to reconcile
+        set(target, prop, reconcileSnapshot(target[prop!], patch.value))
       }
-
-      default:
-        throw failure(`unsupported patch operation: ${(patch as any).op}`)
+      return
     }
+
+    default:
+      throw failure(`unsupported patch operation: ${(patch as any).op}`)
+  }
+}
+
+function getValue(obj: object, path: Path): any {
+  const { target, prop } = pathArrayToObjectAndProp(obj, path)
+  if (prop === undefined) {
+    return obj
+  }
+  return isArray(target) ? target[toArrayIndex(target, path, false)] : target[prop]
+}
+
+function addValue(obj: object, path: Path, value: any): void {
+  const { target, prop } = pathArrayToObjectAndProp(obj, path)
+
+  if (isArray(target)) {
+    target.splice(toArrayIndex(target, path, true), 0, value)
   } else {
-    switch (patch.op) {
-      case "add": {
-        // no reconciliation, new value
-        set(target, prop, fromSnapshot(patch.value))
-        break
-      }
+    set(target, prop, value)
+  }
+}
 
-      case "remove": {
-        // no reconciliation, removing
-        remove(target, prop)
-        break
-      }
+function removeValue(obj: object, path: Path): any {
+  const { target, prop } = pathArrayToObjectAndProp(obj, path)
 
-      case "replace": {
-        // try to reconcile
-        set(target, prop, reconcileSnapshot(target[prop!], patch.value))
-        break
-      }
+  if (isArray(target)) {
+    return target.splice(toArrayIndex(target, path, false), 1)[0]
+  } else {
+    const value = target[prop!]
+    remove(target, prop)
+    return value
+  }
+}
 
-      default:
-        throw failure(`unsupported patch operation: ${(patch as any).op}`)
-    }
+/**
+ * Turns the last element of a path into an index of the target array, which must point to an
+ * existing item unless `allowEnd` is set, in which case the end of the array (either as its
+ * length or as `-`) is valid as well.
+ */
+function toArrayIndex(target: ReadonlyArray<any>, path: Path, allowEnd: boolean): number {
+  const prop = path[path.length - 1]
+  const index = prop === "-" ? target.length : +prop
+  const maxIndex = allowEnd ? target.length : target.length - 1
+  if (!Number.isInteger(index) || index < 0 || index > maxIndex) {
+    throw failure(`invalid array index at path ${JSON.stringify(path)}`)
   }
+  return index
 }
 
-function pathArrayToObjectAndProp(
-  obj: object,
-  path: Patch["path"]
-): { target: any; prop?: PathElement } {
+function pathArrayToObjectAndProp(obj: object, path: Path): { target: any; prop?: PathElement } {
   if (inDevMode()) {
     if (!isArray(path)) {
       throw failure(`invalid path: ${path}`)
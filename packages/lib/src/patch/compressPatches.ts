@@ -0,0 +1,179 @@
+import { assertIsArray, assertIsObject } from "../utils"
+import { Patch } from "./Patch"
+import { isPathPrefix, pathsAreEqual } from "./utils"
+
+/**
+ * A list of patches alongside their inverse patches.
+ */
+export interface PatchesWithInverse {
+  /**
+   * Patches.
+   */
+  readonly patches: ReadonlyArray<Patch>
+  /**
+   * Inverse patches.
+   */
+  readonly inversePatches: ReadonlyArray<Patch>
+}
+
+/**
+ * Compresses a list of patches into a shorter list of patches that, when applied over the same
+ * object, produces the same result.
+ *
+ * Some of the things it does are:
+ * - Consecutive `replace` operations over the same path are merged into a single one.
+ * - An `add` followed by a `replace` over the same path are merged into a single `add`.
+ * - An `add` followed by a `remove` over the same path cancel each other.
+ * - A `remove` followed by an `add` over the same path are merged into a single `replace`.
+ * - Operations over a path are dropped if a parent path is later replaced or removed.
+ *
+ * The patches are never reordered, so patches over unrelated paths are kept in the same order.
+ *
+ * @param patches Patches to compress.
+ * @returns The compressed patches.
+ */
+export function compressPatches(patches: ReadonlyArray<Patch>): Patch[] {
+  assertIsArray(patches, "patches")
+
+  const result: Patch[] = []
+
+  const len = patches.length
+  for (let i = 0; i < len; i++) {
+    addCompressedPatch(result, patches[i])
+  }
+
+  return result
+}
+
+/**
+ * Merges several lists of patches (and their inverse patches), usually recorded one after another,
+ * into a single compressed list of patches and inverse patches.
+ * The resulting inverse patches will undo the changes of all the lists in the proper order.
+ *
+ * @param lists Lists of patches and inverse patches to merge, in the order they were generated.
+ * @returns The merged and compressed patches and inverse patches.
+ */
+export function mergePatches(
+  lists: ReadonlyArray<PatchesWithInverse>
+): { patches: Patch[]; inversePatches: Patch[] } {
+  assertIsArray(lists, "lists")
+
+  const patches: Patch[] = []
+  const inversePatches: Patch[] = []
+
+  const len = lists.length
+  for (let i = 0; i < len; i++) {
+    const list = lists[i]
+    assertIsObject(list, "list")
+    patches.push(...list.patches)
+  }
+  // inverse patches are applied backwards
+  for (let i = len - 1; i >= 0; i--) {
+    inversePatches.push(...lists[i].inversePatches)
+  }
+
+  return {
+    patches: compressPatches(patches),
+    inversePatches: compressPatches(inversePatches),
+  }
+}
+
+function addCompressedPatch(result: Patch[], patch: Patch) {
+  // look backwards for patches that can be merged with the new one, skipping the ones that are
+  // not affected by it
+  for (let i = result.length - 1; i >= 0; i--) {
+    const prev = result[i]
+
+    if (pathsAreEqual(prev.path, patch.path)) {
+      const merged = mergeSamePathPatches(prev, patch)
+      if (merged === undefined) {
+        // cannot be merged
+        break
+      }
+
+      if (merged === null) {
+        result.splice(i, 1)
+      } else {
+        result[i] = merged
+      }
+      return
+    }
+
+    if (
+      (patch.op === "replace" || patch.op === "remove") &&
+      !isLengthPatch(patch) &&
+      isPathPrefix(patch.path, prev.path)
+    ) {
+      // the previous patch was done inside a subtree that is going to be replaced / removed
+      result.splice(i, 1)
+      continue
+    }
+
+    if (!patchesAreIndependent(prev, patch)) {
+      break
+    }
+  }
+
+  result.push(patch)
+}
+
+/**
+ * Returns the merged patch, null if both patches cancel each other or undefined if they cannot be merged.
+ */
+function mergeSamePathPatches(prev: Patch, patch: Patch): Patch | null | undefined {
+  switch (prev.op) {
+    case "add":
+      if (patch.op === "replace") {
+        return { op: "add", path: prev.path, value: patch.value }
+      }
+      if (patch.op === "remove") {
+        return null
+      }
+      return undefined
+
+    case "replace":
+      if (patch.op === "replace") {
+        return { op: "replace", path: prev.path, value: patch.value }
+      }
+      if (patch.op === "remove") {
+        return { op: "remove", path: prev.path }
+      }
+      return undefined
+
+    case "remove":
+      if (patch.op === "add") {
+        return { op: "replace", path: prev.path, value: patch.value }
+      }
+      return undefined
+
+    default:
+      return undefined
+  }
+}
+
+function isLengthPatch(patch: Patch) {
+  return patch.path.length > 0 && String(patch.path[patch.path.length - 1]) === "length"
+}
+
+/**
+ * Patches that change the number of items of a container (and therefore might shift array indexes).
+ */
+function isStructuralPatch(patch: Patch) {
+  return patch.op === "add" || patch.op === "remove" || isLengthPatch(patch)
+}
+
+function patchesAreIndependent(p1: Patch, p2: Patch): boolean {
+  if (isPathPrefix(p1.path, p2.path) || isPathPrefix(p2.path, p1.path)) {
+    return false
+  }
+
+  if (isStructuralPatch(p1) && isPathPrefix(p1.path.slice(0, -1), p2.path)) {
+    return false
+  }
+
+  if (isStructuralPatch(p2) && isPathPrefix(p2.path.slice(0, -1), p1.path)) {
+    return false
+  }
+
+  return true
+}
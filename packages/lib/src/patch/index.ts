@@ -1,4 +1,7 @@
 export * from "./applyPatches"
+export * from "./compressPatches"
 export * from "./emitPatch"
+export * from "./jsonPatch"
 export * from "./Patch"
 export * from "./patchRecorder"
+export * from "./rebasePatches"
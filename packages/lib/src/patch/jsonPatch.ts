@@ -0,0 +1,135 @@
+import { Path } from "../parent/pathTypes"
+import { assertIsObject, failure, isArray } from "../utils"
+import { ExtendedPatch } from "./Patch"
+
+/**
+ * A JSON Patch (RFC 6902) operation, where paths are JSON Pointers (RFC 6901).
+ */
+export interface JsonPatch {
+  readonly op: ExtendedPatch["op"]
+  readonly path: string
+  readonly from?: string
+  readonly value?: any
+}
+
+/**
+ * Converts a path into a JSON Pointer (RFC 6901), e.g. `["todos", 0, "text"]` into
+ * `"/todos/0/text"`.
+ *
+ * @param path Path to convert.
+ * @returns The JSON Pointer.
+ */
+export function pathToJsonPointer(path: Path): string {
+  if (!isArray(path)) {
+    throw failure("path must be an array")
+  }
+
+  let pointer = ""
+  const len = path.length
+  for (let i = 0; i < len; i++) {
+    pointer +=
+      "/" +
+      String(path[i])
+        .replace(/~/g, "~0")
+        .replace(/\//g, "~1")
+  }
+  return pointer
+}
+
+/**
+ * Converts a JSON Pointer (RFC 6901) into a path, e.g. `"/todos/0/text"` into
+ * `["todos", "0", "text"]`.
+ * Note that since JSON Pointers do not differentiate array indexes from object keys, all path
+ * elements will be strings.
+ *
+ * @param pointer JSON Pointer to convert.
+ * @returns The path.
+ */
+export function jsonPointerToPath(pointer: string): Path {
+  if (typeof pointer !== "string") {
+    throw failure("pointer must be a string")
+  }
+
+  if (pointer === "") {
+    return []
+  }
+  if (pointer[0] !== "/") {
+    throw failure(`invalid JSON pointer: ${pointer}`)
+  }
+
+  return pointer
+    .substring(1)
+    .split("/")
+    .map(part => {
+      if (/~[^01]|~$/.test(part)) {
+        throw failure(`invalid JSON pointer: ${pointer}`)
+      }
+      return part.replace(/~1/g, "/").replace(/~0/g, "~")
+    })
+}
+
+/**
+ * Converts a patch into a JSON Patch (RFC 6902) operation.
+ *
+ * @param patch Patch to convert.
+ * @returns The JSON Patch operation.
+ */
+export function patchToJsonPatch(patch: ExtendedPatch): JsonPatch {
+  assertIsObject(patch, "patch")
+
+  switch (patch.op) {
+    case "add":
+    case "replace":
+    case "test":
+      return { op: patch.op, path: pathToJsonPointer(patch.path), value: patch.value }
+
+    case "remove":
+      return { op: patch.op, path: pathToJsonPointer(patch.path) }
+
+    case "move":
+    case "copy":
+      return {
+        op: patch.op,
+        from: pathToJsonPointer(patch.from),
+        path: pathToJsonPointer(patch.path),
+      }
+
+    default:
+      throw failure(`unsupported patch operation: ${(patch as any).op}`)
+  }
+}
+
+/**
+ * Converts a JSON Patch (RFC 6902) operation into a patch that can be used with `applyPatches`.
+ *
+ * @param jsonPatch JSON Patch operation to convert.
+ * @returns The patch.
+ */
+export function jsonPatchToPatch(jsonPatch: JsonPatch): ExtendedPatch {
+  assertIsObject(jsonPatch, "jsonPatch")
+
+  switch (jsonPatch.op) {
+    case "add":
+    case "replace":
+    case "test":
+      // a missing value means undefined, since undefined values get lost when serialized to JSON
+      return { op: jsonPatch.op, path: jsonPointerToPath(jsonPatch.path), value: jsonPatch.value }
+
+    case "remove":
+      return { op: jsonPatch.op, path: jsonPointerToPath(jsonPatch.path) }
+
+    case "move":
+    case "copy":
+      if (jsonPatch.from === undefined) {
+        throw failure(`${jsonPatch.op} operation must have a from pointer`)
+      }
+      return {
+        op: jsonPatch.op,
+        from: jsonPointerToPath(jsonPatch.from),
+        path: jsonPointerToPath(jsonPatch.path),
+      }
+
+    default:
+      throw failure(`unsupported JSON patch operation: ${(jsonPatch as any).op}`)
+  }
+}
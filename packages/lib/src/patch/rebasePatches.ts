@@ -0,0 +1,175 @@
+import { assertIsArray } from "../utils"
+import { Patch } from "./Patch"
+import { isPathPrefix, pathsAreEqual } from "./utils"
+
+/**
+ * Rebases (transforms) a list of local patches so they can be applied after a list of remote
+ * patches, given both lists were generated concurrently from the same state.
+ * This is useful for optimistic clients, which can rebase their pending changes over the changes
+ * confirmed by the server rather than failing to apply them.
+ *
+ * Some of the things it does are:
+ * - Array indexes are shifted to account for remote items being added or removed.
+ * - Local patches over a target that was removed (or whose parent got removed or replaced)
+ *   remotely are dropped.
+ * - When both local and remote patches replace the same path the local patch wins.
+ * - When both local and remote patches add an item at the same array index the local item
+ *   ends up first.
+ *
+ * Array indexes are expected to be numbers (as in patches generated by `onPatches`,
+ * `patchRecorder` or `diffSnapshots`), since string path elements are always taken as object keys.
+ * Also note that `onPatches` and `patchRecorder` describe array splices as a series of `replace`
+ * patches followed by `add` patches / a `replace` of the array `length`, so for arrays whose items
+ * get moved around concurrently better results are achieved by rebasing patches that describe
+ * actual additions and removals, such as the ones generated by `diffSnapshots`.
+ *
+ * @param localPatches Local patches.
+ * @param remotePatches Remote patches.
+ * @returns The local patches, rebased so they can be applied after the remote ones.
+ */
+export function rebasePatches(
+  localPatches: ReadonlyArray<Patch>,
+  remotePatches: ReadonlyArray<Patch>
+): Patch[] {
+  assertIsArray(localPatches, "localPatches")
+  assertIsArray(remotePatches, "remotePatches")
+
+  const result: Patch[] = []
+
+  // remote patches, transformed so they can be applied after the local patches processed so far
+  let remaining = remotePatches.slice()
+
+  const len = localPatches.length
+  for (let i = 0; i < len; i++) {
+    let local: Patch | undefined = localPatches[i]
+    const nextRemaining: Patch[] = []
+
+    for (let j = 0; j < remaining.length; j++) {
+      const remote = remaining[j]
+
+      if (local === undefined) {
+        // the local patch became a no-op, so the rest of remote patches are unaffected by it
+        nextRemaining.push(remote)
+        continue
+      }
+
+      const transformedRemote = transformPatch(remote, local, false)
+      if (transformedRemote) {
+        nextRemaining.push(transformedRemote)
+      }
+      local = transformPatch(local, remote, true)
+    }
+
+    if (local) {
+      result.push(local)
+    }
+    remaining = nextRemaining
+  }
+
+  return result
+}
+
+/**
+ * Transforms a patch so it can be applied after another one that was generated concurrently.
+ * Returns undefined if the patch should be dropped.
+ */
+function transformPatch(patch: Patch, applied: Patch, patchWins: boolean): Patch | undefined {
+  const path = patch.path
+  const appliedPath = applied.path
+  const depth = appliedPath.length - 1
+
+  const appliedLastElement = appliedPath[depth]
+  const parentPathMatches =
+    depth >= 0 && path.length > depth && isPathPrefix(appliedPath.slice(0, depth), path)
+
+  if (parentPathMatches && typeof appliedLastElement === "number" && applied.op !== "replace") {
+    // an item was added to / removed from an array which is a parent of (or the same as) the
+    // patch target
+    const index = path[depth]
+
+    if (typeof index === "number") {
+      const isSameLevelAdd = patch.op === "add" && path.length === depth + 1
+
+      if (applied.op === "add") {
+        if (
+          index > appliedLastElement ||
+          (index === appliedLastElement && !(isSameLevelAdd && patchWins))
+        ) {
+          return withIndex(patch, depth, index + 1)
+        }
+        return patch
+      }
+
+      // remove
+      if (index > appliedLastElement) {
+        return withIndex(patch, depth, index - 1)
+      }
+      if (index === appliedLastElement) {
+        // the item was already removed
+        return isSameLevelAdd ? patch : undefined
+      }
+      return patch
+    }
+
+    if (index === "length" && path.length === depth + 1 && patch.op === "replace") {
+      const length: number = patch.value
+      if (applied.op === "add" && appliedLastElement <= length) {
+        return { ...patch, value: length + 1 }
+      }
+      if (applied.op === "remove" && appliedLastElement < length) {
+        return { ...patch, value: length - 1 }
+      }
+      return patch
+    }
+
+    return patch
+  }
+
+  if (parentPathMatches && appliedLastElement === "length" && applied.op === "replace") {
+    // an array was truncated
+    const index = path[depth]
+    const length: number = applied.value
+
+    if (typeof index === "number" && index >= length) {
+      if (patch.op === "add" && path.length === depth + 1) {
+        return withIndex(patch, depth, length)
+      }
+      // the item was already removed
+      return undefined
+    }
+  }
+
+  if (appliedPath.length < path.length && isPathPrefix(appliedPath, path)) {
+    // a parent of the patch target was added, replaced or removed
+    return undefined
+  }
+
+  if (pathsAreEqual(appliedPath, path)) {
+    switch (applied.op) {
+      case "add":
+      case "replace":
+        if (patch.op === "remove") {
+          return patch
+        }
+        if (patch.op === "add" && applied.op === "replace" && typeof path[depth] === "number") {
+          // add over an array index
+          return patch
+        }
+        return patchWins ? patch : undefined
+
+      case "remove":
+        return patch.op === "add" ? patch : undefined
+
+      default:
+        return patch
+    }
+  }
+
+  return patch
+}
+
+function withIndex(patch: Patch, depth: number, index: number): Patch {
+  const path = patch.path.slice()
+  path[depth] = index
+  return { ...patch, path }
+}
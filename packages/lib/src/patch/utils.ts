@@ -0,0 +1,25 @@
+import { Path } from "../parent/pathTypes"
+
+// array indexes might be either numbers or strings, so path elements are compared as strings
+
+/**
+ * @ignore
+ */
+export function pathsAreEqual(path1: Path, path2: Path): boolean {
+  return path1.length === path2.length && isPathPrefix(path1, path2)
+}
+
+/**
+ * @ignore
+ */
+export function isPathPrefix(prefix: Path, path: Path): boolean {
+  if (prefix.length > path.length) {
+    return false
+  }
+  for (let i = 0; i < prefix.length; i++) {
+    if (String(prefix[i]) !== String(path[i])) {
+      return false
+    }
+  }
+  return true
+}
@@ -1,4 +1,5 @@
 import { computed, IComputedValue } from "mobx"
+import { getModelPropData } from "../model/lazyModelProps"
 
 /**
  * A prop transform.
@@ -73,13 +74,13 @@ export function propTransform<TProp, TData>(
         get(this: any): TData {
           if (!computedFn) {
             computedFn = computed(() => {
-              return transform.propToData(this.$[boundPropName])
+              return transform.propToData(getModelPropData(this, boundPropName)[boundPropName])
             })
           }
           return computedFn.get()
         },
         set(this: any, value: any) {
-          this.$[boundPropName] = transform.dataToProp(value)
+          getModelPropData(this, boundPropName)[boundPropName] = transform.dataToProp(value)
           return true
         },
       })
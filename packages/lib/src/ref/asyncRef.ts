@@ -0,0 +1,281 @@
+import { action, observable } from "mobx"
+import { ModelClass } from "../model/BaseModel"
+import { fastGetParent } from "../parent/path"
+import { fromSnapshot } from "../snapshot/fromSnapshot"
+import { getSnapshot } from "../snapshot/getSnapshot"
+import { assertIsFunction, assertIsObject, failure } from "../utils"
+import {
+  DanglingRefPolicy,
+  getModelRefId,
+  internalCustomRef,
+  RefIdResolver,
+  RefOnResolvedValueChange,
+  RefResolver,
+} from "./core"
+import { Ref, RefConstructor } from "./Ref"
+import { getRootRefResolverGen } from "./rootRef"
+
+/**
+ * Target loader of each async ref class, by prototype.
+ */
+const asyncRefLoaders = new WeakMap<object, (ref: AsyncRef<any>) => Promise<any>>()
+
+interface AsyncRefLoadState {
+  loading: boolean
+  error: unknown
+}
+
+const loadStates = new WeakMap<object, AsyncRefLoadState>()
+const loadPromises = new WeakMap<object, Promise<any>>()
+
+function getLoadState(ref: AsyncRef<any>): AsyncRefLoadState {
+  let state = loadStates.get(ref)
+  if (!state) {
+    state = observable({ loading: false, error: undefined }, undefined, { deep: false })
+    loadStates.set(ref, state)
+  }
+  return state
+}
+
+const setLoadState = action(
+  "setAsyncRefLoadState",
+  (ref: AsyncRef<any>, loading: boolean, error: unknown) => {
+    const state = getLoadState(ref)
+    state.loading = loading
+    state.error = error
+  }
+)
+
+/**
+ * A reference whose target, when it cannot be resolved, can be loaded asynchronously.
+ * Use `asyncRef` to create an async ref constructor.
+ */
+export abstract class AsyncRef<T extends object> extends Ref<T> {
+  /**
+   * If the target is currently being loaded.
+   */
+  get isLoading(): boolean {
+    return getLoadState(this).loading
+  }
+
+  /**
+   * The error the last load failed with, or `undefined` if it did not fail.
+   */
+  get loadError(): unknown {
+    return getLoadState(this).error
+  }
+
+  /**
+   * Loads the target when it cannot be currently resolved. Once loaded it is stored in the tree,
+   * so the reference resolves to it from then on.
+   * If the target is already being loaded the same promise is returned.
+   * Note that unless the `autoLoad` option is disabled this is done automatically.
+   *
+   * @returns A promise that resolves to the target.
+   */
+  load(): Promise<T> {
+    const current = this.maybeCurrent
+    if (current) {
+      return Promise.resolve(current)
+    }
+
+    let promise: Promise<T> | undefined = loadPromises.get(this)
+    if (promise) {
+      return promise
+    }
+
+    const loadTarget = asyncRefLoaders.get(Object.getPrototypeOf(this))
+    if (!loadTarget) {
+      throw failure("async refs must be created through 'asyncRef'")
+    }
+
+    setLoadState(this, true, undefined)
+    promise = loadTarget(this).then(
+      target => {
+        loadPromises.delete(this)
+        setLoadState(this, false, undefined)
+        return target
+      },
+      err => {
+        loadPromises.delete(this)
+        setLoadState(this, false, err)
+        throw err
+      }
+    )
+    loadPromises.set(this, promise)
+    return promise
+  }
+}
+
+/** A ref constructor for async refs */
+export interface AsyncRefConstructor<T extends object> extends RefConstructor<T> {
+  (valueOrID: T | string): AsyncRef<T>
+
+  refClass: ModelClass<AsyncRef<T>>
+}
+
+/**
+ * Async reference options.
+ */
+export interface AsyncRefOptions<T extends object> {
+  /**
+   * Must return the ID associated to the given target object, or `undefined` if it has no ID.
+   * If not provided it will try to get the reference id from the model `getRefId()` method.
+   *
+   * @param target Target object.
+   */
+  getId?: RefIdResolver<unknown>
+
+  /**
+   * Loads a target that cannot be currently resolved.
+   * Loads of a same id that are already in progress are shared by all the references waiting
+   * for them.
+   *
+   * @param id Reference id.
+   * @param ref Reference object that started the load.
+   * @returns A promise that resolves to the target object.
+   */
+  load(id: string, ref: AsyncRef<T>): Promise<T>
+
+  /**
+   * Stores a loaded target somewhere in the tree of the reference (usually through a model action
+   * of the root store), so the reference can resolve it.
+   * It is called for every reference that was waiting for the load and still cannot resolve the
+   * target once loaded. Since a same object cannot be part of two trees, references after the
+   * first one get a copy of the loaded target (created from its snapshot, so with the same ids).
+   *
+   * @param target Loaded target object.
+   * @param ref Reference object waiting for the load.
+   */
+  store(target: T, ref: AsyncRef<T>): void
+
+  /**
+   * If references that are part of a tree should start loading their target as soon as they
+   * cannot resolve it. Defaults to `true`.
+   * After a failed load the target will not be loaded automatically again until `load()` is
+   * called.
+   */
+  autoLoad?: boolean
+
+  /**
+   * What should happen when the resolved value changes.
+   *
+   * @param ref Reference object.
+   * @param newValue New resolved value.
+   * @param oldValue Old resolved value.
+   */
+  onResolvedValueChange?: RefOnResolvedValueChange<T>
+
+  /**
+   * What should happen to the reference when the object it points to is detached from the tree
+   * by a model action. Defaults to `"keep"`.
+   */
+  danglingPolicy?: DanglingRefPolicy
+}
+
+/**
+ * Creates an async ref to an object, which in its snapshot form has an id.
+ * An async ref resolves the same way a root ref does, but when its target cannot be found
+ * it is loaded (automatically or through `load()`) and then stored in the tree, so the reference
+ * resolves to it once it arrives.
+ *
+ * @typeparam T Target object type.
+ * @param modelTypeId Unique model type id.
+ * @param options Async reference options.
+ * @returns A function that allows you to construct that type of async reference.
+ */
+export const asyncRef = action(
+  "asyncRef",
+  <T extends object>(modelTypeId: string, options: AsyncRefOptions<T>): AsyncRefConstructor<T> => {
+    assertIsFunction(options.load, "load")
+    assertIsFunction(options.store, "store")
+
+    const getId = options.getId || getModelRefId
+    const autoLoad = options.autoLoad !== false
+
+    interface SharedLoad {
+      readonly promise: Promise<T>
+      stored: boolean
+    }
+    const loadsInProgress = new Map<string, SharedLoad>()
+
+    const loadTarget = (ref: AsyncRef<T>): Promise<T> => {
+      const id = ref.id
+
+      let sharedLoad = loadsInProgress.get(id)
+      if (!sharedLoad) {
+        // so loaders that throw right away end up in a rejected promise as well
+        const promise = new Promise<T>(resolve => {
+          resolve(options.load(id, ref))
+        })
+        const newSharedLoad: SharedLoad = { promise, stored: false }
+        const deleteSharedLoad = () => {
+          loadsInProgress.delete(id)
+        }
+        newSharedLoad.promise.then(deleteSharedLoad, deleteSharedLoad)
+        loadsInProgress.set(id, newSharedLoad)
+        sharedLoad = newSharedLoad
+      }
+
+      const load = sharedLoad
+      return load.promise.then(target => {
+        // it might have been added to the tree while loading (e.g. for another ref)
+        const current = ref.maybeCurrent
+        if (current) {
+          return current
+        }
+
+        assertIsObject(target, "target")
+        const newTarget = load.stored ? fromSnapshot<T>(getSnapshot(target)) : target
+        load.stored = true
+        options.store(newTarget, ref)
+        return newTarget
+      })
+    }
+
+    const rootRefResolverGen = getRootRefResolverGen<T>(getId)
+    const resolverGen = (ref: Ref<T>): RefResolver<T> => {
+      const resolver = rootRefResolverGen(ref)
+      return r => {
+        const target = resolver(r)
+        if (!target && autoLoad) {
+          scheduleAutoLoad(r as AsyncRef<T>)
+        }
+        return target
+      }
+    }
+
+    const refConstructor = internalCustomRef(
+      modelTypeId,
+      resolverGen,
+      getId,
+      options.onResolvedValueChange,
+      options.danglingPolicy,
+      AsyncRef
+    ) as AsyncRefConstructor<T>
+    asyncRefLoaders.set(refConstructor.refClass.prototype, loadTarget)
+    return refConstructor
+  }
+)
+
+const autoLoadsScheduled = new WeakSet<AsyncRef<any>>()
+
+function scheduleAutoLoad(ref: AsyncRef<any>) {
+  if (autoLoadsScheduled.has(ref)) {
+    return
+  }
+  autoLoadsScheduled.add(ref)
+
+  // refs are resolved inside computeds, where side effects are not allowed
+  Promise.resolve().then(() => {
+    autoLoadsScheduled.delete(ref)
+
+    // failed loads are not retried, else they would be retried forever
+    if (ref.isValid || ref.isLoading || ref.loadError !== undefined || !fastGetParent(ref)) {
+      return
+    }
+    ref.load().catch(() => {
+      // available through loadError
+    })
+  })
+}
@@ -1,8 +1,13 @@
-import { observable, ObservableSet, reaction } from "mobx"
+import { isObservableArray, observable, ObservableSet, reaction, set } from "mobx"
+import { modelTypeKey } from "../model/metadata"
 import { model } from "../model/modelDecorator"
 import { isModel } from "../model/utils"
+import { getDeepObjectChildren } from "../parent/coreObjectChildren"
+import { detach } from "../parent/detach"
+import { fastGetParentPathIncludingDataObjects, fastGetRoot } from "../parent/path"
 import { assertTweakedObject } from "../tweaker/core"
 import { assertIsObject, failure } from "../utils"
+import { isCheckingDanglingRefs, setDanglingRefsChecker } from "./danglingRefChecks"
 import { Ref, RefConstructor } from "./Ref"
 
 interface BackRefs<T extends object> {
@@ -34,6 +39,19 @@ export type RefOnResolvedValueChange<T extends object> = (
   oldValue: T | undefined
 ) => void
 
+/**
+ * What should happen to a reference when the object it points to is detached from the tree
+ * by a model action, leaving the reference dangling:
+ * - `"keep"`: nothing, the reference is kept as it is (the default).
+ * - `"remove"`: the reference is detached from its parent (removed from an array or object).
+ * - `"nullify"`: the parent property holding the reference is set to `undefined`, or to `null`
+ *   if it is an array item (since arrays do not support `undefined`).
+ * - `"throw"`: an error is thrown from the action that detached the object.
+ */
+export type DanglingRefPolicy = "keep" | "remove" | "nullify" | "throw"
+
+const danglingRefPolicies = new WeakMap<object, DanglingRefPolicy>()
+
 /**
  * @ignore
  * @internal
@@ -42,10 +60,12 @@ export function internalCustomRef<T extends object>(
   modelTypeId: string,
   resolverGen: (ref: Ref<T>) => RefResolver<T>,
   getId: RefIdResolver<T>,
-  onResolvedValueChange: RefOnResolvedValueChange<T> | undefined
+  onResolvedValueChange: RefOnResolvedValueChange<T> | undefined,
+  danglingPolicy: DanglingRefPolicy | undefined,
+  baseRefClass: typeof Ref = Ref
 ): RefConstructor<T> {
   @model(modelTypeId)
-  class CustomRef extends Ref<T> {
+  class CustomRef extends baseRefClass<T> {
     private resolver?: RefResolver<T>
 
     resolve(): T | undefined {
@@ -104,6 +124,16 @@ export function internalCustomRef<T extends object>(
   }
   fn.refClass = CustomRef
 
+  if (danglingPolicy !== undefined && danglingPolicy !== "keep") {
+    if (!danglingRefPolicyValues.has(danglingPolicy)) {
+      throw failure(`invalid dangling ref policy: ${danglingPolicy}`)
+    }
+    danglingRefPolicies.set(CustomRef.prototype, danglingPolicy)
+    if (!isCheckingDanglingRefs()) {
+      setDanglingRefsChecker(applyDanglingRefPolicies)
+    }
+  }
+
   return (fn as any) as RefConstructor<T>
 }
 
@@ -186,3 +216,60 @@ function updateBackRefs<T extends object>(
     getBackRefs(newTarget, refClass as RefConstructor<any>).add(ref)
   }
 }
+
+const danglingRefPolicyValues = new Set<DanglingRefPolicy>(["keep", "remove", "nullify", "throw"])
+
+function applyDanglingRefPolicies(detachedNodes: ReadonlySet<object>) {
+  const refs = new Set<Ref<object>>()
+  const addRefsResolvingTo = (target: object) => {
+    const backRefs = objectBackRefs.get(target)
+    if (backRefs) {
+      backRefs.all.forEach(ref => refs.add(ref))
+    }
+  }
+
+  detachedNodes.forEach(node => {
+    addRefsResolvingTo(node)
+    getDeepObjectChildren(node).forEach(addRefsResolvingTo)
+  })
+
+  refs.forEach(ref => {
+    const policy = danglingRefPolicies.get(Object.getPrototypeOf(ref))
+    if (!policy) {
+      return
+    }
+
+    // refs that were detached along with the target are not part of the tree anymore
+    const parentPath = fastGetParentPathIncludingDataObjects(ref)
+    if (!parentPath || detachedNodes.has(fastGetRoot(ref))) {
+      return
+    }
+
+    // back refs are not updated until the action finishes, so they still point to the old targets
+    if (ref.maybeCurrent) {
+      return
+    }
+
+    switch (policy) {
+      case "remove":
+        detach(ref)
+        break
+
+      case "nullify": {
+        const { parent, path } = parentPath
+        if (isObservableArray(parent)) {
+          // arrays do not support undefined
+          set(parent, +path, null)
+        } else {
+          set(parent, "" + path, undefined)
+        }
+        break
+      }
+
+      case "throw":
+        throw failure(
+          `reference of type '${ref[modelTypeKey]}' to id '${ref.id}' would be left dangling`
+        )
+    }
+  })
+}
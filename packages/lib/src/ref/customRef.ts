@@ -1,5 +1,6 @@
 import { action } from "mobx"
 import {
+  DanglingRefPolicy,
   getModelRefId,
   internalCustomRef,
   RefIdResolver,
@@ -36,6 +37,14 @@ export interface CustomRefOptions<T extends object> {
    * @param oldValue Old resolved value.
    */
   onResolvedValueChange?: RefOnResolvedValueChange<T>
+
+  /**
+   * What should happen to the reference when the object it points to is detached from the tree
+   * by a model action. It is applied inside that same action, so any changes it makes are
+   * part of it (patches, undo history, etc.).
+   * Defaults to `"keep"`.
+   */
+  danglingPolicy?: DanglingRefPolicy
 }
 
 /**
@@ -55,7 +64,8 @@ export const customRef = action(
       modelTypeId,
       () => options.resolve,
       getId,
-      options.onResolvedValueChange
+      options.onResolvedValueChange,
+      options.danglingPolicy
     )
   }
 )
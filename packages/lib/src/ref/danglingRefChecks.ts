@@ -0,0 +1,75 @@
+import { action } from "mobx"
+import { getCurrentActionContext } from "../action/context"
+
+type DanglingRefsChecker = (detachedNodes: ReadonlySet<object>) => void
+
+let danglingRefsChecker: DanglingRefsChecker | undefined
+
+let detachedNodes = new Set<object>()
+
+/**
+ * @ignore
+ * @internal
+ *
+ * Sets the function that will apply dangling ref policies once the outermost model action
+ * finishes. Until one is set no detached nodes will be tracked.
+ */
+export function setDanglingRefsChecker(checker: DanglingRefsChecker) {
+  danglingRefsChecker = checker
+}
+
+/**
+ * @ignore
+ * @internal
+ */
+export function isCheckingDanglingRefs(): boolean {
+  return !!danglingRefsChecker
+}
+
+/**
+ * @ignore
+ * @internal
+ *
+ * Tracks a node that was detached from its parent inside a model action, so refs pointing to it
+ * (or its children) can be checked once the outermost action finishes.
+ */
+export function trackDetachedNode(node: object) {
+  if (danglingRefsChecker && getCurrentActionContext()) {
+    detachedNodes.add(node)
+  }
+}
+
+/**
+ * @ignore
+ * @internal
+ *
+ * Runs the body of an outermost model action and then applies dangling ref policies
+ * to the refs invalidated by it, so any cleanup becomes part of the same action.
+ * Both run in the same batch, so back refs are not yet updated when checking.
+ */
+export const runCheckingDanglingRefs = action(
+  "runCheckingDanglingRefs",
+  <T>(fn: () => T): T => {
+    let ret: T
+    try {
+      ret = fn()
+    } catch (e) {
+      detachedNodes.clear()
+      throw e
+    }
+
+    // policies might detach more nodes (e.g. removing refs)
+    while (detachedNodes.size > 0) {
+      const nodes = detachedNodes
+      detachedNodes = new Set()
+      try {
+        danglingRefsChecker!(nodes)
+      } catch (e) {
+        detachedNodes.clear()
+        throw e
+      }
+    }
+
+    return ret
+  }
+)
@@ -1,4 +1,7 @@
+export * from "./asyncRef"
 export * from "./core"
 export * from "./customRef"
 export * from "./Ref"
+export * from "./refIntegrity"
+export * from "./refRegistry"
 export * from "./rootRef"
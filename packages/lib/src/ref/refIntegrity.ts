@@ -0,0 +1,80 @@
+import { modelTypeKey } from "../model/metadata"
+import { fastGetRootPath } from "../parent/path"
+import { Path } from "../parent/pathTypes"
+import { walkTree, WalkTreeMode } from "../parent/walkTree"
+import { failure } from "../utils"
+import { Ref } from "./Ref"
+import { setRefIntegrityAsserter } from "./snapshotRefIntegrity"
+
+/**
+ * An invalid reference found by `findInvalidRefs`.
+ */
+export interface InvalidRef {
+  /**
+   * Reference object.
+   */
+  readonly ref: Ref<object>
+
+  /**
+   * Path from the root of the reference to the reference.
+   */
+  readonly path: Path
+
+  /**
+   * Reference type (its model type).
+   */
+  readonly refType: string
+
+  /**
+   * Reference id.
+   */
+  readonly id: string
+}
+
+/**
+ * Finds all the references in a tree that are currently invalid (cannot be resolved).
+ *
+ * @param root Root of the tree (or subtree) to look for references.
+ * @returns An array with the invalid references, in parent first order.
+ */
+export function findInvalidRefs(root: object): InvalidRef[] {
+  const invalidRefs: InvalidRef[] = []
+
+  walkTree(
+    root,
+    node => {
+      if (node instanceof Ref && !node.isValid) {
+        invalidRefs.push({
+          ref: node,
+          path: fastGetRootPath(node).path,
+          refType: node[modelTypeKey],
+          id: node.id,
+        })
+      }
+    },
+    WalkTreeMode.ParentFirst
+  )
+
+  return invalidRefs
+}
+
+/**
+ * Asserts that all the references in a tree are valid (can be resolved), throwing an error that
+ * lists the invalid ones otherwise.
+ *
+ * @param root Root of the tree (or subtree) to look for references.
+ */
+export function assertRefIntegrity(root: object): void {
+  const invalidRefs = findInvalidRefs(root)
+  if (invalidRefs.length <= 0) {
+    return
+  }
+
+  const lines = invalidRefs.map(
+    ({ path, refType, id }) => `- [/${path.join("/")}] reference of type '${refType}' to id '${id}'`
+  )
+  throw failure(`found ${invalidRefs.length} invalid reference(s):\n${lines.join("\n")}`)
+}
+
+// snapshot functions cannot import this module directly since it would cause a circular import
+setRefIntegrityAsserter(assertRefIntegrity)
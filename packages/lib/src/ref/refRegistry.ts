@@ -0,0 +1,191 @@
+import { action, observable, ObservableSet } from "mobx"
+import { fastGetRoot, isRoot } from "../parent/path"
+import { assertTweakedObject } from "../tweaker/core"
+import { assertIsString, failure } from "../utils"
+import {
+  DanglingRefPolicy,
+  getModelRefId,
+  internalCustomRef,
+  RefIdResolver,
+  RefOnResolvedValueChange,
+  RefResolver,
+} from "./core"
+import { Ref, RefConstructor } from "./Ref"
+import { getComputedIdTree } from "./rootRef"
+
+const refRootsByNamespace = observable.map<string, ObservableSet<object>>(undefined, {
+  deep: false,
+})
+const refRootNamespaces = new WeakMap<object, string>()
+
+/**
+ * Registers a tree root as a ref root under a given namespace, so references created with
+ * `registryRef` for that namespace can resolve objects inside it, whatever their own root is.
+ * Several roots can be registered under a same namespace.
+ *
+ * @typeparam T Object type.
+ * @param node Root node object to register as ref root.
+ * @param namespace Namespace to register it under.
+ * @returns The same object that was passed.
+ */
+export const registerRefRoot = action(
+  "registerRefRoot",
+  <T extends object>(node: T, namespace: string): T => {
+    assertTweakedObject(node, "node")
+    assertIsString(namespace, "namespace")
+
+    if (refRootNamespaces.has(node)) {
+      throw failure("object already registered as ref root")
+    }
+
+    if (!isRoot(node)) {
+      throw failure("a ref root must not have a parent")
+    }
+
+    refRootNamespaces.set(node, namespace)
+
+    let roots = refRootsByNamespace.get(namespace)
+    if (!roots) {
+      roots = observable.set(undefined, { deep: false })
+      refRootsByNamespace.set(namespace, roots)
+    }
+    roots.add(node)
+
+    return node
+  }
+)
+
+/**
+ * Unregisters an object to mark it as no longer a ref root.
+ *
+ * @param node Node object to unregister as ref root.
+ */
+export const unregisterRefRoot = action("unregisterRefRoot", (node: object): void => {
+  const namespace = refRootNamespaces.get(node)
+  if (namespace === undefined) {
+    throw failure("not a ref root")
+  }
+
+  refRootNamespaces.delete(node)
+
+  const roots = refRootsByNamespace.get(namespace)!
+  roots.delete(node)
+  if (roots.size <= 0) {
+    refRootsByNamespace.delete(namespace)
+  }
+})
+
+/**
+ * Gets the namespace a ref root was registered under, or `undefined` if it is not a ref root.
+ *
+ * @param node Object.
+ * @returns
+ */
+export function getRefRootNamespace(node: object): string | undefined {
+  return refRootNamespaces.get(node)
+}
+
+/**
+ * Registry reference options.
+ */
+export interface RegistryRefOptions<T extends object> {
+  /**
+   * Namespace of the ref roots where targets will be looked for.
+   */
+  namespace: string
+
+  /**
+   * Must return the ID associated to the given target object, or `undefined` if it has no ID.
+   * If not provided it will try to get the reference id from the model `getRefId()` method.
+   *
+   * @param target Target object.
+   */
+  getId?: RefIdResolver<unknown>
+
+  /**
+   * What should happen when the resolved value changes.
+   *
+   * @param ref Reference object.
+   * @param newValue New resolved value.
+   * @param oldValue Old resolved value.
+   */
+  onResolvedValueChange?: RefOnResolvedValueChange<T>
+
+  /**
+   * What should happen to the reference when the object it points to is detached from the tree
+   * by a model action. It is applied inside that same action, so any changes it makes are
+   * part of it (patches, undo history, etc.).
+   * Defaults to `"keep"`.
+   */
+  danglingPolicy?: DanglingRefPolicy
+}
+
+/**
+ * Creates a registry ref to an object, which in its snapshot form has an id.
+ * A registry ref resolves references by looking for the id inside any of the roots
+ * registered (through `registerRefRoot`) under its namespace, so the Ref and the
+ * referenced object do not need to share a common root.
+ *
+ * @typeparam T Target object type.
+ * @param modelTypeId Unique model type id.
+ * @param options Registry reference options.
+ * @returns A function that allows you to construct that type of registry reference.
+ */
+export const registryRef = action(
+  "registryRef",
+  <T extends object>(modelTypeId: string, options: RegistryRefOptions<T>): RefConstructor<T> => {
+    const namespace = options.namespace
+    assertIsString(namespace, "namespace")
+
+    const getId = options.getId || getModelRefId
+    const computedIdTree = getComputedIdTree(getId)
+
+    const resolverGen = (ref: Ref<T>): RefResolver<T> => {
+      let cachedTarget: T | undefined
+
+      return () => {
+        const roots = refRootsByNamespace.get(namespace)
+        if (!roots) {
+          return undefined
+        }
+
+        if (isRegistryCachedTargetOk(ref, roots, cachedTarget, getId)) {
+          return cachedTarget
+        }
+
+        const rootsIter = roots.values()
+        let rootsCur = rootsIter.next()
+        while (!rootsCur.done) {
+          const idMap = computedIdTree.walk(rootsCur.value)
+          const newTarget = idMap ? (idMap.get(ref.id) as T | undefined) : undefined
+          if (newTarget) {
+            cachedTarget = newTarget
+            return newTarget
+          }
+          rootsCur = rootsIter.next()
+        }
+        return undefined
+      }
+    }
+
+    return internalCustomRef(
+      modelTypeId,
+      resolverGen,
+      getId,
+      options.onResolvedValueChange,
+      options.danglingPolicy
+    )
+  }
+)
+
+function isRegistryCachedTargetOk<T extends object>(
+  ref: Ref<T>,
+  roots: ObservableSet<object>,
+  cachedTarget: T | undefined,
+  getId: RefIdResolver<T>
+): cachedTarget is T {
+  if (!cachedTarget) return false
+  if (ref.id !== getId(cachedTarget)) return false
+  if (!roots.has(fastGetRoot(cachedTarget))) return false
+  return true
+}
@@ -2,6 +2,7 @@ import { action } from "mobx"
 import { fastGetRoot } from "../parent/path"
 import { computedWalkTreeAggregate, ComputedWalkTreeAggregate } from "../parent/walkTree"
 import {
+  DanglingRefPolicy,
   getModelRefId,
   internalCustomRef,
   RefIdResolver,
@@ -30,6 +31,14 @@ export interface RootRefOptions<T extends object> {
    * @param oldValue Old resolved value.
    */
   onResolvedValueChange?: RefOnResolvedValueChange<T>
+
+  /**
+   * What should happen to the reference when the object it points to is detached from the tree
+   * by a model action. It is applied inside that same action, so any changes it makes are
+   * part of it (patches, undo history, etc.).
+   * Defaults to `"keep"`.
+   */
+  danglingPolicy?: DanglingRefPolicy
 }
 
 const computedIdTrees = new WeakMap<
@@ -37,6 +46,24 @@ const computedIdTrees = new WeakMap<
   ComputedWalkTreeAggregate<string>
 >()
 
+/**
+ * @ignore
+ * @internal
+ *
+ * Gets a computed id tree (id to object map of a tree) for a given getId function.
+ * Reused for a same getId function, so the search is only done once for each distinct one.
+ */
+export function getComputedIdTree(
+  getId: (node: object) => string | undefined
+): ComputedWalkTreeAggregate<string> {
+  let computedIdTree = computedIdTrees.get(getId)
+  if (!computedIdTree) {
+    computedIdTree = computedWalkTreeAggregate<string>(getId)
+    computedIdTrees.set(getId, computedIdTree)
+  }
+  return computedIdTree
+}
+
 /**
  * Creates a root ref to an object, which in its snapshot form has an id.
  * A root ref will only be able to resolve references as long as both the Ref
@@ -53,37 +80,50 @@ export const rootRef = action(
     const getId = (options && options.getId) || getModelRefId
     const onResolvedValueChange = options && options.onResolvedValueChange
 
-    // cache/reuse computedIdTrees for same getId function
-    let computedIdTree = computedIdTrees.get(getId)
-    if (!computedIdTree) {
-      computedIdTree = computedWalkTreeAggregate<string>(getId)
-      computedIdTrees.set(getId, computedIdTree)
-    }
+    const resolverGen = getRootRefResolverGen<T>(getId)
 
-    const resolverGen = (ref: Ref<T>): RefResolver<T> => {
-      let cachedTarget: T | undefined
+    return internalCustomRef(
+      modelTypeId,
+      resolverGen,
+      getId,
+      onResolvedValueChange,
+      options && options.danglingPolicy
+    )
+  }
+)
+
+/**
+ * @ignore
+ * @internal
+ *
+ * Gets the resolver generator of root refs, which look for the target inside the root of the ref.
+ */
+export function getRootRefResolverGen<T extends object>(
+  getId: (target: object) => string | undefined
+): (ref: Ref<T>) => RefResolver<T> {
+  const computedIdTree = getComputedIdTree(getId)
 
-      return () => {
-        const refRoot = fastGetRoot(ref)
+  return (ref: Ref<T>): RefResolver<T> => {
+    let cachedTarget: T | undefined
 
-        if (isRefRootCachedTargetOk(ref, refRoot, cachedTarget, getId)) {
-          return cachedTarget
-        }
+    return () => {
+      const refRoot = fastGetRoot(ref)
 
-        // when not found, everytime a child is added/removed or its id changes we will perform another search
-        // this search is only done once for every distinct getId function
-        const idMap = computedIdTree!.walk(refRoot)
-        const newTarget = idMap ? (idMap.get(ref.id) as T | undefined) : undefined
-        if (newTarget) {
-          cachedTarget = newTarget
-        }
-        return newTarget
+      if (isRefRootCachedTargetOk(ref, refRoot, cachedTarget, getId)) {
+        return cachedTarget
       }
-    }
 
-    return internalCustomRef(modelTypeId, resolverGen, getId, onResolvedValueChange)
+      // when not found, everytime a child is added/removed or its id changes we will perform another search
+      // this search is only done once for every distinct getId function
+      const idMap = computedIdTree.walk(refRoot)
+      const newTarget = idMap ? (idMap.get(ref.id) as T | undefined) : undefined
+      if (newTarget) {
+        cachedTarget = newTarget
+      }
+      return newTarget
+    }
   }
-)
+}
 
 function isRefRootCachedTargetOk<T extends object>(
   ref: Ref<T>,
@@ -0,0 +1,34 @@
+import { getGlobalConfig } from "../globalConfig/globalConfig"
+import { fastGetRoot } from "../parent/path"
+import { isTreeNode } from "../tweaker/core"
+import { inDevMode, isPrimitive } from "../utils"
+
+let refIntegrityAsserter: ((root: object) => void) | undefined
+
+/**
+ * @ignore
+ * @internal
+ *
+ * Sets the function used to assert the ref integrity of trees created / changed from snapshots.
+ */
+export function setRefIntegrityAsserter(asserter: (root: object) => void) {
+  refIntegrityAsserter = asserter
+}
+
+/**
+ * @ignore
+ * @internal
+ *
+ * Asserts the ref integrity of the tree an object belongs to after it was created / changed from a
+ * snapshot, as long as it is enabled in the global config.
+ */
+export function checkSnapshotRefIntegrity(obj: unknown) {
+  if (!refIntegrityAsserter || !inDevMode() || !getGlobalConfig().checkRefIntegrityOnSnapshots) {
+    return
+  }
+  if (isPrimitive(obj) || !isTreeNode(obj as object)) {
+    return
+  }
+
+  refIntegrityAsserter(fastGetRoot(obj as object))
+}
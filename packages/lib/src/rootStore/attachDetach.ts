@@ -1,29 +1,164 @@
 import { ActionContextActionType } from "../action/context"
 import { HookAction } from "../action/hookActions"
 import { wrapInAction, wrapModelMethodInActionIfNeeded } from "../action/wrapInAction"
-import { BaseModel } from "../model/BaseModel"
+import { hasModelEffects, startModelEffects, stopModelEffects } from "../effect/modelEffect"
+import { AnyModel, BaseModel } from "../model/BaseModel"
+import { fastGetRoot, fastGetRootPath } from "../parent/path"
+import { Path } from "../parent/pathTypes"
 import { walkTree, WalkTreeMode } from "../parent/walkTree"
+import { pathsAreEqual } from "../patch/utils"
+import { isDeferringDetaches, setDeferredDetachesResolver } from "./deferredDetaches"
+import { isRootStore, RootStoreDetachReason } from "./rootStore"
 
 const onAttachedDisposers = new WeakMap<object, () => void>()
 
+/**
+ * Root store each model with root store hooks is currently attached to (as far as its hooks know).
+ */
+const attachedRootStores = new WeakMap<object, object>()
+
+interface PendingDetach {
+  readonly rootStore: object
+  readonly oldPath: Path
+}
+
+/**
+ * Models detached from a root store inside the current outermost model action, in children first order.
+ */
+let pendingDetaches = new Map<AnyModel, PendingDetach>()
+
+function hasRootStoreHooks(node: object): node is AnyModel {
+  return (
+    node instanceof BaseModel &&
+    !!(
+      node.onAttachedToRootStore ||
+      node.onDetachedFromRootStore ||
+      node.onMovedWithinRootStore ||
+      hasModelEffects(node)
+    )
+  )
+}
+
 /**
  * @ignore
+ * @internal
+ *
+ * Gets the root store the root store hooks of a model consider it attached to, making sure the model
+ * is tracked from then on (e.g. because it just got some effects).
  */
-export function attachToRootStore(rootStore: object, child: object): void {
-  walkTree(
-    child,
-    ch => {
-      if (ch instanceof BaseModel && ch.onAttachedToRootStore) {
+export function trackRootStoreHooks(model: AnyModel): object | undefined {
+  let rootStore = attachedRootStores.get(model)
+  if (!rootStore) {
+    const root = fastGetRoot(model)
+    if (isRootStore(root)) {
+      rootStore = root
+      setDeferredDetachesResolver(resolvePendingDetaches)
+      attachedRootStores.set(model, root)
+    }
+  }
+  return rootStore
+}
+
+function runAttachHooks(rootStore: object, ch: AnyModel) {
+  setDeferredDetachesResolver(resolvePendingDetaches)
+  attachedRootStores.set(ch, rootStore)
+
+  if (ch.onAttachedToRootStore) {
+    wrapModelMethodInActionIfNeeded(ch, "onAttachedToRootStore", HookAction.OnAttachedToRootStore)
+
+    const disposer = ch.onAttachedToRootStore(rootStore)
+    if (disposer) {
+      onAttachedDisposers.set(ch, disposer)
+    }
+  }
+
+  startModelEffects(ch)
+}
+
+function runDetachHooks(rootStore: object, ch: AnyModel, reason: RootStoreDetachReason) {
+  attachedRootStores.delete(ch)
+
+  stopModelEffects(ch)
+
+  const disposer = onAttachedDisposers.get(ch)
+  if (disposer) {
+    // wrap disposer in action
+    const disposerAction = wrapInAction(
+      HookAction.OnAttachedToRootStoreDisposer,
+      disposer,
+      ActionContextActionType.Sync
+    )
+    onAttachedDisposers.delete(ch)
+    disposerAction.call(ch)
+  }
+
+  if (ch.onDetachedFromRootStore) {
+    wrapModelMethodInActionIfNeeded(
+      ch,
+      "onDetachedFromRootStore",
+      HookAction.OnDetachedFromRootStore
+    )
+
+    ch.onDetachedFromRootStore(rootStore, reason)
+  }
+}
+
+function resolvePendingDetaches() {
+  if (pendingDetaches.size <= 0) {
+    return
+  }
+
+  const detaches = pendingDetaches
+  pendingDetaches = new Map()
+
+  const stillAttached: [AnyModel, object, PendingDetach][] = []
+
+  // detachments first (children first), then attachments and moves (parents first)
+  detaches.forEach((pending, ch) => {
+    if (attachedRootStores.get(ch) !== pending.rootStore) {
+      // already taken care of (e.g. the root store was unregistered)
+      return
+    }
+
+    const root = fastGetRoot(ch)
+    const newRootStore = isRootStore(root) ? root : undefined
+    if (newRootStore !== pending.rootStore) {
+      runDetachHooks(pending.rootStore, ch, "detached")
+    }
+    if (newRootStore) {
+      stillAttached.push([ch, newRootStore, pending])
+    }
+  })
+
+  for (let i = stillAttached.length - 1; i >= 0; i--) {
+    const [ch, newRootStore, pending] = stillAttached[i]
+    if (newRootStore !== pending.rootStore) {
+      runAttachHooks(newRootStore, ch)
+    } else if (ch.onMovedWithinRootStore) {
+      const newPath = fastGetRootPath(ch).path
+      if (!pathsAreEqual(pending.oldPath, newPath)) {
         wrapModelMethodInActionIfNeeded(
           ch,
-          "onAttachedToRootStore",
-          HookAction.OnAttachedToRootStore
+          "onMovedWithinRootStore",
+          HookAction.OnMovedWithinRootStore
         )
 
-        const disposer = ch.onAttachedToRootStore(rootStore)
-        if (disposer) {
-          onAttachedDisposers.set(ch, disposer)
-        }
+        ch.onMovedWithinRootStore(pending.oldPath, newPath)
+      }
+    }
+  }
+}
+
+/**
+ * @ignore
+ */
+export function attachToRootStore(rootStore: object, child: object): void {
+  walkTree(
+    child,
+    ch => {
+      // models whose detachment is pending will be resolved once the outermost action finishes
+      if (hasRootStoreHooks(ch) && !attachedRootStores.has(ch)) {
+        runAttachHooks(rootStore, ch)
       }
     },
     WalkTreeMode.ParentFirst
@@ -32,21 +167,42 @@ export function attachToRootStore(rootStore: object, child: object): void {
 
 /**
  * @ignore
+ *
+ * Detaches a node from the root store it was part of.
+ * When the detachment happens inside a model action the hooks are not run until the outermost
+ * one finishes, since by then the node might have been attached again to the same root store.
+ *
+ * @param rootStore Root store the node was part of.
+ * @param child Detached node.
+ * @param reason Detachment reason.
+ * @param oldPath Path from the root store to the node before it was detached.
  */
-export function detachFromRootStore(child: object): void {
+export function detachFromRootStore(
+  rootStore: object,
+  child: object,
+  reason: RootStoreDetachReason,
+  oldPath: Path
+): void {
+  const deferred = reason === "detached" && isDeferringDetaches()
+
   walkTree(
     child,
     ch => {
-      const disposer = onAttachedDisposers.get(ch)
-      if (disposer) {
-        // wrap disposer in action
-        const disposerAction = wrapInAction(
-          HookAction.OnAttachedToRootStoreDisposer,
-          disposer,
-          ActionContextActionType.Sync
-        )
-        onAttachedDisposers.delete(ch)
-        disposerAction.call(ch)
+      if (!hasRootStoreHooks(ch) || attachedRootStores.get(ch) !== rootStore) {
+        return
+      }
+
+      if (deferred) {
+        if (!pendingDetaches.has(ch)) {
+          // the path of the child is still relative to the detached node
+          pendingDetaches.set(ch, {
+            rootStore,
+            oldPath: [...oldPath, ...fastGetRootPath(ch).path],
+          })
+        }
+      } else {
+        pendingDetaches.delete(ch)
+        runDetachHooks(rootStore, ch, reason)
       }
     },
     WalkTreeMode.ChildrenFirst
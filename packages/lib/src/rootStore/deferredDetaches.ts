@@ -0,0 +1,53 @@
+type DeferredDetachesResolver = () => void
+
+let deferredDetachesResolver: DeferredDetachesResolver | undefined
+
+let deferringDetaches = false
+
+/**
+ * @ignore
+ * @internal
+ *
+ * Sets the function that will resolve the detachments from root stores deferred until the
+ * outermost model action finishes. Until one is set no detachments will be deferred.
+ */
+export function setDeferredDetachesResolver(resolver: DeferredDetachesResolver) {
+  deferredDetachesResolver = resolver
+}
+
+/**
+ * @ignore
+ * @internal
+ */
+export function canDeferDetaches(): boolean {
+  return !!deferredDetachesResolver
+}
+
+/**
+ * @ignore
+ * @internal
+ */
+export function isDeferringDetaches(): boolean {
+  return deferringDetaches
+}
+
+/**
+ * @ignore
+ * @internal
+ *
+ * Runs the body of an outermost model action deferring detachments from root stores until it
+ * finishes, so nodes that end up attached again to the same root store are reported as moved
+ * rather than as detached and then attached.
+ */
+export function runDeferringDetaches<T>(fn: () => T): T {
+  const prevDeferringDetaches = deferringDetaches
+  deferringDetaches = true
+  try {
+    return fn()
+  } finally {
+    deferringDetaches = prevDeferringDetaches
+    if (!deferringDetaches) {
+      deferredDetachesResolver!()
+    }
+  }
+}
@@ -6,10 +6,18 @@ import { attachToRootStore, detachFromRootStore } from "./attachDetach"
 
 const rootStores = new WeakSet<object>()
 
+/**
+ * Reason why a model was detached from a root store.
+ * - `"detached"`: The model (or one of its parents) was detached from the root store tree.
+ * - `"rootStoreUnregistered"`: The root store was unregistered.
+ */
+export type RootStoreDetachReason = "detached" | "rootStoreUnregistered"
+
 /**
  * Registers a model / tree node object as a root store tree.
  * Marking a model object as a root store tree serves several purposes:
  * - It allows the `onAttachedToRootStore` hook (plus disposer) to be invoked on models once they become part of this tree.
+ *   Likewise `onDetachedFromRootStore` and `onMovedWithinRootStore` will be invoked once they are detached / moved.
  *   These hooks can be used for example to attach effects and serve as some sort of initialization.
  * - It allows auto detachable references to work properly.
  *
@@ -50,7 +58,7 @@ export const unregisterRootStore = action("unregisterRootStore", (node: object):
 
   rootStores.delete(node)
 
-  detachFromRootStore(node)
+  detachFromRootStore(node, node, "rootStoreUnregistered", [])
 })
 
 /**
@@ -6,6 +6,7 @@ import { isFrozenSnapshot } from "../frozen/Frozen"
 import { modelIdKey, modelTypeKey } from "../model/metadata"
 import { getModelInfoForName } from "../model/modelInfo"
 import { isModelSnapshot } from "../model/utils"
+import { checkSnapshotRefIntegrity } from "../ref/snapshotRefIntegrity"
 import { assertTweakedObject } from "../tweaker/core"
 import { assertIsObject, failure, inDevMode, isArray, isPlainObject } from "../utils"
 import { reconcileSnapshot } from "./reconcileSnapshot"
@@ -23,6 +24,7 @@ export function applySnapshot<T extends object>(node: T, snapshot: SnapshotOutOf
   assertIsObject(snapshot, "snapshot")
 
   wrappedInternalApplySnapshot.call(node, snapshot)
+  checkSnapshotRefIntegrity(node)
 }
 
 function internalApplySnapshot<T extends object>(this: T, sn: SnapshotOutOf<T>): void {
@@ -1,5 +1,6 @@
 import { assertTweakedObject } from "../tweaker/core"
-import { fromSnapshot } from "./fromSnapshot"
+import { failure } from "../utils"
+import { fromSnapshotSharingSnapshot, fromSnapshotUnchecked } from "./fromSnapshot"
 import { getSnapshot } from "./getSnapshot"
 
 /**
@@ -7,13 +8,29 @@ import { getSnapshot } from "./getSnapshot"
  */
 export interface CloneOptions {
   /**
-   * Pass `true` to generate new internal ids for models rather than reusing them. (Default is `true`)
+   * Pass `true` to generate new internal ids for models rather than reusing them.
+   * (Default is `true`, unless `copyOnWrite` is `true`)
    */
   generateNewIds: boolean
+
+  /**
+   * Pass `true` to make a copy-on-write clone, this is, a clone whose models keep their data
+   * (and share the snapshot of it with the original object) in snapshot form until first accessed,
+   * so only the parts that are actually used get instantiated.
+   * Since snapshots are shared model ids are kept, so it cannot be used alongside `generateNewIds`.
+   * For the same reason a copy-on-write clone (or any object taken from it) must not be part of
+   * the same tree as the original object, or else both would collide in anything that looks up
+   * models by id (`getNodeById`, references, etc.). In dev mode attaching it to such tree throws.
+   * Note that anything that walks the whole tree (such as registering it as a root store) will
+   * instantiate all of it.
+   * (Default is `false`)
+   */
+  copyOnWrite: boolean
 }
 
 /**
- * Clones an object by doing a `fromSnapshot(getSnapshot(value), { generateNewIds: true })`.
+ * Clones an object by doing a `fromSnapshot(getSnapshot(value), { generateNewIds: true })`,
+ * or a copy-on-write clone if the `copyOnWrite` option is used.
  *
  * @typeparam T Object type.
  * @param node Object to clone.
@@ -23,11 +40,20 @@ export interface CloneOptions {
 export function clone<T extends object>(node: T, options?: Partial<CloneOptions>): T {
   assertTweakedObject(node, "node")
 
+  const copyOnWrite = !!(options && options.copyOnWrite)
   const opts = {
-    generateNewIds: true,
+    generateNewIds: !copyOnWrite,
     ...options,
   }
 
   const sn = getSnapshot(node)
-  return fromSnapshot(sn, opts)
+
+  if (copyOnWrite) {
+    if (opts.generateNewIds) {
+      throw failure("the copyOnWrite and generateNewIds options cannot be used together")
+    }
+    return fromSnapshotSharingSnapshot(sn, node)
+  }
+
+  return fromSnapshotUnchecked(sn, opts)
 }
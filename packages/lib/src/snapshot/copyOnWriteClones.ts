@@ -0,0 +1,20 @@
+/**
+ * Object each copy-on-write clone (and every object created as part of it) was cloned from.
+ */
+const copyOnWriteCloneSources = new WeakMap<object, object>()
+
+/**
+ * @ignore
+ * @internal
+ */
+export function setCopyOnWriteCloneSource(clone: object, source: object) {
+  copyOnWriteCloneSources.set(clone, source)
+}
+
+/**
+ * @ignore
+ * @internal
+ */
+export function getCopyOnWriteCloneSource(clone: object): object | undefined {
+  return copyOnWriteCloneSources.get(clone)
+}
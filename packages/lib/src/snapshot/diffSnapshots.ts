@@ -0,0 +1,301 @@
+import { isFrozenSnapshot } from "../frozen/Frozen"
+import { modelIdKey, modelTypeKey } from "../model/metadata"
+import { isModelSnapshot } from "../model/utils"
+import { Path } from "../parent/pathTypes"
+import { Patch } from "../patch/Patch"
+import { isArray, isPlainObject, isPrimitive } from "../utils"
+
+/**
+ * Computes the patches (and inverse patches) that would turn a snapshot into another one,
+ * without the need to apply them over a live tree.
+ *
+ * Models are matched by their identity (`$modelType` plus `$modelId`), so a model whose identity
+ * changed will be replaced as a whole, while models that keep their identity will be diffed
+ * property by property. Array items are matched in order, so since patches have no "move"
+ * operation, a model moved out of order inside an array will be removed from its old position and
+ * added as a whole at the new one. Frozen data is compared by value and replaced as a whole when it
+ * changes.
+ *
+ * @typeparam T Snapshot type.
+ * @param oldSnapshot Old snapshot.
+ * @param newSnapshot New snapshot.
+ * @returns The patches that turn the old snapshot into the new one, and the inverse patches that
+ * turn the new snapshot into the old one.
+ */
+export function diffSnapshots<T>(
+  oldSnapshot: T,
+  newSnapshot: T
+): { patches: Patch[]; inversePatches: Patch[] } {
+  const patches: Patch[] = []
+  diffValues(oldSnapshot, newSnapshot, [], patches)
+
+  const inversePatches: Patch[] = []
+  diffValues(newSnapshot, oldSnapshot, [], inversePatches)
+
+  return { patches, inversePatches }
+}
+
+function diffValues(oldSn: any, newSn: any, path: Path, patches: Patch[]): void {
+  if (oldSn === newSn) {
+    return
+  }
+
+  if (
+    isPrimitive(oldSn) ||
+    isPrimitive(newSn) ||
+    isFrozenSnapshot(oldSn) ||
+    isFrozenSnapshot(newSn)
+  ) {
+    if (!snapshotsAreEqual(oldSn, newSn)) {
+      patches.push({ op: "replace", path, value: newSn })
+    }
+    return
+  }
+
+  if (isArray(oldSn) && isArray(newSn)) {
+    diffArrays(oldSn, newSn, path, patches)
+    return
+  }
+
+  const oldIsModel = isModelSnapshot(oldSn)
+  const newIsModel = isModelSnapshot(newSn)
+  if (oldIsModel || newIsModel) {
+    if (!oldIsModel || !newIsModel || getModelIdentity(oldSn) !== getModelIdentity(newSn)) {
+      // different kind of model / model instance
+      patches.push({ op: "replace", path, value: newSn })
+      return
+    }
+  }
+
+  if (isPlainObject(oldSn) && isPlainObject(newSn)) {
+    diffObjects(oldSn, newSn, path, patches)
+    return
+  }
+
+  // e.g. array vs object
+  patches.push({ op: "replace", path, value: newSn })
+}
+
+// a missing key and a key set to undefined are considered the same (e.g. after a JSON round-trip)
+
+function diffObjects(oldSn: any, newSn: any, path: Path, patches: Patch[]): void {
+  const oldKeys = Object.keys(oldSn)
+  for (let i = 0; i < oldKeys.length; i++) {
+    const k = oldKeys[i]
+    if (!(k in newSn) && oldSn[k] !== undefined) {
+      patches.push({ op: "remove", path: [...path, k] })
+    }
+  }
+
+  const newKeys = Object.keys(newSn)
+  for (let i = 0; i < newKeys.length; i++) {
+    const k = newKeys[i]
+    if (k in oldSn) {
+      diffValues(oldSn[k], newSn[k], [...path, k], patches)
+    } else if (newSn[k] !== undefined) {
+      patches.push({ op: "add", path: [...path, k], value: newSn[k] })
+    }
+  }
+}
+
+// above this many item comparisons the middle part of arrays will be diffed by position
+const maxArrayMatchingComparisons = 250000
+
+function diffArrays(
+  oldArr: ReadonlyArray<any>,
+  newArr: ReadonlyArray<any>,
+  path: Path,
+  patches: Patch[]
+): void {
+  // skip common prefix
+  let start = 0
+  while (
+    start < oldArr.length &&
+    start < newArr.length &&
+    itemsMatch(oldArr[start], newArr[start])
+  ) {
+    diffValues(oldArr[start], newArr[start], [...path, start], patches)
+    start++
+  }
+
+  // skip common suffix
+  let oldEnd = oldArr.length
+  let newEnd = newArr.length
+  while (oldEnd > start && newEnd > start && itemsMatch(oldArr[oldEnd - 1], newArr[newEnd - 1])) {
+    oldEnd--
+    newEnd--
+  }
+
+  const oldMiddle = oldArr.slice(start, oldEnd)
+  const newMiddle = newArr.slice(start, newEnd)
+
+  // matched pairs of indexes (relative to the middle part) in ascending order
+  const matches =
+    oldMiddle.length * newMiddle.length <= maxArrayMatchingComparisons
+      ? findLongestCommonSubsequence(oldMiddle, newMiddle)
+      : []
+
+  // turn the middle part into the new one, keeping track of the index in the array being modified
+  let index = start
+  let oldIndex = 0
+  let newIndex = 0
+  for (let m = 0; m <= matches.length; m++) {
+    const [oldMatchIndex, newMatchIndex] =
+      m < matches.length ? matches[m] : [oldMiddle.length, newMiddle.length]
+
+    index = diffArrayGap(
+      oldMiddle.slice(oldIndex, oldMatchIndex),
+      newMiddle.slice(newIndex, newMatchIndex),
+      path,
+      index,
+      patches
+    )
+
+    if (m < matches.length) {
+      diffValues(oldMiddle[oldMatchIndex], newMiddle[newMatchIndex], [...path, index], patches)
+      index++
+    }
+
+    oldIndex = oldMatchIndex + 1
+    newIndex = newMatchIndex + 1
+  }
+
+  // common suffix, now at its final position
+  for (let i = 0; i < oldArr.length - oldEnd; i++) {
+    diffValues(oldArr[oldEnd + i], newArr[newEnd + i], [...path, index], patches)
+    index++
+  }
+}
+
+/**
+ * Turns a gap of removed items into a gap of added items, starting at a given index.
+ * Returns the index right after the gap.
+ */
+function diffArrayGap(
+  removed: ReadonlyArray<any>,
+  added: ReadonlyArray<any>,
+  path: Path,
+  index: number,
+  patches: Patch[]
+): number {
+  const pairs = Math.min(removed.length, added.length)
+  for (let i = 0; i < pairs; i++) {
+    if (getModelIdentity(removed[i]) === undefined && getModelIdentity(added[i]) === undefined) {
+      // no identity involved, so it can be diffed in place
+      diffValues(removed[i], added[i], [...path, index], patches)
+    } else {
+      patches.push({ op: "remove", path: [...path, index] })
+      patches.push({ op: "add", path: [...path, index], value: added[i] })
+    }
+    index++
+  }
+
+  for (let i = pairs; i < removed.length; i++) {
+    patches.push({ op: "remove", path: [...path, index] })
+  }
+
+  for (let i = pairs; i < added.length; i++) {
+    patches.push({ op: "add", path: [...path, index], value: added[i] })
+    index++
+  }
+
+  return index
+}
+
+function findLongestCommonSubsequence(
+  oldArr: ReadonlyArray<any>,
+  newArr: ReadonlyArray<any>
+): [number, number][] {
+  const oldLen = oldArr.length
+  const newLen = newArr.length
+
+  // lengths[i][j] = length of the LCS of oldArr[i..] and newArr[j..]
+  const lengths: number[][] = []
+  for (let i = 0; i <= oldLen; i++) {
+    lengths.push(new Array(newLen + 1).fill(0))
+  }
+  for (let i = oldLen - 1; i >= 0; i--) {
+    for (let j = newLen - 1; j >= 0; j--) {
+      lengths[i][j] = itemsMatch(oldArr[i], newArr[j])
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const matches: [number, number][] = []
+  let i = 0
+  let j = 0
+  while (i < oldLen && j < newLen) {
+    if (itemsMatch(oldArr[i], newArr[j])) {
+      matches.push([i, j])
+      i++
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++
+    } else {
+      j++
+    }
+  }
+  return matches
+}
+
+/**
+ * Models match if they have the same identity, anything else if they are equal.
+ */
+function itemsMatch(oldItem: any, newItem: any): boolean {
+  const oldIdentity = getModelIdentity(oldItem)
+  const newIdentity = getModelIdentity(newItem)
+  if (oldIdentity !== undefined || newIdentity !== undefined) {
+    return oldIdentity === newIdentity
+  }
+  return snapshotsAreEqual(oldItem, newItem)
+}
+
+function getModelIdentity(sn: any): string | undefined {
+  return isModelSnapshot(sn) ? `${sn[modelTypeKey]} ${sn[modelIdKey]}` : undefined
+}
+
+/**
+ * @ignore
+ * @internal
+ */
+export function snapshotsAreEqual(sn1: any, sn2: any): boolean {
+  if (sn1 === sn2) {
+    return true
+  }
+
+  if (isArray(sn1)) {
+    if (!isArray(sn2) || sn1.length !== sn2.length) {
+      return false
+    }
+    for (let i = 0; i < sn1.length; i++) {
+      if (!snapshotsAreEqual(sn1[i], sn2[i])) {
+        return false
+      }
+    }
+    return true
+  }
+
+  if (isPlainObject(sn1)) {
+    if (!isPlainObject(sn2)) {
+      return false
+    }
+    const keys1 = Object.keys(sn1)
+    for (let i = 0; i < keys1.length; i++) {
+      const k = keys1[i]
+      if (!snapshotsAreEqual((sn1 as any)[k], (sn2 as any)[k])) {
+        return false
+      }
+    }
+    const keys2 = Object.keys(sn2)
+    for (let i = 0; i < keys2.length; i++) {
+      const k = keys2[i]
+      if (!(k in sn1) && (sn2 as any)[k] !== undefined) {
+        return false
+      }
+    }
+    return true
+  }
+
+  return false
+}
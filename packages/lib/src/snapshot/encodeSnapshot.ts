@@ -0,0 +1,282 @@
+import { frozenKey, isFrozenSnapshot } from "../frozen/Frozen"
+import { modelIdKey, modelTypeKey } from "../model/metadata"
+import { failure, isArray, isPlainObject } from "../utils"
+import { decodeMsgPack, encodeMsgPack } from "../utils/msgpack"
+
+const compactSnapshotVersion = 1
+
+// encoded non primitive values are arrays whose first item is one of these tags
+const arrayTag = 0
+const modelTag = 1
+const objectTag = 2
+const undefinedTag = 3
+const frozenTag = 4
+
+/**
+ * A snapshot encoded by `encodeSnapshot` in its compact (JSON compatible) form.
+ */
+export interface CompactSnapshot {
+  /**
+   * Version of the encoding.
+   */
+  readonly $compactSnapshot: number
+  /**
+   * Model type names table.
+   */
+  readonly types: ReadonlyArray<string>
+  /**
+   * Model ids table.
+   */
+  readonly ids: ReadonlyArray<string>
+  /**
+   * Object shapes (key lists) table.
+   */
+  readonly shapes: ReadonlyArray<ReadonlyArray<string>>
+  /**
+   * Encoded snapshot data.
+   */
+  readonly data: any
+}
+
+/**
+ * Options for `encodeSnapshot`.
+ */
+export interface EncodeSnapshotOptions {
+  /**
+   * If the compact snapshot should be further encoded as binary (MessagePack) data.
+   */
+  binary?: boolean
+}
+
+class Table<T> {
+  readonly items: T[] = []
+  private readonly indexes = new Map<string, number>()
+
+  indexOf(key: string, item: T) {
+    let index = this.indexes.get(key)
+    if (index === undefined) {
+      index = this.items.length
+      this.items.push(item)
+      this.indexes.set(key, index)
+    }
+    return index
+  }
+}
+
+interface EncodeTables {
+  readonly types: Table<string>
+  readonly ids: Table<string>
+  readonly shapes: Table<string[]>
+}
+
+/**
+ * Encodes a snapshot (as returned by `getSnapshot`) into a compact form, where model type names,
+ * model ids and object shapes (key lists) are stored only once in tables.
+ * Optionally the result can be further encoded as binary (MessagePack) data.
+ *
+ * Use `decodeSnapshot` to turn it back into a snapshot.
+ *
+ * @typeparam T Snapshot type.
+ * @param snapshot Snapshot to encode.
+ * @returns The compact snapshot.
+ */
+export function encodeSnapshot<T>(snapshot: T): CompactSnapshot
+
+/**
+ * Encodes a snapshot (as returned by `getSnapshot`) into a compact form, where model type names,
+ * model ids and object shapes (key lists) are stored only once in tables.
+ * Optionally the result can be further encoded as binary (MessagePack) data.
+ *
+ * Use `decodeSnapshot` to turn it back into a snapshot.
+ *
+ * @typeparam T Snapshot type.
+ * @param snapshot Snapshot to encode.
+ * @param options Encoding options.
+ * @returns The compact snapshot, or binary data if the `binary` option is set.
+ */
+export function encodeSnapshot<T>(
+  snapshot: T,
+  options: EncodeSnapshotOptions & { binary: true }
+): Uint8Array
+
+/**
+ * Encodes a snapshot (as returned by `getSnapshot`) into a compact form, where model type names,
+ * model ids and object shapes (key lists) are stored only once in tables.
+ * Optionally the result can be further encoded as binary (MessagePack) data.
+ *
+ * Use `decodeSnapshot` to turn it back into a snapshot.
+ *
+ * @typeparam T Snapshot type.
+ * @param snapshot Snapshot to encode.
+ * @param [options] Encoding options.
+ * @returns The compact snapshot, or binary data if the `binary` option is set.
+ */
+export function encodeSnapshot<T>(
+  snapshot: T,
+  options?: EncodeSnapshotOptions
+): CompactSnapshot | Uint8Array
+
+// base
+export function encodeSnapshot<T>(
+  snapshot: T,
+  options?: EncodeSnapshotOptions
+): CompactSnapshot | Uint8Array {
+  const tables: EncodeTables = {
+    types: new Table(),
+    ids: new Table(),
+    shapes: new Table(),
+  }
+
+  const data = encodeValue(snapshot, tables)
+
+  if (options && options.binary) {
+    return encodeMsgPack([
+      compactSnapshotVersion,
+      tables.types.items,
+      tables.ids.items,
+      tables.shapes.items,
+      data,
+    ])
+  }
+
+  return {
+    $compactSnapshot: compactSnapshotVersion,
+    types: tables.types.items,
+    ids: tables.ids.items,
+    shapes: tables.shapes.items,
+    data,
+  }
+}
+
+function encodeShape(obj: any, keys: string[], tables: EncodeTables, encoded: any[]) {
+  encoded.push(tables.shapes.indexOf(keys.join("\n"), keys))
+  for (let i = 0; i < keys.length; i++) {
+    encoded.push(encodeValue(obj[keys[i]], tables))
+  }
+}
+
+function encodeValue(value: any, tables: EncodeTables): any {
+  if (value === undefined) {
+    return [undefinedTag]
+  }
+
+  if (isArray(value)) {
+    const encoded: any[] = [arrayTag]
+    for (let i = 0; i < value.length; i++) {
+      encoded.push(encodeValue(value[i], tables))
+    }
+    return encoded
+  }
+
+  if (isPlainObject(value)) {
+    const obj = value as any
+
+    if (isFrozenSnapshot(obj)) {
+      // frozen data is plain JSON, so we store it as is
+      return obj.data === undefined ? [frozenTag] : [frozenTag, obj.data]
+    }
+
+    const modelType = obj[modelTypeKey]
+    if (modelType !== undefined) {
+      const modelId = obj[modelIdKey]
+      const encoded: any[] = [
+        modelTag,
+        tables.types.indexOf(modelType, modelType),
+        modelId === undefined ? -1 : tables.ids.indexOf(modelId, modelId),
+      ]
+      const keys = Object.keys(obj).filter(k => k !== modelTypeKey && k !== modelIdKey)
+      encodeShape(obj, keys, tables, encoded)
+      return encoded
+    }
+
+    const encoded: any[] = [objectTag]
+    encodeShape(obj, Object.keys(obj), tables, encoded)
+    return encoded
+  }
+
+  if (typeof value === "object" && value !== null) {
+    throw failure("snapshot values must be primitives, plain objects or arrays")
+  }
+
+  return value
+}
+
+/**
+ * Decodes a snapshot encoded with `encodeSnapshot` (either in its compact or binary form)
+ * back into a regular snapshot, which can be then used with `fromSnapshot` / `applySnapshot`.
+ *
+ * @typeparam T Snapshot type.
+ * @param encoded Compact snapshot or binary data.
+ * @returns The decoded snapshot.
+ */
+export function decodeSnapshot<T = any>(encoded: CompactSnapshot | Uint8Array): T {
+  let compact: CompactSnapshot
+  if (encoded instanceof Uint8Array) {
+    const decoded = decodeMsgPack(encoded)
+    if (!Array.isArray(decoded) || decoded.length !== 5) {
+      throw failure("invalid binary snapshot")
+    }
+    const [version, types, ids, shapes, data] = decoded
+    compact = { $compactSnapshot: version, types, ids, shapes, data }
+  } else if (isPlainObject(encoded)) {
+    compact = encoded
+  } else {
+    throw failure("encoded snapshot must be a compact snapshot or binary data")
+  }
+
+  if (compact.$compactSnapshot !== compactSnapshotVersion) {
+    throw failure(`unsupported compact snapshot version: ${compact.$compactSnapshot}`)
+  }
+
+  return decodeValue(compact.data, compact)
+}
+
+function decodeShape(encoded: any[], start: number, compact: CompactSnapshot, obj: any) {
+  const keys = compact.shapes[encoded[start]]
+  if (!keys) {
+    throw failure(`invalid compact snapshot shape index: ${encoded[start]}`)
+  }
+  for (let i = 0; i < keys.length; i++) {
+    obj[keys[i]] = decodeValue(encoded[start + 1 + i], compact)
+  }
+  return obj
+}
+
+function decodeValue(encoded: any, compact: CompactSnapshot): any {
+  if (!Array.isArray(encoded)) {
+    return encoded
+  }
+
+  switch (encoded[0]) {
+    case arrayTag: {
+      const len = encoded.length
+      const arr = new Array(len - 1)
+      for (let i = 1; i < len; i++) {
+        arr[i - 1] = decodeValue(encoded[i], compact)
+      }
+      return arr
+    }
+
+    case modelTag: {
+      const obj: any = {
+        [modelTypeKey]: compact.types[encoded[1]],
+      }
+      if (encoded[2] >= 0) {
+        obj[modelIdKey] = compact.ids[encoded[2]]
+      }
+      return decodeShape(encoded, 3, compact, obj)
+    }
+
+    case objectTag:
+      return decodeShape(encoded, 1, compact, {})
+
+    case undefinedTag:
+      return undefined
+
+    case frozenTag:
+      return { [frozenKey]: true, data: encoded.length > 1 ? encoded[1] : undefined }
+
+    default:
+      throw failure(`invalid compact snapshot value tag: ${encoded[0]}`)
+  }
+}
@@ -1,12 +1,18 @@
 import { action, observable, set } from "mobx"
-import { frozen, isFrozenSnapshot } from "../frozen/Frozen"
+import { frozen, frozenKey, isFrozenSnapshot } from "../frozen/Frozen"
 import { AnyModel } from "../model/BaseModel"
-import { isReservedModelKey, modelIdKey, modelTypeKey } from "../model/metadata"
+import { LazyModelProps } from "../model/lazyModelProps"
+import { isReservedModelKey, modelIdKey, modelTypeKey, modelVersionKey } from "../model/metadata"
 import { getModelInfoForName } from "../model/modelInfo"
+import { migrateModelSnapshot } from "../model/modelMigrations"
+import { modelPropertiesSymbol } from "../model/modelSymbols"
+import { ModelProps, noDefaultValue } from "../model/prop"
 import { isModelSnapshot } from "../model/utils"
+import { checkSnapshotRefIntegrity } from "../ref/snapshotRefIntegrity"
 import { tweakArray } from "../tweaker/tweakArray"
 import { tweakPlainObject } from "../tweaker/tweakPlainObject"
 import { failure, isArray, isMap, isPlainObject, isPrimitive, isSet } from "../utils"
+import { setCopyOnWriteCloneSource } from "./copyOnWriteClones"
 import {
   SnapshotInOf,
   SnapshotInOfArray,
@@ -23,11 +29,23 @@ export interface FromSnapshotOptions {
    * Pass `true` to generate new internal ids for models rather than reusing them. (Default is `false`)
    */
   generateNewIds: boolean
+
+  /**
+   * Pass `true` to keep the props of nested models in their snapshot form until they are first
+   * accessed, rather than instantiating the whole tree at once. (Default is `false`)
+   * This option has no effect when `generateNewIds` is `true`.
+   */
+  lazy: boolean
 }
 
 interface FromSnapshotContext {
   options: FromSnapshotOptions
-  snapshotToInitialData(processedSn: SnapshotInOfModel<AnyModel>): any
+  shareSnapshots: boolean
+  cloneSource: object | undefined
+  snapshotToInitialData(
+    processedSn: SnapshotInOfModel<AnyModel>
+  ): { initialData: any; lazyProps: LazyModelProps | undefined }
+  fromLazySnapshot(sn: any): any
 }
 
 /**
@@ -42,20 +60,67 @@ export let fromSnapshot = <T>(
   snapshot: SnapshotInOf<T> | SnapshotOutOf<T>,
   options?: Partial<FromSnapshotOptions>
 ): T => {
+  const obj = fromSnapshotUnchecked<T>(snapshot, options)
+  checkSnapshotRefIntegrity(obj)
+  return obj
+}
+fromSnapshot = action("fromSnapshot", fromSnapshot) as any
+
+/**
+ * @ignore
+ * @internal
+ *
+ * Like `fromSnapshot`, but for objects that are going to become part of a bigger tree, so no
+ * ref integrity checks are done (their refs might point to objects outside of them).
+ */
+export const fromSnapshotUnchecked = action(
+  "fromSnapshot",
+  <T>(snapshot: SnapshotInOf<T> | SnapshotOutOf<T>, options?: Partial<FromSnapshotOptions>): T => {
+    return internalFromSnapshot<T>(snapshot, createFromSnapshotContext(options, false))
+  }
+)
+
+/**
+ * @ignore
+ * @internal
+ *
+ * Like `fromSnapshot` with the `lazy` option, but parts of the given snapshot (which must be the
+ * one returned by `getSnapshot` for the clone source, and therefore immutable) become part of the
+ * snapshot of the new object as they are rather than being copied.
+ * Every object created from it (right away or once instantiated) remembers the clone source.
+ */
+export const fromSnapshotSharingSnapshot = action(
+  "fromSnapshot",
+  <T>(snapshot: SnapshotOutOf<T>, cloneSource: object): T => {
+    return internalFromSnapshot<T>(
+      snapshot,
+      createFromSnapshotContext({ lazy: true }, true, cloneSource)
+    )
+  }
+)
+
+function createFromSnapshotContext(
+  options: Partial<FromSnapshotOptions> | undefined,
+  shareSnapshots: boolean,
+  cloneSource?: object
+): FromSnapshotContext {
   const opts = {
     generateNewIds: false,
+    lazy: false,
     overrideRootModelId: undefined,
     ...options,
   }
 
   const ctx: Partial<FromSnapshotContext> = {
     options: opts,
+    shareSnapshots,
+    cloneSource,
   }
   ctx.snapshotToInitialData = snapshotToInitialData.bind(undefined, ctx as FromSnapshotContext)
+  ctx.fromLazySnapshot = sn => internalFromSnapshot(sn, ctx as FromSnapshotContext)
 
-  return internalFromSnapshot<T>(snapshot, ctx as FromSnapshotContext)
+  return ctx as FromSnapshotContext
 }
-fromSnapshot = action("fromSnapshot", fromSnapshot) as any
 
 function internalFromSnapshot<T>(
   sn: SnapshotInOf<T> | SnapshotOutOf<T>,
@@ -65,6 +130,14 @@ function internalFromSnapshot<T>(
     return sn as any
   }
 
+  const obj = fromObjectSnapshot(sn, ctx)
+  if (ctx.cloneSource) {
+    setCopyOnWriteCloneSource(obj, ctx.cloneSource)
+  }
+  return obj
+}
+
+function fromObjectSnapshot(sn: any, ctx: FromSnapshotContext): any {
   if (isMap(sn)) {
     throw failure("a snapshot must not contain maps")
   }
@@ -130,8 +203,10 @@ function fromModelSnapshot(sn: SnapshotInOfModel<AnyModel>, ctx: FromSnapshotCon
 function snapshotToInitialData(
   ctx: FromSnapshotContext,
   processedSn: SnapshotInOfModel<AnyModel>
-): any {
+): { initialData: any; lazyProps: LazyModelProps | undefined } {
   const initialData = observable.object({}, undefined, observableOptions)
+  const lazy = ctx.options.lazy && !ctx.options.generateNewIds
+  let lazyProps: LazyModelProps | undefined
 
   const processedSnKeys = Object.keys(processedSn)
   const processedSnKeysLen = processedSnKeys.length
@@ -139,10 +214,181 @@ function snapshotToInitialData(
     const k = processedSnKeys[i]
     if (!isReservedModelKey(k)) {
       const v = processedSn[k]
+
+      if (lazy && !isPrimitive(v)) {
+        const lazySn = toLazySnapshot(v, ctx.shareSnapshots)
+        if (lazySn !== notLazy) {
+          if (!lazyProps) {
+            lazyProps = {
+              snapshots: new Map(),
+              fromSnapshot: ctx.fromLazySnapshot,
+            }
+          }
+          lazyProps.snapshots.set(k, lazySn)
+          // the key is kept so the data object gets the same shape
+          set(initialData, k, undefined)
+          continue
+        }
+      }
+
       set(initialData, k, internalFromSnapshot(v, ctx))
     }
   }
-  return initialData
+  return { initialData, lazyProps }
+}
+
+const notLazy = {}
+
+// snapshots already turned into the exact snapshot they would have once instantiated
+const lazySnapshots = new WeakSet<object>()
+
+/**
+ * Turns an input snapshot into the exact snapshot it would have once instantiated,
+ * so it can be part of the snapshot of its parent while it is kept uninstantiated.
+ * Returns `notLazy` when that is not possible without instantiating it.
+ * If `share` is `true` then the input snapshot (or parts of it) will be returned as is
+ * when they already are that snapshot.
+ */
+function toLazySnapshot(sn: any, share: boolean): any {
+  if (isPrimitive(sn) || lazySnapshots.has(sn)) {
+    return sn
+  }
+
+  let lazySn: any
+
+  if (isArray(sn)) {
+    lazySn = []
+    const ln = sn.length
+    for (let i = 0; i < ln; i++) {
+      const v = toLazySnapshot(sn[i], share)
+      if (v === notLazy) {
+        return notLazy
+      }
+      lazySn.push(v)
+    }
+  } else if (isFrozenSnapshot(sn)) {
+    lazySn = { [frozenKey]: true, data: sn.data }
+  } else if (isModelSnapshot(sn)) {
+    lazySn = toLazyModelSnapshot(sn, share)
+    if (lazySn === notLazy) {
+      return notLazy
+    }
+  } else if (isPlainObject(sn)) {
+    lazySn = {}
+    const snKeys = Object.keys(sn)
+    const snKeysLen = snKeys.length
+    for (let i = 0; i < snKeysLen; i++) {
+      const k = snKeys[i]
+      const v = toLazySnapshot((sn as any)[k], share)
+      if (v === notLazy) {
+        return notLazy
+      }
+      lazySn[k] = v
+    }
+  } else {
+    // let it fail when instantiated
+    return notLazy
+  }
+
+  if (share && shallowSnapshotEquals(lazySn, sn)) {
+    lazySn = sn
+  }
+
+  lazySnapshots.add(lazySn)
+  return lazySn
+}
+
+function shallowSnapshotEquals(sn1: any, sn2: any) {
+  if (isArray(sn1)) {
+    if (sn1.length !== sn2.length) {
+      return false
+    }
+    for (let i = 0; i < sn1.length; i++) {
+      if (sn1[i] !== sn2[i]) {
+        return false
+      }
+    }
+    return true
+  }
+
+  const sn1Keys = Object.keys(sn1)
+  if (sn1Keys.length !== Object.keys(sn2).length) {
+    return false
+  }
+  for (let i = 0; i < sn1Keys.length; i++) {
+    const k = sn1Keys[i]
+    if (sn1[k] !== sn2[k] || !(k in sn2)) {
+      return false
+    }
+  }
+  return true
+}
+
+function toLazyModelSnapshot(sn: SnapshotInOfModel<AnyModel>, share: boolean): any {
+  const type = sn[modelTypeKey]
+  const modelInfo = type ? getModelInfoForName(type) : undefined
+  // let invalid snapshots fail when instantiated
+  if (!modelInfo || !sn[modelIdKey]) {
+    return notLazy
+  }
+
+  // input snapshot processors need an actual instance
+  if (modelInfo.class.prototype.fromSnapshot) {
+    return notLazy
+  }
+
+  const migratedSn: any = migrateModelSnapshot(
+    modelInfo.name,
+    modelInfo.version,
+    modelInfo.migrations,
+    sn
+  )
+
+  // same steps (and therefore same key order) as when the model is instantiated
+  const lazySn: any = {}
+  const migratedSnKeys = Object.keys(migratedSn)
+  const migratedSnKeysLen = migratedSnKeys.length
+  for (let i = 0; i < migratedSnKeysLen; i++) {
+    const k = migratedSnKeys[i]
+    if (!isReservedModelKey(k)) {
+      const v = toLazySnapshot(migratedSn[k], share)
+      if (v === notLazy) {
+        return notLazy
+      }
+      lazySn[k] = v
+    }
+  }
+
+  const modelClass = modelInfo.class.prototype.constructor
+  const modelProps: ModelProps = modelClass[modelPropertiesSymbol]
+  const modelPropsKeys = Object.keys(modelProps)
+  for (let i = 0; i < modelPropsKeys.length; i++) {
+    const k = modelPropsKeys[i]
+    const v = lazySn[k]
+    if (v === undefined || v === null) {
+      let newValue: any = v
+      const propData = modelProps[k]
+      if (propData.defaultFn !== noDefaultValue) {
+        newValue = propData.defaultFn()
+      } else if (propData.defaultValue !== noDefaultValue) {
+        newValue = propData.defaultValue
+      }
+      // defaults are instances rather than snapshots, but plain data works as both
+      newValue = toLazySnapshot(newValue, false)
+      if (newValue === notLazy) {
+        return notLazy
+      }
+      lazySn[k] = newValue
+    }
+  }
+
+  lazySn[modelIdKey] = sn[modelIdKey]
+  lazySn[modelTypeKey] = modelInfo.name
+  if (modelInfo.version !== undefined) {
+    lazySn[modelVersionKey] = modelInfo.version
+  }
+
+  return lazySn
 }
 
 function fromPlainObjectSnapshot(sn: SnapshotInOfObject<any>, ctx: FromSnapshotContext): object {
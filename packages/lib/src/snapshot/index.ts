@@ -1,5 +1,7 @@
 export * from "./applySnapshot"
 export * from "./clone"
+export * from "./diffSnapshots"
+export * from "./encodeSnapshot"
 export * from "./fromSnapshot"
 export * from "./getSnapshot"
 export * from "./onSnapshot"
@@ -3,9 +3,10 @@ import { Frozen, frozen, isFrozenSnapshot } from "../frozen/Frozen"
 import { AnyModel } from "../model/BaseModel"
 import { isReservedModelKey, modelIdKey, modelTypeKey } from "../model/metadata"
 import { getModelInfoForName } from "../model/modelInfo"
+import { migrateModelSnapshot } from "../model/modelMigrations"
 import { isModelSnapshot } from "../model/utils"
 import { failure, isArray, isMap, isPlainObject, isPrimitive, isSet } from "../utils"
-import { fromSnapshot } from "./fromSnapshot"
+import { fromSnapshotUnchecked } from "./fromSnapshot"
 import {
   SnapshotInOfArray,
   SnapshotInOfFrozen,
@@ -51,7 +52,7 @@ export function reconcileSnapshot(value: any, sn: any): any {
 function reconcileArraySnapshot(value: any, sn: SnapshotInOfArray<any>): any[] {
   if (!isArray(value)) {
     // no reconciliation possible
-    return fromSnapshot(sn)
+    return fromSnapshotUnchecked(sn)
   }
 
   // remove excess items
@@ -66,7 +67,7 @@ function reconcileArraySnapshot(value: any, sn: SnapshotInOfArray<any>): any[] {
 
   // add excess items
   for (let i = value.length; i < sn.length; i++) {
-    value.push(fromSnapshot(sn[i]))
+    value.push(fromSnapshotUnchecked(sn[i]))
   }
 
   return value
@@ -97,13 +98,18 @@ function reconcileModelSnapshot(value: any, sn: SnapshotInOfModel<AnyModel>): An
     value[modelIdKey] !== id
   ) {
     // different kind of model / model instance, no reconciliation possible
-    return fromSnapshot<AnyModel>(sn)
+    return fromSnapshotUnchecked<AnyModel>(sn)
   }
 
   const modelObj: AnyModel = value
-  let processedSn: any = sn
+  let processedSn: any = migrateModelSnapshot(
+    modelInfo.name,
+    modelInfo.version,
+    modelInfo.migrations,
+    sn
+  )
   if (modelObj.fromSnapshot) {
-    processedSn = modelObj.fromSnapshot(sn)
+    processedSn = modelObj.fromSnapshot(processedSn)
   }
 
   const data = modelObj.$
@@ -137,7 +143,7 @@ function reconcilePlainObjectSnapshot(value: any, sn: SnapshotInOfObject<any>):
   // plain obj
   if (!isPlainObject(value) && !isObservableObject(value)) {
     // no reconciliation possible
-    return fromSnapshot(sn)
+    return fromSnapshotUnchecked(sn)
   }
 
   const plainObj = value
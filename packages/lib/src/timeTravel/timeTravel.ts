@@ -0,0 +1,356 @@
+import { action, computed, IObservableArray, observable } from "mobx"
+import { getCurrentActionContext } from "../action/context"
+import { onOutermostActionEnd } from "../action/outermostActionEnd"
+import { applyPatches } from "../patch/applyPatches"
+import { onPatches, OnPatchesDisposer } from "../patch/emitPatch"
+import { Patch } from "../patch/Patch"
+import { applySnapshot } from "../snapshot/applySnapshot"
+import { fromSnapshot } from "../snapshot/fromSnapshot"
+import { getSnapshot } from "../snapshot/getSnapshot"
+import { SnapshotOutOf } from "../snapshot/SnapshotOf"
+import { assertTweakedObject } from "../tweaker/core"
+import { failure } from "../utils"
+
+/**
+ * An entry of the timeline of a `TimeTravelController`, this is, the state of the tree after
+ * a topmost action (or a change made outside actions) plus the patches that led to it.
+ *
+ * @typeparam T Subtree root type.
+ */
+export interface TimeTravelEntry<T extends object> {
+  /**
+   * Name of the topmost action that generated the entry, or `undefined` for the initial entry
+   * and changes made outside actions.
+   */
+  readonly actionName: string | undefined
+
+  /**
+   * When the entry was created, in milliseconds since the epoch.
+   */
+  readonly timestamp: number
+
+  /**
+   * Snapshot of the subtree root at this point.
+   */
+  readonly snapshot: SnapshotOutOf<T>
+
+  /**
+   * Patches that go from the previous entry to this one.
+   */
+  readonly patches: ReadonlyArray<Patch>
+
+  /**
+   * Patches that go from this entry back to the previous one.
+   */
+  readonly inversePatches: ReadonlyArray<Patch>
+}
+
+/**
+ * Options for `timeTravel`.
+ */
+export interface TimeTravelOptions {
+  /**
+   * Maximum number of entries kept in the timeline. Once exceeded the oldest ones are dropped.
+   * Defaults to `100`.
+   */
+  maxEntries?: number
+}
+
+/**
+ * Entry being recorded, whose snapshot is taken once the action that generated it finishes.
+ */
+interface PendingEntry {
+  readonly rootContext: object | undefined
+  readonly actionName: string | undefined
+  readonly timestamp: number
+  readonly patches: Patch[]
+  // chunks of inverse patches, in the order they were generated
+  readonly inversePatchChunks: Patch[][]
+  // if it updates the last entry of the timeline rather than adding a new one
+  readonly updatesLastEntry: boolean
+}
+
+/**
+ * Time travel controller class returned by `timeTravel`.
+ *
+ * @typeparam T Subtree root type.
+ */
+export class TimeTravelController<T extends object> {
+  private readonly entries: IObservableArray<TimeTravelEntry<T>>
+
+  private readonly indexBox = observable.box(0)
+
+  private readonly maxEntries: number
+
+  private traveling = false
+
+  // root action context of the last entry, so changes of the same action go to the same entry
+  private lastEntryRootContext: object | undefined
+
+  private pendingEntry: PendingEntry | undefined
+
+  private readonly outermostActionEndDisposer: () => void
+
+  /**
+   * The timeline, from the oldest entry to the newest one.
+   * Changes made by an action only become part of it once the action finishes.
+   */
+  get timeline(): ReadonlyArray<TimeTravelEntry<T>> {
+    return this.entries
+  }
+
+  /**
+   * Index in the timeline of the entry the tree is currently at.
+   */
+  get currentIndex() {
+    return this.indexBox.get()
+  }
+
+  /**
+   * The entry the tree is currently at.
+   */
+  @computed
+  get currentEntry(): TimeTravelEntry<T> {
+    return this.entries[this.currentIndex]
+  }
+
+  /**
+   * If the tree is at the newest entry of the timeline.
+   */
+  @computed
+  get isAtLatest() {
+    return this.currentIndex === this.entries.length - 1
+  }
+
+  /**
+   * @ignore
+   */
+  _addPatches(
+    rootContext: object | undefined,
+    actionName: string | undefined,
+    patches: Patch[],
+    inversePatches: Patch[]
+  ) {
+    if (this.traveling) {
+      return
+    }
+
+    let pendingEntry = this.pendingEntry
+    if (pendingEntry && (!rootContext || rootContext !== pendingEntry.rootContext)) {
+      this._commitPendingEntry()
+      pendingEntry = undefined
+    }
+
+    if (!pendingEntry) {
+      const lastEntry = this.entries[this.entries.length - 1]
+      const updatesLastEntry =
+        this.isAtLatest && !!rootContext && rootContext === this.lastEntryRootContext
+      pendingEntry = this.pendingEntry = updatesLastEntry
+        ? {
+            rootContext,
+            actionName: lastEntry.actionName,
+            timestamp: lastEntry.timestamp,
+            patches: lastEntry.patches.slice(),
+            inversePatchChunks: [lastEntry.inversePatches.slice()],
+            updatesLastEntry,
+          }
+        : {
+            rootContext,
+            actionName,
+            timestamp: Date.now(),
+            patches: [],
+            inversePatchChunks: [],
+            updatesLastEntry,
+          }
+    }
+
+    pendingEntry.patches.push(...patches)
+    pendingEntry.inversePatchChunks.push(inversePatches)
+
+    if (!rootContext) {
+      // changes made outside actions are committed right away
+      this._commitPendingEntry()
+    }
+  }
+
+  /**
+   * @ignore
+   *
+   * Adds the entry being recorded (if any) to the timeline, along with the current snapshot.
+   */
+  @action
+  _commitPendingEntry() {
+    const pendingEntry = this.pendingEntry
+    if (!pendingEntry) {
+      return
+    }
+    this.pendingEntry = undefined
+
+    const inversePatches: Patch[] = []
+    for (let i = pendingEntry.inversePatchChunks.length - 1; i >= 0; i--) {
+      inversePatches.push(...pendingEntry.inversePatchChunks[i])
+    }
+
+    const entry: TimeTravelEntry<T> = {
+      actionName: pendingEntry.actionName,
+      timestamp: pendingEntry.timestamp,
+      snapshot: getSnapshot(this.subtreeRoot),
+      patches: pendingEntry.patches,
+      inversePatches,
+    }
+
+    if (pendingEntry.updatesLastEntry) {
+      this.entries[this.entries.length - 1] = entry
+      return
+    }
+
+    // changing a past state forks the timeline, so the entries after it are dropped
+    this.entries.splice(this.currentIndex + 1)
+
+    this.entries.push(entry)
+    this.lastEntryRootContext = pendingEntry.rootContext
+
+    const excess = this.entries.length - this.maxEntries
+    if (excess > 0) {
+      this.entries.splice(0, excess)
+      // the new oldest entry has no previous one anymore
+      this.entries[0] = { ...this.entries[0], patches: [], inversePatches: [] }
+    }
+    this.indexBox.set(this.entries.length - 1)
+  }
+
+  /**
+   * Moves the tree to the state of the given timeline entry.
+   * When moving to an adjacent entry its patches are used, otherwise its snapshot is applied.
+   *
+   * Making changes to the tree while it is not at the newest entry forks the timeline, this is,
+   * all entries after the current one are dropped.
+   *
+   * @param index Timeline entry index.
+   */
+  @action
+  travelTo(index: number): void {
+    // changes made so far by the running action (if any) become an entry
+    this._commitPendingEntry()
+
+    if (!Number.isInteger(index) || index < 0 || index >= this.entries.length) {
+      throw failure(`timeline entry index out of range: ${index}`)
+    }
+    const currentIndex = this.currentIndex
+    if (index === currentIndex) {
+      return
+    }
+
+    this.traveling = true
+    try {
+      if (index === currentIndex + 1) {
+        applyPatches(this.subtreeRoot, this.entries[index].patches)
+      } else if (index === currentIndex - 1) {
+        applyPatches(this.subtreeRoot, this.entries[currentIndex].inversePatches)
+      } else {
+        applySnapshot(this.subtreeRoot, this.entries[index].snapshot)
+      }
+    } finally {
+      this.traveling = false
+    }
+
+    this.indexBox.set(index)
+    this.lastEntryRootContext = undefined
+  }
+
+  /**
+   * Creates a new tree from the state of a given timeline entry, which can then be modified
+   * without affecting the tree being time traveled.
+   *
+   * @param [index] Timeline entry index, the current one if not provided.
+   * @returns The new tree.
+   */
+  fork(index = this.currentIndex): T {
+    const entry = this.entries[index]
+    if (!entry) {
+      throw failure(`timeline entry index out of range: ${index}`)
+    }
+    return fromSnapshot<T>(entry.snapshot)
+  }
+
+  /**
+   * Stops recording new timeline entries.
+   */
+  dispose() {
+    this.disposer()
+    this.outermostActionEndDisposer()
+    this._commitPendingEntry()
+  }
+
+  /**
+   * Creates an instance of TimeTravelController.
+   * Do not use directly, use `timeTravel` instead.
+   *
+   * @param disposer
+   * @param subtreeRoot
+   * @param [options]
+   */
+  constructor(
+    private readonly disposer: OnPatchesDisposer,
+    private readonly subtreeRoot: T,
+    options?: TimeTravelOptions
+  ) {
+    this.maxEntries = options && options.maxEntries !== undefined ? options.maxEntries : 100
+    if (!Number.isInteger(this.maxEntries) || this.maxEntries < 1) {
+      throw failure("maxEntries must be a positive integer")
+    }
+
+    const initialEntry: TimeTravelEntry<T> = {
+      actionName: undefined,
+      timestamp: Date.now(),
+      snapshot: getSnapshot(subtreeRoot),
+      patches: [],
+      inversePatches: [],
+    }
+    this.entries = observable.array([initialEntry], { deep: false })
+
+    // the state of the tree after an action is known once it finishes
+    this.outermostActionEndDisposer = onOutermostActionEnd(() => {
+      this._commitPendingEntry()
+    })
+  }
+}
+
+/**
+ * Creates a time travel controller over a subtree, which keeps a bounded timeline with the
+ * snapshot and patches generated by every topmost action (or change made outside actions),
+ * allows moving the tree to any of those points with `travelTo` and creating new trees from
+ * them with `fork`. The timeline is observable.
+ *
+ * @typeparam T Subtree root type.
+ * @param subtreeRoot Subtree root target object.
+ * @param [options] Time travel options.
+ * @returns A `TimeTravelController`.
+ */
+export function timeTravel<T extends object>(
+  subtreeRoot: T,
+  options?: TimeTravelOptions
+): TimeTravelController<T> {
+  assertTweakedObject(subtreeRoot, "subtreeRoot")
+
+  let controller: TimeTravelController<T> | undefined
+
+  const disposer = onPatches(subtreeRoot, (patches, inversePatches) => {
+    const ctx = getCurrentActionContext()
+    const rootContext = ctx && ctx.rootContext
+    controller!._addPatches(
+      rootContext,
+      rootContext && rootContext.actionName,
+      patches,
+      inversePatches
+    )
+  })
+
+  try {
+    controller = new TimeTravelController(disposer, subtreeRoot, options)
+  } catch (e) {
+    disposer()
+    throw e
+  }
+  return controller
+}
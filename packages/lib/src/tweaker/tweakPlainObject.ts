@@ -7,9 +7,12 @@ import {
   observe,
   set,
 } from "mobx"
-import { modelTypeKey } from "../model/metadata"
+import { AnyModel } from "../model/BaseModel"
+import { modelTypeKey, modelVersionKey } from "../model/metadata"
+import { getModelInfoForName } from "../model/modelInfo"
 import { dataToModelNode } from "../parent/core"
 import { ParentPath } from "../parent/path"
+import { reportModelPropChangedToIndexes } from "../parent/treeIndex"
 import { setParent } from "../parent/setParent"
 import { InternalPatchRecorder } from "../patch/emitPatch"
 import { getInternalSnapshot, setInternalSnapshot } from "../snapshot/internal"
@@ -77,6 +80,11 @@ export function tweakPlainObject<T>(
 
   if (snapshotModelType) {
     standardSn[modelTypeKey] = snapshotModelType
+
+    const modelInfo = getModelInfoForName(snapshotModelType)
+    if (modelInfo && modelInfo.version !== undefined) {
+      standardSn[modelVersionKey] = modelInfo.version
+    }
   }
 
   setInternalSnapshot(isDataObject ? dataToModelNode(tweakedObj) : tweakedObj, standardSn)
@@ -91,7 +99,35 @@ const observableOptions = {
   deep: false,
 }
 
+let quietChange: { readonly obj: object; readonly key: string } | undefined
+
+function isQuietChange(change: IObjectWillChange | IObjectDidChange) {
+  return !!quietChange && quietChange.obj === change.object && quietChange.key === change.name
+}
+
+/**
+ * @ignore
+ * @internal
+ *
+ * Sets a property of a tweaked plain object without it being considered a change
+ * (no write protection checks, snapshot updates, patches or type checking).
+ * Used to replace values that are already part of the snapshot in some other form.
+ */
+export function setQuietly(obj: object, key: string, value: any) {
+  const oldQuietChange = quietChange
+  quietChange = { obj, key }
+  try {
+    set(obj, key, value)
+  } finally {
+    quietChange = oldQuietChange
+  }
+}
+
 function objectDidChange(change: IObjectDidChange): void {
+  if (isQuietChange(change)) {
+    return
+  }
+
   const obj = change.object
   const actualNode = dataToModelNode(obj)
   let { standard: standardSn } = getInternalSnapshot(actualNode)!
@@ -179,6 +215,16 @@ function objectDidChange(change: IObjectDidChange): void {
       break
   }
 
+  // model props might be indexed
+  if (actualNode !== obj) {
+    reportModelPropChangedToIndexes(
+      actualNode as AnyModel,
+      change.name as string,
+      change.type === "add" ? undefined : change.oldValue,
+      change.type === "remove" ? undefined : change.newValue
+    )
+  }
+
   runTypeCheckingAfterChange(obj, patchRecorder)
 
   if (!runningWithoutSnapshotOrPatches) {
@@ -188,7 +234,9 @@ function objectDidChange(change: IObjectDidChange): void {
 }
 
 function interceptObjectMutation(change: IObjectWillChange) {
-  assertCanWrite()
+  if (!isQuietChange(change)) {
+    assertCanWrite()
+  }
 
   if (typeof change.name === "symbol") {
     throw failure("symbol properties are not supported")
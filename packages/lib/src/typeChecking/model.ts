@@ -1,7 +1,11 @@
 import { AnyModel, ModelClass } from "../model/BaseModel"
 import { getModelDataType } from "../model/getModelDataType"
+import { getLazyModelData } from "../model/lazyModelProps"
 import { modelInfoByClass } from "../model/modelInfo"
+import { modelPropertiesSymbol } from "../model/modelSymbols"
+import { ModelProps, noTypeChecker } from "../model/prop"
 import { assertIsModelClass, isModelClass } from "../model/utils"
+import { Path } from "../parent/pathTypes"
 import { failure } from "../utils"
 import { resolveTypeChecker } from "./resolveTypeChecker"
 import { IdentityType } from "./schemas"
@@ -61,6 +65,11 @@ export function typesModel<M = never>(modelClass: object): IdentityType<M> {
           )
         }
 
+        const lazyModelData = getLazyModelData(value)
+        if (lazyModelData) {
+          return checkLazyModelData(value, lazyModelData.data, lazyModelData.pendingProps, path)
+        }
+
         const resolvedTc = resolveTypeChecker(dataTypeChecker)
         if (!resolvedTc.unchecked) {
           return resolvedTc.check(value.$, path)
@@ -76,3 +85,28 @@ export function typesModel<M = never>(modelClass: object): IdentityType<M> {
 
   return tc as any
 }
+
+/**
+ * Type checks the data of a model with props still in their snapshot form, skipping those
+ * (they will be type checked once instantiated) so accessing `$` does not instantiate them.
+ */
+function checkLazyModelData(
+  model: AnyModel,
+  data: any,
+  pendingProps: ReadonlyMap<string, any>,
+  path: Path
+): TypeCheckError | null {
+  const modelProps: ModelProps = (model.constructor as any)[modelPropertiesSymbol]
+  for (const [k, modelProp] of Object.entries(modelProps)) {
+    if (pendingProps.has(k) || modelProp.typeChecker === noTypeChecker) {
+      continue
+    }
+
+    const tc = resolveTypeChecker(modelProp.typeChecker)
+    const valueError = !tc.unchecked ? tc.check(data[k], [...path, k]) : null
+    if (valueError) {
+      return valueError
+    }
+  }
+  return null
+}
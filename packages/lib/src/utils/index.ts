@@ -169,6 +169,16 @@ export function assertIsObject(value: any, argName: string): void {
   }
 }
 
+/**
+ * @ignore
+ * @internal
+ */
+export function assertIsArray(value: any, argName: string): void {
+  if (!isArray(value)) {
+    throw failure(`${argName} must be an array`)
+  }
+}
+
 /**
  * @ignore
  * @internal
@@ -179,6 +189,16 @@ export function assertIsFunction(value: any, argName: string): void {
   }
 }
 
+/**
+ * @ignore
+ * @internal
+ */
+export function assertIsString(value: any, argName: string): void {
+  if (typeof value !== "string") {
+    throw failure(`${argName} must be a string`)
+  }
+}
+
 /**
  * @ignore
  * @internal
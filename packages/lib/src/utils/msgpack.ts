@@ -0,0 +1,413 @@
+import { failure, isPlainObject } from "."
+
+// minimal MessagePack (https://msgpack.org) encoder / decoder for JSON-like values,
+// undefined values are encoded as nil, except inside objects, where (as in JSON) they are skipped
+
+class Writer {
+  private bytes = new Uint8Array(256)
+  private view = new DataView(this.bytes.buffer)
+  length = 0
+
+  private ensure(extra: number) {
+    const needed = this.length + extra
+    if (needed <= this.bytes.length) {
+      return
+    }
+    let size = this.bytes.length * 2
+    while (size < needed) {
+      size *= 2
+    }
+    const bytes = new Uint8Array(size)
+    bytes.set(this.bytes)
+    this.bytes = bytes
+    this.view = new DataView(bytes.buffer)
+  }
+
+  u8(v: number) {
+    this.ensure(1)
+    this.bytes[this.length++] = v
+  }
+
+  u16(v: number) {
+    this.ensure(2)
+    this.view.setUint16(this.length, v)
+    this.length += 2
+  }
+
+  u32(v: number) {
+    this.ensure(4)
+    this.view.setUint32(this.length, v)
+    this.length += 4
+  }
+
+  i8(v: number) {
+    this.ensure(1)
+    this.view.setInt8(this.length, v)
+    this.length += 1
+  }
+
+  i16(v: number) {
+    this.ensure(2)
+    this.view.setInt16(this.length, v)
+    this.length += 2
+  }
+
+  i32(v: number) {
+    this.ensure(4)
+    this.view.setInt32(this.length, v)
+    this.length += 4
+  }
+
+  f64(v: number) {
+    this.ensure(8)
+    this.view.setFloat64(this.length, v)
+    this.length += 8
+  }
+
+  utf8(str: string, byteLength: number) {
+    this.ensure(byteLength)
+    const bytes = this.bytes
+    let pos = this.length
+    for (let i = 0; i < str.length; i++) {
+      let c = str.charCodeAt(i)
+      if (c < 0x80) {
+        bytes[pos++] = c
+      } else if (c < 0x800) {
+        bytes[pos++] = 0xc0 | (c >> 6)
+        bytes[pos++] = 0x80 | (c & 0x3f)
+      } else {
+        if (c >= 0xd800 && c <= 0xdbff && i + 1 < str.length) {
+          const next = str.charCodeAt(i + 1)
+          if (next >= 0xdc00 && next <= 0xdfff) {
+            i++
+            c = 0x10000 + ((c - 0xd800) << 10) + (next - 0xdc00)
+            bytes[pos++] = 0xf0 | (c >> 18)
+            bytes[pos++] = 0x80 | ((c >> 12) & 0x3f)
+            bytes[pos++] = 0x80 | ((c >> 6) & 0x3f)
+            bytes[pos++] = 0x80 | (c & 0x3f)
+            continue
+          }
+        }
+        bytes[pos++] = 0xe0 | (c >> 12)
+        bytes[pos++] = 0x80 | ((c >> 6) & 0x3f)
+        bytes[pos++] = 0x80 | (c & 0x3f)
+      }
+    }
+    this.length = pos
+  }
+
+  toBytes() {
+    return this.bytes.slice(0, this.length)
+  }
+}
+
+function writeLength(w: Writer, len: number, fix: number, fixMax: number, op16: number) {
+  if (len <= fixMax) {
+    w.u8(fix | len)
+  } else if (len <= 0xffff) {
+    w.u8(op16)
+    w.u16(len)
+  } else {
+    w.u8(op16 + 1)
+    w.u32(len)
+  }
+}
+
+function utf8Length(str: string) {
+  let len = 0
+  for (let i = 0; i < str.length; i++) {
+    const c = str.charCodeAt(i)
+    if (c < 0x80) {
+      len += 1
+    } else if (c < 0x800) {
+      len += 2
+    } else if (c >= 0xd800 && c <= 0xdbff && i + 1 < str.length) {
+      const next = str.charCodeAt(i + 1)
+      if (next >= 0xdc00 && next <= 0xdfff) {
+        i++
+        len += 4
+      } else {
+        len += 3
+      }
+    } else {
+      len += 3
+    }
+  }
+  return len
+}
+
+function writeString(w: Writer, str: string) {
+  const len = utf8Length(str)
+  if (len <= 31) {
+    w.u8(0xa0 | len)
+  } else if (len <= 0xff) {
+    w.u8(0xd9)
+    w.u8(len)
+  } else if (len <= 0xffff) {
+    w.u8(0xda)
+    w.u16(len)
+  } else {
+    w.u8(0xdb)
+    w.u32(len)
+  }
+  w.utf8(str, len)
+}
+
+function writeNumber(w: Writer, n: number) {
+  if (!Number.isInteger(n) || Object.is(n, -0)) {
+    w.u8(0xcb)
+    w.f64(n)
+  } else if (n >= 0) {
+    if (n <= 0x7f) {
+      w.u8(n)
+    } else if (n <= 0xff) {
+      w.u8(0xcc)
+      w.u8(n)
+    } else if (n <= 0xffff) {
+      w.u8(0xcd)
+      w.u16(n)
+    } else if (n <= 0xffffffff) {
+      w.u8(0xce)
+      w.u32(n)
+    } else {
+      w.u8(0xcb)
+      w.f64(n)
+    }
+  } else {
+    if (n >= -32) {
+      w.i8(n)
+    } else if (n >= -0x80) {
+      w.u8(0xd0)
+      w.i8(n)
+    } else if (n >= -0x8000) {
+      w.u8(0xd1)
+      w.i16(n)
+    } else if (n >= -0x80000000) {
+      w.u8(0xd2)
+      w.i32(n)
+    } else {
+      w.u8(0xcb)
+      w.f64(n)
+    }
+  }
+}
+
+function writeValue(w: Writer, value: any): void {
+  switch (typeof value) {
+    case "undefined":
+      w.u8(0xc0)
+      return
+    case "boolean":
+      w.u8(value ? 0xc3 : 0xc2)
+      return
+    case "number":
+      writeNumber(w, value)
+      return
+    case "string":
+      writeString(w, value)
+      return
+  }
+
+  if (value === null) {
+    w.u8(0xc0)
+  } else if (Array.isArray(value)) {
+    writeLength(w, value.length, 0x90, 15, 0xdc)
+    for (let i = 0; i < value.length; i++) {
+      writeValue(w, value[i])
+    }
+  } else if (isPlainObject(value)) {
+    const keys = Object.keys(value).filter(k => (value as any)[k] !== undefined)
+    writeLength(w, keys.length, 0x80, 15, 0xde)
+    for (let i = 0; i < keys.length; i++) {
+      const k = keys[i]
+      writeString(w, k)
+      writeValue(w, (value as any)[k])
+    }
+  } else {
+    throw failure(`value cannot be encoded: ${String(value)}`)
+  }
+}
+
+/**
+ * @ignore
+ * @internal
+ */
+export function encodeMsgPack(value: any): Uint8Array {
+  const w = new Writer()
+  writeValue(w, value)
+  return w.toBytes()
+}
+
+class Reader {
+  private readonly view: DataView
+  pos = 0
+
+  constructor(private readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  }
+
+  private advance(n: number) {
+    const pos = this.pos
+    if (pos + n > this.bytes.length) {
+      throw failure("unexpected end of binary data")
+    }
+    this.pos += n
+    return pos
+  }
+
+  u8() {
+    return this.bytes[this.advance(1)]
+  }
+
+  u16() {
+    return this.view.getUint16(this.advance(2))
+  }
+
+  u32() {
+    return this.view.getUint32(this.advance(4))
+  }
+
+  i8() {
+    return this.view.getInt8(this.advance(1))
+  }
+
+  i16() {
+    return this.view.getInt16(this.advance(2))
+  }
+
+  i32() {
+    return this.view.getInt32(this.advance(4))
+  }
+
+  f32() {
+    return this.view.getFloat32(this.advance(4))
+  }
+
+  f64() {
+    return this.view.getFloat64(this.advance(8))
+  }
+
+  utf8(len: number) {
+    const bytes = this.bytes
+    let pos = this.advance(len)
+    const end = pos + len
+    let str = ""
+    while (pos < end) {
+      const b = bytes[pos++]
+      let c: number
+      if (b < 0x80) {
+        c = b
+      } else if (b < 0xe0) {
+        c = ((b & 0x1f) << 6) | (bytes[pos++] & 0x3f)
+      } else if (b < 0xf0) {
+        c = ((b & 0x0f) << 12) | ((bytes[pos++] & 0x3f) << 6) | (bytes[pos++] & 0x3f)
+      } else {
+        c =
+          ((b & 0x07) << 18) |
+          ((bytes[pos++] & 0x3f) << 12) |
+          ((bytes[pos++] & 0x3f) << 6) |
+          (bytes[pos++] & 0x3f)
+      }
+      if (c > 0xffff) {
+        c -= 0x10000
+        str += String.fromCharCode(0xd800 + (c >> 10), 0xdc00 + (c & 0x3ff))
+      } else {
+        str += String.fromCharCode(c)
+      }
+    }
+    return str
+  }
+}
+
+function readArray(r: Reader, len: number) {
+  const arr = new Array(len)
+  for (let i = 0; i < len; i++) {
+    arr[i] = readValue(r)
+  }
+  return arr
+}
+
+function readMap(r: Reader, len: number) {
+  const obj: any = {}
+  for (let i = 0; i < len; i++) {
+    const k = readValue(r)
+    if (typeof k !== "string") {
+      throw failure("binary data map keys must be strings")
+    }
+    obj[k] = readValue(r)
+  }
+  return obj
+}
+
+function readValue(r: Reader): any {
+  const b = r.u8()
+  if (b <= 0x7f) {
+    return b
+  }
+  if (b >= 0xe0) {
+    return b - 0x100
+  }
+  if (b >= 0xa0 && b <= 0xbf) {
+    return r.utf8(b & 0x1f)
+  }
+  if (b >= 0x90 && b <= 0x9f) {
+    return readArray(r, b & 0x0f)
+  }
+  if (b >= 0x80 && b <= 0x8f) {
+    return readMap(r, b & 0x0f)
+  }
+
+  switch (b) {
+    case 0xc0:
+      return null
+    case 0xc2:
+      return false
+    case 0xc3:
+      return true
+    case 0xca:
+      return r.f32()
+    case 0xcb:
+      return r.f64()
+    case 0xcc:
+      return r.u8()
+    case 0xcd:
+      return r.u16()
+    case 0xce:
+      return r.u32()
+    case 0xd0:
+      return r.i8()
+    case 0xd1:
+      return r.i16()
+    case 0xd2:
+      return r.i32()
+    case 0xd9:
+      return r.utf8(r.u8())
+    case 0xda:
+      return r.utf8(r.u16())
+    case 0xdb:
+      return r.utf8(r.u32())
+    case 0xdc:
+      return readArray(r, r.u16())
+    case 0xdd:
+      return readArray(r, r.u32())
+    case 0xde:
+      return readMap(r, r.u16())
+    case 0xdf:
+      return readMap(r, r.u32())
+    default:
+      throw failure(`unsupported binary data type: 0x${b.toString(16)}`)
+  }
+}
+
+/**
+ * @ignore
+ * @internal
+ */
+export function decodeMsgPack(bytes: Uint8Array): any {
+  const r = new Reader(bytes)
+  const value = readValue(r)
+  if (r.pos !== bytes.length) {
+    throw failure("unexpected trailing binary data")
+  }
+  return value
+}
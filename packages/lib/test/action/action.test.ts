@@ -88,6 +88,7 @@ test("action tracking", () => {
             1,
           ],
           "data": Object {},
+          "origin": "direct",
           "parentContext": undefined,
           "rootContext": [Circular],
           "target": P {
@@ -115,6 +116,7 @@ test("action tracking", () => {
             1,
           ],
           "data": Object {},
+          "origin": "direct",
           "parentContext": undefined,
           "rootContext": [Circular],
           "target": P {
@@ -151,6 +153,7 @@ test("action tracking", () => {
             2,
           ],
           "data": Object {},
+          "origin": "direct",
           "parentContext": undefined,
           "rootContext": [Circular],
           "target": P2 {
@@ -170,6 +173,7 @@ test("action tracking", () => {
             2,
           ],
           "data": Object {},
+          "origin": "direct",
           "parentContext": undefined,
           "rootContext": [Circular],
           "target": P2 {
@@ -199,6 +203,7 @@ test("action tracking", () => {
             2,
           ],
           "data": Object {},
+          "origin": "direct",
           "parentContext": undefined,
           "rootContext": [Circular],
           "target": P {
@@ -226,6 +231,7 @@ test("action tracking", () => {
             1,
           ],
           "data": Object {},
+          "origin": "direct",
           "parentContext": Object {
             "actionName": "addXY",
             "args": Array [
@@ -233,6 +239,7 @@ test("action tracking", () => {
               2,
             ],
             "data": Object {},
+            "origin": "direct",
             "parentContext": undefined,
             "rootContext": [Circular],
             "target": P {
@@ -258,6 +265,7 @@ test("action tracking", () => {
               2,
             ],
             "data": Object {},
+            "origin": "direct",
             "parentContext": undefined,
             "rootContext": [Circular],
             "target": P {
@@ -301,6 +309,7 @@ test("action tracking", () => {
             1,
           ],
           "data": Object {},
+          "origin": "direct",
           "parentContext": Object {
             "actionName": "addXY",
             "args": Array [
@@ -308,6 +317,7 @@ test("action tracking", () => {
               2,
             ],
             "data": Object {},
+            "origin": "direct",
             "parentContext": undefined,
             "rootContext": [Circular],
             "target": P {
@@ -333,6 +343,7 @@ test("action tracking", () => {
               2,
             ],
             "data": Object {},
+            "origin": "direct",
             "parentContext": undefined,
             "rootContext": [Circular],
             "target": P {
@@ -377,6 +388,7 @@ test("action tracking", () => {
             2,
           ],
           "data": Object {},
+          "origin": "direct",
           "parentContext": Object {
             "actionName": "addXY",
             "args": Array [
@@ -384,6 +396,7 @@ test("action tracking", () => {
               2,
             ],
             "data": Object {},
+            "origin": "direct",
             "parentContext": undefined,
             "rootContext": [Circular],
             "target": P {
@@ -409,6 +422,7 @@ test("action tracking", () => {
               2,
             ],
             "data": Object {},
+            "origin": "direct",
             "parentContext": undefined,
             "rootContext": [Circular],
             "target": P {
@@ -444,6 +458,7 @@ test("action tracking", () => {
             2,
           ],
           "data": Object {},
+          "origin": "direct",
           "parentContext": Object {
             "actionName": "addXY",
             "args": Array [
@@ -451,6 +466,7 @@ test("action tracking", () => {
               2,
             ],
             "data": Object {},
+            "origin": "direct",
             "parentContext": undefined,
             "rootContext": [Circular],
             "target": P {
@@ -476,6 +492,7 @@ test("action tracking", () => {
               2,
             ],
             "data": Object {},
+            "origin": "direct",
             "parentContext": undefined,
             "rootContext": [Circular],
             "target": P {
@@ -513,6 +530,7 @@ test("action tracking", () => {
             2,
           ],
           "data": Object {},
+          "origin": "direct",
           "parentContext": undefined,
           "rootContext": [Circular],
           "target": P {
@@ -0,0 +1,139 @@
+import {
+  ActionContextOrigin,
+  addActionMiddleware,
+  applyAction,
+  applySerializedActionAndSyncNewModelIds,
+  applySerializedActionAndTrackNewModelIds,
+  applySnapshot,
+  getSnapshot,
+  model,
+  Model,
+  modelAction,
+  modelFlow,
+  onActionMiddleware,
+  prop,
+  registerRootStore,
+  serializeActionCall,
+  SimpleActionContext,
+} from "../../src"
+import "../commonSetup"
+import { autoDispose } from "../utils"
+
+@model("actionOrigin/Counter")
+class Counter extends Model({
+  value: prop(0),
+}) {
+  onAttachedToRootStore() {
+    this.inc()
+  }
+
+  @modelAction
+  inc() {
+    this.value++
+  }
+
+  @modelAction
+  incTwice() {
+    this.inc()
+    this.inc()
+  }
+
+  // not an action itself
+  incTwiceUnwrapped() {
+    this.inc()
+    this.inc()
+  }
+
+  @modelFlow
+  *incLater() {
+    yield Promise.resolve()
+    this.inc()
+  }
+}
+
+function trackOrigins(counter: Counter) {
+  const origins: string[] = []
+  autoDispose(
+    addActionMiddleware({
+      subtreeRoot: counter,
+      middleware(ctx, next) {
+        origins.push(`${ctx.actionName}: ${ctx.origin}`)
+        return next()
+      },
+    })
+  )
+  return origins
+}
+
+test("direct, hook and built-in actions", () => {
+  const counter = new Counter({})
+  const origins = trackOrigins(counter)
+
+  counter.incTwice()
+  expect(origins).toEqual(["incTwice: direct", "inc: direct", "inc: direct"])
+
+  origins.length = 0
+  registerRootStore(counter)
+  expect(origins).toEqual(["$$onAttachedToRootStore: hook", "inc: hook"])
+
+  origins.length = 0
+  applySnapshot(counter, { ...getSnapshot(counter), value: 10 })
+  expect(origins).toEqual(["$$applySnapshot: builtIn"])
+})
+
+test("applied actions", () => {
+  const counter = new Counter({})
+  const origins = trackOrigins(counter)
+
+  const call = { actionName: "incTwice", args: [], targetPath: [], targetPathIds: [] }
+  applyAction(counter, call)
+  expect(origins).toEqual(["incTwice: applyAction", "inc: applyAction", "inc: applyAction"])
+
+  origins.length = 0
+  const serializedCall = serializeActionCall(call)
+  const { serializedActionCall } = applySerializedActionAndTrackNewModelIds(counter, serializedCall)
+  expect(origins).toEqual(["incTwice: serialized", "inc: serialized", "inc: serialized"])
+
+  origins.length = 0
+  applySerializedActionAndSyncNewModelIds(counter, serializedActionCall)
+  expect(origins).toEqual([
+    "incTwice: serialized",
+    "inc: serialized",
+    "inc: serialized",
+    "$$applyPatches: serialized",
+  ])
+
+  // every action run by an applied function that is not an action itself gets the origin
+  origins.length = 0
+  applyAction(counter, { ...call, actionName: "incTwiceUnwrapped" })
+  expect(origins).toEqual(["inc: applyAction", "inc: applyAction"])
+
+  // actions run afterwards are direct again
+  origins.length = 0
+  counter.inc()
+  expect(origins).toEqual(["inc: direct"])
+})
+
+test("flows and simplified contexts", async () => {
+  const counter = new Counter({})
+  const origins = trackOrigins(counter)
+
+  const contexts: SimpleActionContext[] = []
+  autoDispose(
+    onActionMiddleware(counter, {
+      onFinish(_, ctx) {
+        contexts.push(ctx)
+      },
+    })
+  )
+
+  await applyAction(counter, {
+    actionName: "incLater",
+    args: [],
+    targetPath: [],
+    targetPathIds: [],
+  })
+  // every step of the flow keeps its origin
+  expect(new Set(origins)).toEqual(new Set(["incLater: applyAction", "inc: applyAction"]))
+  expect(contexts.map(ctx => ctx.origin)).toEqual([ActionContextOrigin.ApplyAction])
+})
@@ -130,6 +130,7 @@ test("flow", async () => {
               "state": "finished",
             },
           },
+          "origin": "direct",
           "parentContext": undefined,
           "rootContext": [Circular],
           "target": P {
@@ -182,6 +183,7 @@ test("flow", async () => {
               "state": "finished",
             },
           },
+          "origin": "direct",
           "parentContext": undefined,
           "rootContext": [Circular],
           "target": P {
@@ -236,6 +238,7 @@ test("flow", async () => {
               "state": "finished",
             },
           },
+          "origin": "direct",
           "parentContext": undefined,
           "rootContext": [Circular],
           "target": P {
@@ -0,0 +1,139 @@
+import {
+  applySerializedActionAndSyncNewModelIds,
+  applySerializedActionAndTrackNewModelIds,
+  model,
+  Model,
+  modelAction,
+  ModelAutoTypeCheckingMode,
+  prop,
+  serializeActionCall,
+  setGlobalConfig,
+  tProp,
+  types,
+} from "../../src"
+import "../commonSetup"
+
+@model("modelActionArgTypes/Point")
+class Point extends Model({
+  x: tProp(types.number, 0),
+  y: tProp(types.number, 0),
+}) {}
+
+@model("modelActionArgTypes/M")
+class M extends Model({
+  points: prop<Point[]>(() => []),
+  tags: prop<string[]>(() => []),
+}) {
+  @modelAction({ argTypes: [types.number, types.maybe(types.number)] })
+  addPoint(x: number, y?: number) {
+    this.points.push(new Point({ x, y }))
+  }
+
+  @modelAction({ argTypes: [types.array(types.string)] })
+  addTags = (tags: string[]) => {
+    this.tags.push(...tags)
+  }
+
+  @modelAction({ argTypes: [types.model<Point>(Point)] })
+  addPointModel(p: Point) {
+    this.points.push(p)
+  }
+
+  @modelAction
+  addTag(tag: string) {
+    this.tags.push(tag)
+  }
+}
+
+afterEach(() => {
+  setGlobalConfig({
+    modelAutoTypeChecking: ModelAutoTypeCheckingMode.DevModeOnly,
+  })
+})
+
+test("local calls are type-checked", () => {
+  const m = new M({})
+
+  m.addPoint(1)
+  m.addPoint(2, 3)
+  m.addTags(["a", "b"])
+  m.addPointModel(new Point({ x: 4 }))
+  expect(m.points.map(p => [p.x, p.y])).toEqual([
+    [1, 0],
+    [2, 3],
+    [4, 0],
+  ])
+  expect(m.tags).toEqual(["a", "b"])
+
+  expect(() => (m as any).addPoint("1")).toThrow("TypeCheckError: [/0] Expected: number")
+  expect(() => (m as any).addPoint(1, "2")).toThrow(
+    "TypeCheckError: [/1] Expected: number | undefined"
+  )
+  expect(() => (m as any).addTags(["a", 2])).toThrow("TypeCheckError: [/0/1] Expected: string")
+  expect(() => (m as any).addPointModel({ x: 1 })).toThrow(
+    "TypeCheckError: [/0] Expected: Model(modelActionArgTypes/Point)"
+  )
+  expect(m.points).toHaveLength(3)
+  expect(m.tags).toEqual(["a", "b"])
+
+  // actions without arg types are not checked
+  ;(m as any).addTag(5)
+  expect(m.tags).toEqual(["a", "b", 5])
+})
+
+test("local calls are not type-checked when auto type-checking is off", () => {
+  setGlobalConfig({
+    modelAutoTypeChecking: ModelAutoTypeCheckingMode.AlwaysOff,
+  })
+
+  const m = new M({})
+  ;(m as any).addPoint("1")
+  expect(m.points[0].x).toBe("1")
+})
+
+test("serialized calls are always type-checked", () => {
+  setGlobalConfig({
+    modelAutoTypeChecking: ModelAutoTypeCheckingMode.AlwaysOff,
+  })
+
+  const m = new M({})
+
+  const call = (actionName: string, args: any[]) =>
+    serializeActionCall(
+      {
+        actionName,
+        args,
+        targetPath: [],
+        targetPathIds: [],
+      },
+      m
+    )
+
+  applySerializedActionAndTrackNewModelIds(m, call("addPoint", [1, 2]))
+  applySerializedActionAndSyncNewModelIds(m, {
+    ...call("addTags", [["a"]]),
+    modelIdOverrides: [],
+  })
+  expect(m.points.map(p => [p.x, p.y])).toEqual([[1, 2]])
+  expect(m.tags).toEqual(["a"])
+
+  expect(() => applySerializedActionAndTrackNewModelIds(m, call("addPoint", [1, "2"]))).toThrow(
+    "TypeCheckError: [/1] Expected: number | undefined"
+  )
+  expect(() =>
+    applySerializedActionAndSyncNewModelIds(m, {
+      ...call("addTags", [[1]]),
+      modelIdOverrides: [],
+    })
+  ).toThrow("TypeCheckError: [/0/0] Expected: string")
+  expect(() =>
+    applySerializedActionAndTrackNewModelIds(m, call("addPointModel", [{ x: 1 }]))
+  ).toThrow("TypeCheckError: [/0] Expected: Model(modelActionArgTypes/Point)")
+
+  expect(m.points).toHaveLength(1)
+  expect(m.tags).toEqual(["a"])
+})
+
+test("invalid options", () => {
+  expect(() => modelAction({ argTypes: types.number as any })).toThrow("argTypes must be an array")
+})
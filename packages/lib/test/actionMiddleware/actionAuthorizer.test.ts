@@ -0,0 +1,255 @@
+import {
+  ActionAuthorizationError,
+  ActionAuthorizer,
+  applySerializedActionAndSyncNewModelIds,
+  applySerializedActionAndTrackNewModelIds,
+  BuiltInAction,
+  ExtendedModel,
+  getSnapshot,
+  HookAction,
+  model,
+  Model,
+  modelAction,
+  prop,
+  SerializedActionCall,
+  serializeActionCallArgument,
+} from "../../src"
+import "../commonSetup"
+
+let todosCreated = 0
+
+class BaseTodo extends Model({
+  owner: prop<string>(),
+  text: prop<string>(),
+}) {
+  onInit() {
+    todosCreated++
+  }
+
+  @modelAction
+  setText(text: string) {
+    this.text = text
+  }
+
+  notAnAction() {
+    this.setText("hacked")
+  }
+}
+
+@model("actionAuthorizer/Todo")
+class Todo extends ExtendedModel(BaseTodo, {}) {}
+
+@model("actionAuthorizer/SpecialTodo")
+class SpecialTodo extends ExtendedModel(BaseTodo, {}) {}
+
+@model("actionAuthorizer/TodoList")
+class TodoList extends Model({
+  todos: prop<BaseTodo[]>(() => []),
+  locked: prop(false),
+}) {
+  @modelAction
+  addTodo(owner: string, text: string) {
+    this.todos.push(new Todo({ owner, text }))
+  }
+
+  @modelAction
+  pushTodo(todo: BaseTodo) {
+    this.todos.push(todo)
+  }
+
+  @modelAction
+  unshiftTodo(todo: BaseTodo) {
+    this.todos.unshift(todo)
+  }
+
+  @modelAction
+  lock() {
+    this.locked = true
+  }
+}
+
+interface Caller {
+  readonly user: string
+}
+
+let list: TodoList
+beforeEach(() => {
+  list = new TodoList({
+    todos: [new Todo({ owner: "alice", text: "a" }), new SpecialTodo({ owner: "bob", text: "b" })],
+  })
+})
+
+function call(
+  actionName: string,
+  args: any[],
+  targetPath: (string | number)[] = [],
+  targetPathIds: (string | null)[] = []
+): SerializedActionCall {
+  return {
+    actionName,
+    args: args.map(arg => serializeActionCallArgument(arg)),
+    targetPath,
+    targetPathIds,
+    serialized: true,
+  }
+}
+
+function todoCall(index: number, actionName: string, args: any[]) {
+  return call(actionName, args, ["todos", index], [null, list.todos[index].$modelId])
+}
+
+const authorizer = new ActionAuthorizer<Caller>()
+  .allowActions(TodoList, ["addTodo"], ({ args, caller }) => args[0] === caller.user)
+  .allowModel(BaseTodo, ({ target, caller }) => target.owner === caller.user)
+  .allowActions(
+    TodoList,
+    [BuiltInAction.ApplySnapshot, "pushTodo"],
+    ({ caller }) => caller.user === "admin"
+  )
+
+function apply(actionCall: SerializedActionCall, user: string) {
+  return applySerializedActionAndTrackNewModelIds(list, actionCall, {
+    authorizer,
+    caller: { user },
+  })
+}
+
+function expectRejected(fn: () => void, msg: string) {
+  let error: any
+  try {
+    fn()
+  } catch (err) {
+    error = err
+  }
+  expect(error).toBeInstanceOf(ActionAuthorizationError)
+  expect(error.message).toBe(msg)
+}
+
+test("allowed calls", () => {
+  apply(call("addTodo", ["alice", "c"]), "alice")
+  expect(list.todos.map(t => t.text)).toEqual(["a", "b", "c"])
+
+  apply(todoCall(0, "setText", ["A"]), "alice")
+  expect(list.todos[0].text).toBe("A")
+
+  // subclasses are included
+  apply(todoCall(1, "setText", ["B"]), "bob")
+  expect(list.todos[1].text).toBe("B")
+
+  applySerializedActionAndSyncNewModelIds(
+    list,
+    { ...todoCall(1, "setText", ["BB"]), modelIdOverrides: [] },
+    { authorizer, caller: { user: "bob" } }
+  )
+  expect(list.todos[1].text).toBe("BB")
+})
+
+test("rejected by policies", () => {
+  const sn = getSnapshot(list)
+
+  expectRejected(
+    () => apply(call("addTodo", ["bob", "c"]), "alice"),
+    `action 'addTodo' at path [] is not authorized: no rule allowed it`
+  )
+  expectRejected(
+    () => apply(todoCall(1, "setText", ["B"]), "alice"),
+    `action 'setText' at path ["todos",1] is not authorized: no rule allowed it`
+  )
+  expectRejected(
+    () =>
+      applySerializedActionAndSyncNewModelIds(
+        list,
+        { ...todoCall(1, "setText", ["B"]), modelIdOverrides: [] },
+        { authorizer, caller: { user: "alice" } }
+      ),
+    `action 'setText' at path ["todos",1] is not authorized: no rule allowed it`
+  )
+
+  expect(getSnapshot(list)).toBe(sn)
+})
+
+test("actions without rules are rejected", () => {
+  expectRejected(
+    () => apply(call("lock", []), "alice"),
+    `action 'lock' at path [] is not authorized: no rule allowed it`
+  )
+  expect(list.locked).toBe(false)
+})
+
+test("only model actions can be called", () => {
+  expectRejected(
+    () => apply(todoCall(0, "notAnAction", []), "alice"),
+    `action 'notAnAction' at path ["todos",0] is not authorized: it is not a model action or model flow`
+  )
+  expectRejected(
+    () => apply(todoCall(0, "onInit", []), "alice"),
+    `action 'onInit' at path ["todos",0] is not authorized: hooks cannot be called`
+  )
+  expectRejected(
+    () => apply(todoCall(0, HookAction.OnAttachedToRootStore, []), "alice"),
+    `action '$$onAttachedToRootStore' at path ["todos",0] is not authorized: hooks cannot be called`
+  )
+  expect(list.todos[0].text).toBe("a")
+})
+
+test("built-in actions must be explicitly allowed", () => {
+  const todoSn = { ...getSnapshot(list.todos[0]), text: "A" }
+  expectRejected(
+    () => apply(todoCall(0, BuiltInAction.ApplySnapshot, [todoSn]), "alice"),
+    `action '$$applySnapshot' at path ["todos",0] is not authorized: no rule allowed it`
+  )
+
+  const listSn = { ...getSnapshot(list), locked: true }
+  expectRejected(
+    () => apply(call(BuiltInAction.ApplySnapshot, [listSn]), "alice"),
+    `action '$$applySnapshot' at path [] is not authorized: no rule allowed it`
+  )
+  apply(call(BuiltInAction.ApplySnapshot, [listSn]), "admin")
+  expect(list.locked).toBe(true)
+})
+
+test("calls that are never allowed do not create the models in their args", () => {
+  const unshiftCall = call("unshiftTodo", [new Todo({ owner: "alice", text: "c" })])
+  const pushCall = call("pushTodo", [new Todo({ owner: "alice", text: "c" })])
+  todosCreated = 0
+
+  expectRejected(
+    () => apply(unshiftCall, "alice"),
+    `action 'unshiftTodo' at path [] is not authorized: no rule allowed it`
+  )
+  expectRejected(
+    () => apply({ ...pushCall, targetPath: ["todos", 5], targetPathIds: [null, "nope"] }, "alice"),
+    `action 'pushTodo' at path ["todos",5] is not authorized: the target model could not be resolved`
+  )
+  expect(todosCreated).toBe(0)
+
+  // policies need the deserialized args, so in that case they are created
+  expectRejected(
+    () => apply(pushCall, "alice"),
+    `action 'pushTodo' at path [] is not authorized: no rule allowed it`
+  )
+  expect(todosCreated).toBe(1)
+  expect(list.todos).toHaveLength(2)
+})
+
+test("authorizeTarget does not run policies", () => {
+  const unshiftCall = call("unshiftTodo", [new Todo({ owner: "alice", text: "c" })])
+  expectRejected(
+    () => authorizer.authorizeTarget(list, unshiftCall),
+    `action 'unshiftTodo' at path [] is not authorized: no rule allowed it`
+  )
+
+  authorizer.authorizeTarget(list, call("pushTodo", [new Todo({ owner: "alice", text: "c" })]))
+  authorizer.authorizeTarget(list, todoCall(1, "setText", ["B"]))
+})
+
+test("unresolved targets are rejected", () => {
+  expectRejected(
+    () => apply(call("setText", ["x"], ["todos", 5], [null, "nope"]), "alice"),
+    `action 'setText' at path ["todos",5] is not authorized: the target model could not be resolved`
+  )
+  expectRejected(
+    () => apply(call("setText", ["x"], ["todos", 0], [null, "wrong id"]), "alice"),
+    `action 'setText' at path ["todos",0] is not authorized: the target model could not be resolved`
+  )
+})
@@ -0,0 +1,125 @@
+import {
+  actionRecorder,
+  exportActionRecording,
+  getSnapshot,
+  importActionRecording,
+  model,
+  Model,
+  modelAction,
+  modelFlow,
+  prop,
+  replayActionRecording,
+  runUnprotected,
+} from "../../src"
+import "../commonSetup"
+
+@model("actionRecorder/Todo")
+class Todo extends Model({
+  text: prop<string>(),
+  done: prop(false),
+}) {
+  @modelAction
+  toggle() {
+    this.done = !this.done
+  }
+}
+
+@model("actionRecorder/TodoList")
+class TodoList extends Model({
+  todos: prop<Todo[]>(() => []),
+}) {
+  @modelAction
+  addTodo(text: string) {
+    // generates a new model id that has to be the same when replayed
+    this.todos.push(new Todo({ text }))
+  }
+
+  @modelAction
+  fail() {
+    // changes made before throwing are not rolled back
+    this.todos[0].done = true
+    throw new Error("failed")
+  }
+
+  @modelFlow
+  *fetchTodos(fetchTexts: () => Promise<string[]>) {
+    const texts: string[] = yield fetchTexts()
+    texts.forEach(text => {
+      this.todos.push(new Todo({ text }))
+    })
+    yield Promise.resolve()
+    this.todos[0].toggle()
+  }
+}
+
+test("record and replay", async () => {
+  const list = new TodoList({ todos: [new Todo({ text: "initial" })] })
+  const initialSn = getSnapshot(list)
+
+  const recorder = actionRecorder(list)
+  expect(recorder.initialSnapshot).toBe(initialSn)
+
+  list.addTodo("a")
+  list.todos[1].toggle()
+  expect(() => list.fail()).toThrow("failed")
+  await list.fetchTodos(async () => ["b", "c"])
+  runUnprotected(() => {
+    list.todos[1].text = "A"
+  })
+  recorder.dispose()
+  list.addTodo("not recorded")
+
+  const { events } = recorder.recording
+  expect(events.map(e => e.type)).toEqual([
+    "action",
+    "action",
+    "changes",
+    "flowStep",
+    "flowStep",
+    "changes",
+  ])
+  events.forEach(e => {
+    expect(typeof e.timestamp).toBe("number")
+  })
+  expect(events[0]).toMatchObject({
+    actionCall: {
+      actionName: "addTodo",
+      args: ["a"],
+      serialized: true,
+      modelIdOverrides: [
+        { op: "replace", path: ["todos", 1, "$modelId"], value: list.todos[1].$modelId },
+      ],
+    },
+  })
+  expect(events[2]).toMatchObject({
+    actionName: "fail",
+    patches: [{ op: "replace", path: ["todos", 0, "done"], value: true }],
+  })
+  expect(events[3]).toMatchObject({ actionName: "fetchTodos" })
+  expect(events[5]).toMatchObject({
+    actionName: undefined,
+    patches: [{ op: "replace", path: ["todos", 1, "text"], value: "A" }],
+  })
+
+  // export / import / replay
+  const recording = importActionRecording(exportActionRecording(recorder.recording))
+  expect(recording).toEqual(JSON.parse(JSON.stringify(recorder.recording)))
+
+  const expectedSn = getSnapshot(list).todos.slice(0, 4)
+  const replayed = replayActionRecording<TodoList>(recording)
+  expect(replayed).not.toBe(list)
+  expect(getSnapshot(replayed)).toEqual({ ...getSnapshot(list), todos: expectedSn })
+
+  // over an existing target
+  const replayedSn = getSnapshot(replayed)
+  replayed.addTodo("d")
+  expect(replayActionRecording(recording, { target: replayed })).toBe(replayed)
+  expect(getSnapshot(replayed)).toEqual(replayedSn)
+})
+
+test("invalid recordings", () => {
+  expect(() => importActionRecording("5")).toThrow("recording must be an object")
+  expect(() => importActionRecording(`{ "initialSnapshot": {} }`)).toThrow(
+    "recording.events must be an array"
+  )
+})
@@ -0,0 +1,247 @@
+import {
+  ActionSyncClient,
+  actionSyncClient,
+  ActionSyncClientMessage,
+  ActionSyncServerMessage,
+  applyAction,
+  applySerializedActionAndSyncNewModelIds,
+  applySerializedActionAndTrackNewModelIds,
+  fromSnapshot,
+  getSnapshot,
+  model,
+  Model,
+  modelAction,
+  modelFlow,
+  PendingAction,
+  prop,
+  serializeActionCall,
+} from "../../src"
+import "../commonSetup"
+import { autoDispose } from "../utils"
+
+@model("actionSyncClient/Todo")
+class Todo extends Model({
+  text: prop<string>(),
+  done: prop(false),
+}) {}
+
+@model("actionSyncClient/TodoList")
+class TodoList extends Model({
+  todos: prop<Todo[]>(() => []),
+}) {
+  @modelAction
+  addTodo(text: string) {
+    this.todos.push(new Todo({ text }))
+  }
+
+  @modelAction
+  removeTodo(text: string) {
+    this.todos.splice(this.indexOf(text), 1)
+  }
+
+  @modelAction
+  setDone(text: string) {
+    this.todos[this.indexOf(text)].done = true
+  }
+
+  @modelAction
+  addAndFail(text: string) {
+    this.addTodo(text)
+    throw new Error("failed")
+  }
+
+  @modelFlow
+  *addLater(text: string) {
+    yield Promise.resolve()
+    this.addTodo(text)
+  }
+
+  private indexOf(text: string) {
+    const index = this.todos.findIndex(t => t.text === text)
+    if (index < 0) {
+      throw new Error(`todo '${text}' not found`)
+    }
+    return index
+  }
+}
+
+const texts = (list: TodoList) => list.todos.map(t => `${t.text}${t.done ? " (done)" : ""}`)
+
+class Server {
+  readonly root = new TodoList({})
+  readonly inbox: ActionSyncClientMessage[] = []
+  private readonly clients: ActionSyncClient[] = []
+
+  connect(client: ActionSyncClient) {
+    this.clients.push(client)
+  }
+
+  // processes the next message, broadcasting the result
+  processNext() {
+    const msg = this.inbox.shift()!
+
+    let response: ActionSyncServerMessage
+    try {
+      const { serializedActionCall } = applySerializedActionAndTrackNewModelIds(
+        this.root,
+        msg.actionCall
+      )
+      response = { type: "confirmed", actionCall: serializedActionCall, actionId: msg.actionId }
+    } catch (error) {
+      response = { type: "rejected", actionId: msg.actionId, error }
+    }
+
+    // confirmations go to every client, rejections only to the sender
+    this.clients
+      .filter(c => response.type === "confirmed" || msg.actionId.startsWith(c.clientId + "-"))
+      .forEach(c => c.receive(response))
+  }
+
+  processAll() {
+    while (this.inbox.length > 0) {
+      this.processNext()
+    }
+  }
+}
+
+let server: Server
+let rootA: TodoList
+let rootB: TodoList
+let clientA: ActionSyncClient
+let clientB: ActionSyncClient
+let rejectedA: [PendingAction, any][]
+
+beforeEach(() => {
+  server = new Server()
+  server.root.addTodo("base")
+
+  rejectedA = []
+
+  rootA = fromSnapshot<TodoList>(getSnapshot(server.root))
+  clientA = actionSyncClient(
+    rootA,
+    { send: msg => server.inbox.push(msg) },
+    {
+      clientId: "A",
+      onRejected(pendingAction, error) {
+        rejectedA.push([pendingAction, error])
+      },
+    }
+  )
+  autoDispose(() => clientA.dispose())
+  server.connect(clientA)
+
+  rootB = fromSnapshot<TodoList>(getSnapshot(server.root))
+  clientB = actionSyncClient(rootB, { send: msg => server.inbox.push(msg) }, { clientId: "B" })
+  autoDispose(() => clientB.dispose())
+  server.connect(clientB)
+})
+
+function expectInSync() {
+  expect(clientA.isSynced).toBe(true)
+  expect(clientB.isSynced).toBe(true)
+  expect(getSnapshot(rootA)).toStrictEqual(getSnapshot(server.root))
+  expect(getSnapshot(rootB)).toStrictEqual(getSnapshot(server.root))
+}
+
+test("local actions are applied optimistically and sent", () => {
+  rootA.addTodo("a1")
+
+  expect(texts(rootA)).toEqual(["base", "a1"])
+  expect(clientA.isSynced).toBe(false)
+  expect(clientA.pendingActions).toEqual([
+    {
+      actionId: "A-1",
+      actionCall: {
+        actionName: "addTodo",
+        args: ["a1"],
+        targetPath: [],
+        targetPathIds: [],
+        serialized: true,
+      },
+    },
+  ])
+  expect(server.inbox).toEqual(clientA.pendingActions)
+  expect(texts(rootB)).toEqual(["base"])
+
+  server.processAll()
+  expectInSync()
+  expect(texts(rootA)).toEqual(["base", "a1"])
+})
+
+test("pending actions are reapplied over confirmed actions from other clients", () => {
+  rootA.addTodo("a1")
+  rootB.addTodo("b1")
+  rootB.setDone("base")
+  rootA.addTodo("a2")
+
+  // server gets B's messages first
+  const [a1, b1, b2, a2] = server.inbox.splice(0)
+  server.inbox.push(b1, b2, a1, a2)
+
+  server.processNext()
+  expect(texts(rootA)).toEqual(["base", "b1", "a1", "a2"])
+  expect(clientA.pendingActions.map(p => p.actionId)).toEqual(["A-1", "A-2"])
+  expect(clientB.pendingActions.map(p => p.actionId)).toEqual(["B-2"])
+
+  server.processAll()
+  expectInSync()
+  expect(texts(rootA)).toEqual(["base (done)", "b1", "a1", "a2"])
+})
+
+test("new model ids are synced with the server", () => {
+  rootA.addTodo("a1")
+  const localId = rootA.todos[1].$modelId
+
+  server.processAll()
+  expectInSync()
+  expect(rootA.todos[1].$modelId).toBe(server.root.todos[1].$modelId)
+  expect(rootA.todos[1].$modelId).not.toBe(localId)
+})
+
+test("rejected actions are rolled back", () => {
+  rootB.removeTodo("base")
+  rootA.setDone("base")
+  rootA.addTodo("a1")
+  expect(texts(rootA)).toEqual(["base (done)", "a1"])
+
+  server.processNext()
+  // A's first pending action cannot be applied anymore, so it gets skipped
+  expect(texts(rootA)).toEqual(["a1"])
+  expect(clientA.pendingActions.map(p => p.actionId)).toEqual(["A-1", "A-2"])
+
+  server.processAll()
+  expectInSync()
+  expect(texts(rootA)).toEqual(["a1"])
+  expect(rejectedA).toHaveLength(1)
+  expect(rejectedA[0][0].actionId).toBe("A-1")
+  expect(rejectedA[0][1].message).toBe("todo 'base' not found")
+})
+
+test("local actions that throw are rolled back and not sent", () => {
+  expect(() => rootA.addAndFail("a1")).toThrow("failed")
+  expect(texts(rootA)).toEqual(["base"])
+  expect(clientA.isSynced).toBe(true)
+  expect(server.inbox).toHaveLength(0)
+})
+
+test("actions applied from serialized calls are considered remote and not sent", () => {
+  const call = { actionName: "addTodo", args: ["r1"], targetPath: [], targetPathIds: [] }
+  applySerializedActionAndSyncNewModelIds(rootA, {
+    ...serializeActionCall(call),
+    modelIdOverrides: [],
+  })
+  expect(texts(rootA)).toEqual(["base", "r1"])
+  expect(clientA.isSynced).toBe(true)
+  expect(server.inbox).toHaveLength(0)
+
+  // while other applied actions are
+  applyAction(rootA, { ...call, args: ["a1"] })
+  expect(clientA.pendingActions.map(p => p.actionCall.args)).toEqual([["a1"]])
+  expect(server.inbox).toHaveLength(1)
+})
+
+test("model flows are not supported", () => {
+  expect(() => rootA.addLater("a1")).toThrow("model flows are not supported by actionSyncClient")
+  expect(texts(rootA)).toEqual(["base"])
+})
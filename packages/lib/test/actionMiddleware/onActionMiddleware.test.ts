@@ -88,6 +88,7 @@ test("onActionMiddleware", () => {
               "state": "finished",
             },
           },
+          "origin": "direct",
           "parentContext": undefined,
           "rootContext": [Circular],
           "target": P {
@@ -139,6 +140,7 @@ test("onActionMiddleware", () => {
               "state": "finished",
             },
           },
+          "origin": "direct",
           "parentContext": undefined,
           "rootContext": [Circular],
           "target": P2 {
@@ -182,6 +184,7 @@ test("onActionMiddleware", () => {
               "state": "finished",
             },
           },
+          "origin": "direct",
           "parentContext": undefined,
           "rootContext": [Circular],
           "target": P {
@@ -232,6 +235,7 @@ test("onActionMiddleware", () => {
               "state": "finished",
             },
           },
+          "origin": "direct",
           "parentContext": undefined,
           "rootContext": [Circular],
           "target": P {
@@ -297,6 +301,7 @@ test("onActionMiddleware", () => {
               "state": "finished",
             },
           },
+          "origin": "direct",
           "parentContext": undefined,
           "rootContext": [Circular],
           "target": P {
@@ -354,6 +359,7 @@ test("onActionMiddleware", () => {
               "state": "finished",
             },
           },
+          "origin": "direct",
           "parentContext": undefined,
           "rootContext": [Circular],
           "target": P {
@@ -419,6 +425,7 @@ test("onActionMiddleware", () => {
               "state": "finished",
             },
           },
+          "origin": "builtIn",
           "parentContext": undefined,
           "rootContext": [Circular],
           "target": P2 {
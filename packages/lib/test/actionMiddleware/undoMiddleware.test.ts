@@ -1,4 +1,5 @@
 import {
+  fromSnapshot,
   getSnapshot,
   model,
   Model,
@@ -548,3 +549,484 @@ test("undoMiddleware - async", async () => {
   await p.incX(200)
   expectUndoRedoToBe(0, 0)
 })
+
+@model("PArr")
+class PArr extends Model({
+  arr: prop<P2[]>(() => []),
+}) {
+  @modelAction
+  addP2(y: number) {
+    this.arr.push(new P2({ y }))
+  }
+}
+
+@model("RArr")
+class RArr extends Model({
+  undoData: prop(() => new UndoStore({})),
+  p: prop(() => new PArr({})),
+}) {}
+
+test("undoMiddleware - store snapshot round-trip", () => {
+  const r = new RArr({})
+  const manager = undoMiddleware(r, r.undoData)
+  autoDispose(() => manager.dispose())
+
+  r.p.addP2(1)
+  r.p.addP2(2)
+  manager.undo()
+  expect(r.p.arr.length).toBe(1)
+  expect(manager.undoLevels).toBe(1)
+  expect(manager.redoLevels).toBe(1)
+
+  // persist the whole root (undo store included) and restore it
+  const sn = getSnapshot(r)
+  const r2 = fromSnapshot<RArr>(JSON.parse(JSON.stringify(sn)))
+  expect(getSnapshot(r2)).toStrictEqual(sn)
+
+  const manager2 = undoMiddleware(r2, r2.undoData)
+  autoDispose(() => manager2.dispose())
+  expect(manager2.undoQueue).toStrictEqual(manager.undoQueue)
+  expect(manager2.redoQueue).toStrictEqual(manager.redoQueue)
+
+  // model snapshots inside patches must be kept as plain data
+  const addedValue = manager2.redoQueue[0].patches[0].value
+  expect(addedValue instanceof P2).toBeFalsy()
+  expect(addedValue.y).toBe(2)
+
+  manager2.redo()
+  expect(r2.p.arr.map(p2 => p2.y)).toEqual([1, 2])
+  manager2.undo()
+  manager2.undo()
+  expect(r2.p.arr.length).toBe(0)
+  expect(manager2.canUndo).toBeFalsy()
+})
+
+test("undoMiddleware - corrupted store snapshot", () => {
+  const r = new RArr({})
+  const manager = undoMiddleware(r, r.undoData)
+  autoDispose(() => manager.dispose())
+
+  r.p.addP2(1)
+
+  const sn: any = JSON.parse(JSON.stringify(getSnapshot(r.undoData)))
+  sn.undoEvents[0].data.patches[0].op = "splice"
+
+  expect(() => fromSnapshot<UndoStore>(sn)).toThrow(
+    'TypeCheckError: [/undoEvents/0/data/patches/0/op] Expected: "replace" | "remove" | "add"'
+  )
+
+  const sn2: any = JSON.parse(JSON.stringify(getSnapshot(r.undoData)))
+  delete sn2.undoEvents[0].data.inversePatches
+  expect(() => fromSnapshot<UndoStore>(sn2)).toThrow(
+    "TypeCheckError: [/undoEvents/0/data/inversePatches] Expected: Array<"
+  )
+})
+
+test("undoMiddleware - groups", () => {
+  const r = new R({})
+  const p = r.p
+
+  const manager = undoMiddleware(r, r.undoData)
+  autoDispose(() => manager.dispose())
+
+  const sn0 = getSnapshot(p)
+
+  expect(manager.isGroupOpen).toBeFalsy()
+  expect(() => manager.endGroup()).toThrow("there is no undo group to end")
+
+  const ret = manager.withGroup(() => {
+    expect(manager.isGroupOpen).toBeTruthy()
+    p.incX(1)
+    p.incX(2)
+    p.p2.incY(10)
+    return 5
+  })
+  expect(ret).toBe(5)
+  expect(manager.isGroupOpen).toBeFalsy()
+  expect(manager.undoLevels).toBe(1)
+  expect(manager.undoQueue[0]).toMatchInlineSnapshot(`
+    Object {
+      "actionName": "incX",
+      "inversePatches": Array [
+        Object {
+          "op": "replace",
+          "path": Array [
+            "p",
+            "p2",
+            "y",
+          ],
+          "value": 0,
+        },
+        Object {
+          "op": "replace",
+          "path": Array [
+            "p",
+            "x",
+          ],
+          "value": 1,
+        },
+        Object {
+          "op": "replace",
+          "path": Array [
+            "p",
+            "x",
+          ],
+          "value": 0,
+        },
+      ],
+      "patches": Array [
+        Object {
+          "op": "replace",
+          "path": Array [
+            "p",
+            "x",
+          ],
+          "value": 1,
+        },
+        Object {
+          "op": "replace",
+          "path": Array [
+            "p",
+            "x",
+          ],
+          "value": 3,
+        },
+        Object {
+          "op": "replace",
+          "path": Array [
+            "p",
+            "p2",
+            "y",
+          ],
+          "value": 10,
+        },
+      ],
+      "targetPath": Array [
+        "p",
+      ],
+    }
+  `)
+  const sn1 = getSnapshot(p)
+
+  // labeled and nested groups
+  manager.startGroup("drag")
+  p.incX(1)
+  manager.withGroup("inner", () => {
+    p.incX(1)
+  })
+  expect(manager.undoLevels).toBe(1)
+  expect(() => manager.undo()).toThrow("cannot undo while an undo group is open")
+  manager.endGroup()
+  expect(manager.undoLevels).toBe(2)
+  expect(manager.undoQueue[1].groupLabel).toBe("drag")
+  expect(manager.undoQueue[1].patches.length).toBe(2)
+  const sn2 = getSnapshot(p)
+
+  // empty groups do not generate events
+  manager.withGroup("empty", () => {})
+  expect(manager.undoLevels).toBe(2)
+
+  // the group is closed even if the function throws
+  expect(() =>
+    manager.withGroup(() => {
+      p.incX(1)
+      throw new Error("oops")
+    })
+  ).toThrow("oops")
+  expect(manager.isGroupOpen).toBeFalsy()
+  expect(manager.undoLevels).toBe(3)
+
+  manager.undo()
+  expect(getSnapshot(p)).toStrictEqual(sn2)
+  manager.undo()
+  expect(getSnapshot(p)).toStrictEqual(sn1)
+  manager.undo()
+  expect(getSnapshot(p)).toStrictEqual(sn0)
+
+  manager.redo()
+  expect(getSnapshot(p)).toStrictEqual(sn1)
+  manager.redo()
+  expect(getSnapshot(p)).toStrictEqual(sn2)
+})
+
+test("undoMiddleware - async groups", async () => {
+  const r = new RFlow({})
+  const p = r.p
+
+  const manager = undoMiddleware(r, r.undoData)
+  autoDispose(() => manager.dispose())
+
+  const sn0 = getSnapshot(p)
+
+  const ret = await manager.withGroup("flows", async () => {
+    await p.incX(1)
+    await p.p2.incY(2)
+    expect(manager.isGroupOpen).toBeTruthy()
+    return 10
+  })
+  expect(ret).toBe(10)
+  expect(manager.isGroupOpen).toBeFalsy()
+
+  expect(p.x).toBe(1)
+  expect(p.p2.y).toBe(2)
+  expect(manager.undoLevels).toBe(1)
+  expect(manager.undoQueue[0].groupLabel).toBe("flows")
+
+  manager.undo()
+  expect(getSnapshot(p)).toStrictEqual(sn0)
+
+  // the group is closed when the promise gets rejected
+  try {
+    await manager.withGroup(() => p.incXY(1, 2))
+    fail("should have thrown")
+  } catch (e) {
+    expect(e.message).toBe("incXY")
+  }
+  expect(manager.isGroupOpen).toBeFalsy()
+  expect(manager.undoLevels).toBe(1)
+  expect(manager.undoQueue[0].actionName).toBe("incXY")
+})
+
+test("undoMiddleware - maxUndoLevels and maxPatches", () => {
+  const r = new R({})
+  const p = r.p
+
+  const manager = undoMiddleware(r, r.undoData, { maxUndoLevels: 3 })
+  autoDispose(() => manager.dispose())
+
+  for (let i = 1; i <= 5; i++) {
+    p.incX(1)
+  }
+  expect(manager.undoLevels).toBe(3)
+  expect(manager.undoQueue.map(e => e.patches[0].value)).toEqual([3, 4, 5])
+
+  manager.undo()
+  manager.undo()
+  manager.undo()
+  expect(manager.canUndo).toBeFalsy()
+  expect(p.x).toBe(2)
+  manager.dispose()
+
+  const r2 = new R({})
+  const p2 = r2.p
+  // each incX event has 1 patch + 1 inverse patch
+  const manager2 = undoMiddleware(r2, r2.undoData, { maxPatches: 5 })
+  autoDispose(() => manager2.dispose())
+
+  for (let i = 1; i <= 5; i++) {
+    p2.incX(1)
+  }
+  expect(manager2.undoLevels).toBe(2)
+  expect(manager2.undoQueue.map(e => e.patches[0].value)).toEqual([4, 5])
+
+  // the most recent event is kept even if it is over the limit
+  manager2.withGroup(() => {
+    p2.incX(1)
+    p2.incX(1)
+    p2.incX(1)
+  })
+  expect(manager2.undoLevels).toBe(1)
+  expect(manager2.undoQueue[0].patches.length).toBe(3)
+})
+
+test("undoMiddleware - coalescing", () => {
+  let now = 1000
+  const dateNowSpy = jest.spyOn(Date, "now").mockImplementation(() => now)
+  autoDispose(() => dateNowSpy.mockRestore())
+
+  const r = new R({})
+  const p = r.p
+
+  const manager = undoMiddleware(r, r.undoData, { coalesceTimeWindow: 100 })
+  autoDispose(() => manager.dispose())
+
+  p.incX(1)
+  now += 50
+  p.incX(1)
+  now += 100
+  p.incX(1)
+  expect(manager.undoLevels).toBe(1)
+  expect(manager.undoQueue[0].patches.map(patch => patch.value)).toEqual([1, 2, 3])
+  expect(manager.undoQueue[0].inversePatches.map(patch => patch.value)).toEqual([2, 1, 0])
+
+  // too late
+  now += 101
+  p.incX(1)
+  expect(manager.undoLevels).toBe(2)
+
+  // different action
+  now += 1
+  p.p2.incY(1)
+  expect(manager.undoLevels).toBe(3)
+
+  // not after an undo
+  manager.undo()
+  now += 1
+  p.p2.incY(1)
+  expect(manager.undoLevels).toBe(3)
+
+  manager.undo()
+  manager.undo()
+  expect(p.x).toBe(3)
+  manager.undo()
+  expect(p.x).toBe(0)
+  expect(p.p2.y).toBe(0)
+})
+
+test("undoMiddleware - changes done by an action after calling another action are recorded", () => {
+  @model("undoMiddleware/nested/P")
+  class NestedP extends Model({
+    p2: prop(() => new P2({})),
+    x: prop(() => 0),
+  }) {
+    @modelAction
+    incYThenX() {
+      this.p2.incY(1)
+      this.x++
+    }
+  }
+
+  const p = new NestedP({})
+  const manager = undoMiddleware(p)
+  autoDispose(() => manager.dispose())
+
+  p.incYThenX()
+  expect(manager.undoLevels).toBe(1)
+  expect(manager.undoQueue[0].patches).toEqual([
+    { op: "replace", path: ["p2", "y"], value: 1 },
+    { op: "replace", path: ["x"], value: 1 },
+  ])
+
+  manager.undo()
+  expect(p.x).toBe(0)
+  expect(p.p2.y).toBe(0)
+})
+
+test("undoMiddleware - filter", () => {
+  const r = new R({})
+  const p = r.p
+
+  const manager = undoMiddleware(r, r.undoData, {
+    filter: ctx => ctx.actionName !== "incY",
+  })
+  autoDispose(() => manager.dispose())
+
+  p.incX(1)
+  p.p2.incY(10)
+  expect(manager.undoLevels).toBe(1)
+  expect(manager.undoQueue[0].actionName).toBe("incX")
+
+  // filtered out actions run inside accepted ones are part of them
+  expect(() => p.incXY(1, 1)).toThrow("incXY")
+  expect(manager.undoLevels).toBe(2)
+
+  manager.undo()
+  manager.undo()
+  expect(p.x).toBe(0)
+  expect(p.p2.y).toBe(10)
+})
+
+@model("undoMiddleware/Doc")
+class Doc extends Model({
+  undoData: prop(() => new UndoStore({})),
+  text: prop(""),
+  selection: prop(0),
+}) {
+  @modelAction
+  setText(text: string) {
+    this.text = text
+  }
+
+  @modelAction
+  setSelection(selection: number) {
+    this.selection = selection
+  }
+}
+
+@model("undoMiddleware/Editor")
+class Editor extends Model({
+  docs: prop<Doc[]>(() => []),
+}) {
+  @modelAction
+  setAllTexts(text: string) {
+    this.docs.forEach(doc => doc.setText(text))
+  }
+}
+
+test("undoMiddleware - several managers over disjoint subtrees", () => {
+  const editor = new Editor({ docs: [new Doc({}), new Doc({})] })
+  const [doc1, doc2] = editor.docs
+
+  const managers = editor.docs.map(doc => {
+    const manager = undoMiddleware(doc, doc.undoData, {
+      filter: ctx => ctx.actionName !== "setSelection",
+    })
+    autoDispose(() => manager.dispose())
+    return manager
+  })
+  const [manager1, manager2] = managers
+
+  doc1.setText("a")
+  doc2.setText("b")
+  doc1.setSelection(1)
+  doc1.setText("aa")
+
+  expect(manager1.undoQueue.map(e => e.patches)).toEqual([
+    [{ op: "replace", path: ["text"], value: "a" }],
+    [{ op: "replace", path: ["text"], value: "aa" }],
+  ])
+  expect(manager2.undoQueue.map(e => e.patches)).toEqual([
+    [{ op: "replace", path: ["text"], value: "b" }],
+  ])
+
+  manager2.undo()
+  expect(doc2.text).toBe("")
+  expect(doc1.text).toBe("aa")
+  expect(manager1.undoLevels).toBe(2)
+  expect(manager1.redoLevels).toBe(0)
+
+  // actions run from outside the subtrees are recorded by each manager separately
+  editor.setAllTexts("c")
+  expect(manager1.undoLevels).toBe(3)
+  expect(manager2.undoLevels).toBe(1)
+  expect(manager2.redoLevels).toBe(0)
+  expect(manager1.undoQueue[2].targetPath).toEqual(["docs", 0])
+
+  manager1.undo()
+  expect(doc1.text).toBe("aa")
+  expect(doc2.text).toBe("c")
+  manager2.undo()
+  expect(doc2.text).toBe("")
+  expect(doc1.selection).toBe(1)
+})
+
+test("undoMiddleware - compressPatches", () => {
+  const r = new R({})
+  const p = r.p
+
+  const manager = undoMiddleware(r, r.undoData, { compressPatches: true })
+  autoDispose(() => manager.dispose())
+
+  manager.withGroup(() => {
+    p.incX(1)
+    p.incX(2)
+    p.p2.incY(1)
+    p.incX(3)
+  })
+
+  expect(manager.undoQueue[0].patches).toEqual([
+    { op: "replace", path: ["p", "x"], value: 6 },
+    { op: "replace", path: ["p", "p2", "y"], value: 1 },
+  ])
+  expect(manager.undoQueue[0].inversePatches).toEqual([
+    { op: "replace", path: ["p", "x"], value: 0 },
+    { op: "replace", path: ["p", "p2", "y"], value: 0 },
+  ])
+
+  manager.undo()
+  expect(p.x).toBe(0)
+  expect(p.p2.y).toBe(0)
+  manager.redo()
+  expect(p.x).toBe(6)
+  expect(p.p2.y).toBe(1)
+})
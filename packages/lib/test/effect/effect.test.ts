@@ -0,0 +1,147 @@
+import {
+  detach,
+  effect,
+  getModelEffects,
+  model,
+  Model,
+  modelAction,
+  modelEffect,
+  prop,
+  registerRootStore,
+  unregisterRootStore,
+} from "../../src"
+import "../commonSetup"
+
+const events: string[] = []
+
+beforeEach(() => {
+  events.length = 0
+})
+
+@model("effect/Todo")
+class Todo extends Model({
+  text: prop<string>(),
+  length: prop(0),
+}) {
+  @effect
+  logText() {
+    events.push(`autorun ${this.text}`)
+  }
+
+  @effect({ expression: (todo: Todo) => todo.text.length, unprotected: true })
+  updateLength(length: number) {
+    events.push(`reaction ${length}`)
+    this.length = length
+  }
+
+  @modelAction
+  setText(text: string) {
+    this.text = text
+  }
+}
+
+@model("effect/Store")
+class Store extends Model({
+  todos: prop<Todo[]>(() => []),
+  done: prop<Todo[]>(() => []),
+}) {
+  @modelAction
+  addTodo(todo: Todo) {
+    this.todos.push(todo)
+  }
+
+  @modelAction
+  markDone(index: number) {
+    this.done.push(...this.todos.splice(index, 1))
+  }
+}
+
+test("effect decorator", () => {
+  const todo = new Todo({ text: "a" })
+  expect(getModelEffects(todo)).toEqual([
+    { name: "logText", type: "autorun", isRunning: false },
+    { name: "updateLength", type: "reaction", isRunning: false },
+  ])
+
+  // not running until attached to a root store
+  todo.setText("ab")
+  expect(events).toEqual([])
+
+  const store = registerRootStore(new Store({}))
+  store.addTodo(todo)
+  expect(events).toEqual(["autorun ab"])
+  expect(getModelEffects(todo).map(e => e.isRunning)).toEqual([true, true])
+
+  events.length = 0
+  todo.setText("abc")
+  expect(events).toEqual(["autorun abc", "reaction 3"])
+  expect(todo.length).toBe(3)
+
+  // kept running when moved within the root store
+  events.length = 0
+  store.markDone(0)
+  expect(events).toEqual([])
+  expect(getModelEffects(todo).map(e => e.isRunning)).toEqual([true, true])
+
+  // stopped once detached
+  detach(todo)
+  expect(getModelEffects(todo).map(e => e.isRunning)).toEqual([false, false])
+  todo.setText("abcd")
+  expect(events).toEqual([])
+
+  // and started again once attached
+  store.addTodo(todo)
+  expect(events).toEqual(["autorun abcd"])
+
+  events.length = 0
+  unregisterRootStore(store)
+  todo.setText("abcde")
+  expect(events).toEqual([])
+})
+
+test("modelEffect", () => {
+  const store = registerRootStore(new Store({ todos: [new Todo({ text: "a" })] }))
+  const todo = store.todos[0]
+  events.length = 0
+
+  // started right away since the model is already part of a root store
+  const dispose = modelEffect(
+    todo,
+    "textReaction",
+    () => todo.text,
+    text => {
+      events.push(`custom ${text}`)
+    },
+    { fireImmediately: true }
+  )
+  expect(events).toEqual(["custom a"])
+  expect(getModelEffects(todo).map(e => e.name)).toEqual([
+    "logText",
+    "updateLength",
+    "textReaction",
+  ])
+
+  expect(() => modelEffect(todo, "logText", () => {})).toThrow(
+    "an effect named 'logText' is already registered for this model"
+  )
+
+  events.length = 0
+  dispose()
+  expect(getModelEffects(todo).map(e => e.name)).toEqual(["logText", "updateLength"])
+  todo.setText("b")
+  // the disposed effect no longer runs
+  expect(events).toEqual(["autorun b"])
+})
+
+test("invalid usage", () => {
+  expect(() => effect({ expression: 5 as any })).toThrow("expression must be a function")
+
+  expect(() => {
+    @model("effect/Invalid")
+    class Invalid extends Model({}) {
+      @effect
+      notAMethod = 5
+    }
+    return Invalid
+  }).toThrow("effect has to be used over methods")
+})
@@ -0,0 +1,202 @@
+import { autorun } from "mobx"
+import {
+  applySnapshot,
+  createModelPropIndex,
+  detach,
+  ExtendedModel,
+  getNodeById,
+  getNodesByModelType,
+  getSnapshot,
+  model,
+  Model,
+  modelAction,
+  modelIdKey,
+  prop,
+} from "../../src"
+import { getTreeIndexesKeyCount } from "../../src/parent/treeIndex"
+import "../commonSetup"
+import { autoDispose } from "../utils"
+
+class BaseTodo extends Model({
+  text: prop<string>(),
+  owner: prop<string | undefined>(),
+}) {
+  @modelAction
+  setOwner(owner: string | undefined) {
+    this.owner = owner
+  }
+
+  @modelAction
+  setId(id: string) {
+    this[modelIdKey] = id
+  }
+}
+
+@model("treeIndex/Todo")
+class Todo extends ExtendedModel(BaseTodo, {}) {}
+
+@model("treeIndex/ImportantTodo")
+class ImportantTodo extends ExtendedModel(BaseTodo, {}) {}
+
+@model("treeIndex/TodoList")
+class TodoList extends Model({
+  todos: prop<BaseTodo[]>(() => []),
+  lists: prop<TodoList[]>(() => []),
+}) {
+  @modelAction
+  addTodo(todo: BaseTodo) {
+    this.todos.push(todo)
+  }
+
+  @modelAction
+  addList(list: TodoList) {
+    this.lists.push(list)
+  }
+}
+
+function createTree() {
+  const inner = new TodoList({
+    todos: [new ImportantTodo({ text: "c", owner: "mary" })],
+  })
+  return new TodoList({
+    todos: [new Todo({ text: "a", owner: "john" }), new Todo({ text: "b" })],
+    lists: [inner],
+  })
+}
+
+test("getNodeById", () => {
+  const root = createTree()
+  const [a, b] = root.todos
+  const c = root.lists[0].todos[0]
+
+  expect(getNodeById(root, a.$modelId)).toBe(a)
+  expect(getNodeById(root, c.$modelId)).toBe(c)
+  expect(getNodeById(root, root.$modelId)).toBe(root)
+  expect(getNodeById(root, "nope")).toBe(undefined)
+  // subtrees have their own index
+  expect(getNodeById(root.lists[0], a.$modelId)).toBe(undefined)
+  expect(getNodeById(root.lists[0], c.$modelId)).toBe(c)
+
+  const found: (object | undefined)[] = []
+  autoDispose(
+    autorun(() => {
+      found.push(getNodeById(root, "newId"))
+    })
+  )
+
+  // id changes
+  b.setId("newId")
+  expect(getNodeById(root, "newId")).toBe(b)
+
+  // detached / attached nodes
+  detach(b)
+  expect(getNodeById(root, "newId")).toBe(undefined)
+
+  root.lists[0].addTodo(b)
+  expect(getNodeById(root, "newId")).toBe(b)
+  expect(getNodeById(root.lists[0], "newId")).toBe(b)
+
+  expect(found).toEqual([undefined, b, undefined, b])
+})
+
+test("getNodesByModelType", () => {
+  const root = createTree()
+  const [a, b] = root.todos
+  const c = root.lists[0].todos[0]
+
+  // including subclasses
+  const todos = getNodesByModelType(root, BaseTodo)
+  expect([...todos]).toEqual([a, b, c])
+  expect([...getNodesByModelType(root, Todo)]).toEqual([a, b])
+  expect([...getNodesByModelType(root, ImportantTodo)]).toEqual([c])
+  expect([...getNodesByModelType(root, TodoList)]).toEqual([root, root.lists[0]])
+
+  const sizes: number[] = []
+  autoDispose(
+    autorun(() => {
+      sizes.push(todos.size)
+    })
+  )
+
+  // whole subtrees
+  const inner = new TodoList({ todos: [new Todo({ text: "d" }), new Todo({ text: "e" })] })
+  root.addList(inner)
+  expect(todos.size).toBe(5)
+  detach(root.lists[0])
+  expect([...todos].map(t => t.text)).toEqual(["a", "b", "d", "e"])
+
+  // snapshots
+  applySnapshot(root, { ...getSnapshot(root), lists: [] })
+  expect([...todos]).toEqual([a, b])
+
+  expect(sizes).toEqual([3, 5, 4, 2])
+})
+
+test("createModelPropIndex", () => {
+  const byOwner = createModelPropIndex(BaseTodo, "owner")
+
+  const root = createTree()
+  const [a, b] = root.todos
+  const c = root.lists[0].todos[0]
+
+  expect([...byOwner.get(root, "john")]).toEqual([a])
+  expect([...byOwner.get(root, "mary")]).toEqual([c])
+  expect([...byOwner.get(root, undefined)]).toEqual([b])
+
+  b.setOwner("john")
+  c.setOwner(undefined)
+  expect([...byOwner.get(root, "john")]).toEqual([a, b])
+  expect([...byOwner.get(root, "mary")]).toEqual([])
+  expect([...byOwner.get(root, undefined)]).toEqual([c])
+
+  // props of detached nodes are not indexed anymore
+  detach(a)
+  a.setOwner("mary")
+  expect([...byOwner.get(root, "john")]).toEqual([b])
+  expect([...byOwner.get(root, "mary")]).toEqual([])
+
+  expect(() => createModelPropIndex(BaseTodo, 5 as any)).toThrow("propName must be a string")
+})
+
+test("only keys with nodes or being observed are kept", () => {
+  const byOwner = createModelPropIndex(BaseTodo, "owner")
+
+  const root = createTree()
+  const [a, b] = root.todos
+
+  // ids of the 5 models
+  expect(getNodeById(root, a.$modelId)).toBe(a)
+  expect(getTreeIndexesKeyCount(root)).toBe(5)
+
+  // lookups of missing keys
+  for (let i = 0; i < 10; i++) {
+    expect(getNodeById(root, `missing${i}`)).toBe(undefined)
+    expect([...byOwner.get(root, `missing${i}`)]).toEqual([])
+  }
+  // plus 3 owners
+  expect(getTreeIndexesKeyCount(root)).toBe(8)
+
+  // old prop values and ids
+  for (let i = 0; i < 10; i++) {
+    a.setOwner(`owner${i}`)
+    a.setId(`id${i}`)
+  }
+  expect(getTreeIndexesKeyCount(root)).toBe(8)
+
+  // removed nodes
+  detach(root.lists[0])
+  expect(getTreeIndexesKeyCount(root)).toBe(5)
+
+  // missing keys being observed are kept until no longer observed
+  const found: (object | undefined)[] = []
+  const disposer = autorun(() => {
+    found.push(getNodeById(root, "later"))
+  })
+  expect(getTreeIndexesKeyCount(root)).toBe(6)
+  b.setId("later")
+  b.setId("other")
+  expect(found).toEqual([undefined, b, undefined])
+  expect(getTreeIndexesKeyCount(root)).toBe(6)
+  disposer()
+  expect(getTreeIndexesKeyCount(root)).toBe(5)
+})
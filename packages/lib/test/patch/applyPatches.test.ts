@@ -90,6 +90,67 @@ describe("array", () => {
     })
     expect(p.arr).toEqual([1, 10, 3])
   })
+
+  test("add at the end", () => {
+    runUnprotected(() => {
+      applyPatches(p, [
+        {
+          op: "add",
+          path: ["arr", "-"],
+          value: 10,
+        },
+        {
+          op: "add",
+          path: ["arr", 4],
+          value: 11,
+        },
+      ])
+    })
+    expect(p.arr).toEqual([1, 2, 3, 10, 11])
+  })
+
+  test("remove / replace at the end", () => {
+    const obj = p
+    for (const op of ["remove", "replace"] as const) {
+      expect(() =>
+        runUnprotected(() => {
+          applyPatches(obj, [
+            {
+              op,
+              path: ["arr", "-"],
+              value: 10,
+            },
+          ])
+        })
+      ).toThrow('invalid array index at path ["arr","-"]')
+    }
+    expect(p.arr).toEqual([1, 2, 3])
+  })
+
+  test("out of range indexes", () => {
+    const invalidPatches = [
+      { op: "add", path: ["arr", 4], value: 10 },
+      { op: "add", path: ["arr", -1], value: 10 },
+      { op: "remove", path: ["arr", 3] },
+      { op: "remove", path: ["arr", "x"] },
+      { op: "replace", path: ["arr", 3], value: 10 },
+      { op: "move", from: ["arr", 3], path: ["arr", 0] },
+      { op: "copy", from: ["arr", 1.5], path: ["arr", 0] },
+      { op: "test", path: ["arr", 3], value: 10 },
+    ] as const
+
+    const obj = p
+    for (const patch of invalidPatches) {
+      expect(() =>
+        runUnprotected(() => {
+          applyPatches(obj, [patch])
+        })
+      ).toThrow(
+        `invalid array index at path ${JSON.stringify("from" in patch ? patch.from : patch.path)}`
+      )
+    }
+    expect(p.arr).toEqual([1, 2, 3])
+  })
 })
 
 describe("whole object", () => {
@@ -133,3 +194,121 @@ describe("whole object", () => {
     expect(p.p2!.y).toBe(20)
   })
 })
+
+describe("move", () => {
+  test("array", () => {
+    runUnprotected(() => {
+      applyPatches(p, [
+        {
+          op: "move",
+          from: ["arr", "0"],
+          path: ["arr", "-"],
+        },
+      ])
+    })
+    expect(p.arr).toEqual([2, 3, 1])
+  })
+
+  test("whole object (keeps the instance)", () => {
+    const oldP2 = p.p2!
+    runUnprotected(() => {
+      applyPatches(p, [
+        {
+          op: "move",
+          from: ["p2"],
+          path: ["p3"],
+        },
+      ])
+    })
+    expect(p.p2).toBeUndefined()
+    expect((p.$ as any).p3).toBe(oldP2)
+  })
+
+  test("into one of its children", () => {
+    expect(() =>
+      runUnprotected(() => {
+        applyPatches(p, [
+          {
+            op: "move",
+            from: ["p2"],
+            path: ["p2", "z"],
+          },
+        ])
+      })
+    ).toThrow("a value cannot be moved into one of its children")
+  })
+})
+
+describe("copy", () => {
+  test("array", () => {
+    runUnprotected(() => {
+      applyPatches(p, [
+        {
+          op: "copy",
+          from: ["arr", "2"],
+          path: ["arr", "0"],
+        },
+      ])
+    })
+    expect(p.arr).toEqual([3, 1, 2, 3])
+  })
+
+  test("whole object (creates a new instance)", () => {
+    runUnprotected(() => {
+      applyPatches(p, [
+        {
+          op: "copy",
+          from: ["p2"],
+          path: ["p3"],
+        },
+      ])
+    })
+    expect((p.$ as any).p3).not.toBe(p.p2)
+    expect(getSnapshot((p.$ as any).p3)).toStrictEqual(getSnapshot(p.p2))
+  })
+})
+
+describe("test", () => {
+  test("passes", () => {
+    runUnprotected(() => {
+      applyPatches(p, [
+        {
+          op: "test",
+          path: ["arr"],
+          value: [1, 2, 3],
+        },
+        {
+          op: "test",
+          path: ["p2"],
+          value: getSnapshot(p.p2),
+        },
+        {
+          op: "replace",
+          path: ["x"],
+          value: 10,
+        },
+      ])
+    })
+    expect(p.x).toBe(10)
+  })
+
+  test("fails", () => {
+    expect(() =>
+      runUnprotected(() => {
+        applyPatches(p, [
+          {
+            op: "test",
+            path: ["p2", "y"],
+            value: 13,
+          },
+          {
+            op: "replace",
+            path: ["x"],
+            value: 10,
+          },
+        ])
+      })
+    ).toThrow('test patch failed at path ["p2","y"]')
+    expect(p.x).toBe(5)
+  })
+})
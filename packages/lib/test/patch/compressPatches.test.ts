@@ -0,0 +1,197 @@
+import {
+  applyPatches,
+  compressPatches,
+  fromSnapshot,
+  getSnapshot,
+  mergePatches,
+  model,
+  Model,
+  onPatches,
+  Patch,
+  prop,
+  runUnprotected,
+} from "../../src"
+import "../commonSetup"
+
+@model("compressPatches/Tree")
+class Tree extends Model({
+  data: prop<any>(() => ({ arr: [0, 1, 2] })),
+}) {}
+
+test("compressPatches", () => {
+  expect(
+    compressPatches([
+      { op: "replace", path: ["x"], value: 1 },
+      { op: "replace", path: ["y"], value: 1 },
+      { op: "replace", path: ["x"], value: 2 },
+      { op: "add", path: ["z"], value: 1 },
+      { op: "replace", path: ["z"], value: 2 },
+      { op: "add", path: ["w"], value: 1 },
+      { op: "remove", path: ["w"] },
+      { op: "remove", path: ["v"] },
+      { op: "add", path: ["v"], value: 3 },
+      { op: "replace", path: ["obj", "a"], value: 1 },
+      { op: "add", path: ["obj", "b"], value: 1 },
+      { op: "replace", path: ["obj"], value: {} },
+    ])
+  ).toEqual([
+    { op: "replace", path: ["x"], value: 2 },
+    { op: "replace", path: ["y"], value: 1 },
+    { op: "add", path: ["z"], value: 2 },
+    { op: "replace", path: ["v"], value: 3 },
+    { op: "replace", path: ["obj"], value: {} },
+  ])
+
+  // array index shifts prevent merging
+  const arrPatches: Patch[] = [
+    { op: "replace", path: ["arr", 1], value: 1 },
+    { op: "add", path: ["arr", 0], value: 0 },
+    { op: "replace", path: ["arr", 1], value: 2 },
+  ]
+  expect(compressPatches(arrPatches)).toEqual(arrPatches)
+
+  // but not if they are in unrelated arrays
+  expect(
+    compressPatches([
+      { op: "replace", path: ["arr", 1], value: 1 },
+      { op: "add", path: ["arr2", 0], value: 0 },
+      { op: "replace", path: ["arr", "1"], value: 2 },
+    ])
+  ).toEqual([
+    { op: "replace", path: ["arr", 1], value: 2 },
+    { op: "add", path: ["arr2", 0], value: 0 },
+  ])
+
+  expect(() => compressPatches({} as any)).toThrow("patches must be an array")
+})
+
+test("mergePatches", () => {
+  expect(
+    mergePatches([
+      {
+        patches: [{ op: "replace", path: ["x"], value: 1 }],
+        inversePatches: [{ op: "replace", path: ["x"], value: 0 }],
+      },
+      {
+        patches: [{ op: "replace", path: ["x"], value: 2 }],
+        inversePatches: [{ op: "replace", path: ["x"], value: 1 }],
+      },
+    ])
+  ).toEqual({
+    patches: [{ op: "replace", path: ["x"], value: 2 }],
+    inversePatches: [{ op: "replace", path: ["x"], value: 0 }],
+  })
+})
+
+// a small deterministic pseudo random generator so failures can be reproduced
+function createRandom(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function randomMutation(tree: Tree, random: () => number) {
+  const randomInt = (max: number) => Math.floor(random() * max)
+
+  const randomValue = (): any => {
+    switch (randomInt(6)) {
+      case 0:
+        return [randomInt(10)]
+      case 1:
+        return { a: randomInt(10) }
+      default:
+        return randomInt(10)
+    }
+  }
+
+  // collect containers
+  const containers: any[] = []
+  const collect = (v: any): void => {
+    if (Array.isArray(v)) {
+      containers.push(v)
+      v.forEach(collect)
+    } else if (typeof v === "object" && v !== null) {
+      containers.push(v)
+      Object.values(v).forEach(collect)
+    }
+  }
+  collect(tree.data)
+
+  // arrays are the trickiest part, so they are favored
+  const arrays = containers.filter(c => Array.isArray(c))
+  const container =
+    arrays.length > 0 && random() < 0.7
+      ? arrays[randomInt(arrays.length)]
+      : containers[randomInt(containers.length)]
+
+  if (Array.isArray(container)) {
+    const op = randomInt(4)
+    if (op === 0 || container.length <= 0) {
+      container.splice(randomInt(container.length + 1), 0, randomValue())
+    } else if (op === 1) {
+      container.splice(randomInt(container.length), 1)
+    } else {
+      container[randomInt(container.length)] = randomValue()
+    }
+  } else {
+    const keys = Object.keys(container)
+    const op = randomInt(3)
+    if (op === 0 && keys.length > 0) {
+      delete container[keys[randomInt(keys.length)]]
+    } else {
+      const key = ["a", "b", "c", "d"][randomInt(4)]
+      container[key] = randomValue()
+    }
+  }
+}
+
+test("compressPatches / mergePatches generate patches equivalent to the original ones", () => {
+  const random = createRandom(1234)
+
+  for (let run = 0; run < 200; run++) {
+    const tree = new Tree({})
+    // start with some random data
+    runUnprotected(() => {
+      for (let i = 0; i < 5; i++) {
+        randomMutation(tree, random)
+      }
+    })
+
+    const initialSn = getSnapshot(tree)
+
+    const lists: { patches: Patch[]; inversePatches: Patch[] }[] = []
+    const disposer = onPatches(tree, (patches, inversePatches) => {
+      lists.push({ patches, inversePatches })
+    })
+    runUnprotected(() => {
+      for (let i = 0; i < 30; i++) {
+        randomMutation(tree, random)
+      }
+    })
+    disposer()
+
+    const finalSn = getSnapshot(tree)
+
+    const allPatches = ([] as Patch[]).concat(...lists.map(l => l.patches))
+    const compressed = compressPatches(allPatches)
+    expect(compressed.length).toBeLessThanOrEqual(allPatches.length)
+
+    const merged = mergePatches(lists)
+    expect(merged.patches).toEqual(compressed)
+
+    const forward = fromSnapshot<Tree>(initialSn)
+    runUnprotected(() => {
+      applyPatches(forward, merged.patches)
+    })
+    expect(getSnapshot(forward)).toStrictEqual(finalSn)
+
+    const backward = fromSnapshot<Tree>(finalSn)
+    runUnprotected(() => {
+      applyPatches(backward, merged.inversePatches)
+    })
+    expect(getSnapshot(backward)).toStrictEqual(initialSn)
+  }
+})
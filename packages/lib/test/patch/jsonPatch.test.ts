@@ -0,0 +1,101 @@
+import {
+  applyPatches,
+  getSnapshot,
+  jsonPatchToPatch,
+  jsonPointerToPath,
+  onPatches,
+  Patch,
+  patchToJsonPatch,
+  pathToJsonPointer,
+  runUnprotected,
+} from "../../src"
+import "../commonSetup"
+import { createP } from "../testbed"
+import { autoDispose } from "../utils"
+
+test("pathToJsonPointer / jsonPointerToPath", () => {
+  expect(pathToJsonPointer([])).toBe("")
+  expect(pathToJsonPointer(["a", 0, "b"])).toBe("/a/0/b")
+  expect(pathToJsonPointer(["a/b", "c~d", "", "~1"])).toBe("/a~1b/c~0d//~01")
+
+  expect(jsonPointerToPath("")).toEqual([])
+  expect(jsonPointerToPath("/")).toEqual([""])
+  expect(jsonPointerToPath("/a/0/b")).toEqual(["a", "0", "b"])
+  expect(jsonPointerToPath("/a~1b/c~0d//~01")).toEqual(["a/b", "c~d", "", "~1"])
+
+  expect(() => jsonPointerToPath("a")).toThrow("invalid JSON pointer: a")
+  expect(() => jsonPointerToPath("/a~2")).toThrow("invalid JSON pointer: /a~2")
+  expect(() => jsonPointerToPath("/a~")).toThrow("invalid JSON pointer: /a~")
+})
+
+test("patchToJsonPatch / jsonPatchToPatch", () => {
+  expect(patchToJsonPatch({ op: "add", path: ["arr", 0], value: { x: 1 } })).toEqual({
+    op: "add",
+    path: "/arr/0",
+    value: { x: 1 },
+  })
+  expect(patchToJsonPatch({ op: "remove", path: ["a/b"] })).toEqual({
+    op: "remove",
+    path: "/a~1b",
+  })
+  expect(patchToJsonPatch({ op: "move", from: ["arr", 0], path: ["arr", "-"] })).toEqual({
+    op: "move",
+    from: "/arr/0",
+    path: "/arr/-",
+  })
+
+  expect(jsonPatchToPatch({ op: "replace", path: "/x", value: 5 })).toEqual({
+    op: "replace",
+    path: ["x"],
+    value: 5,
+  })
+  expect(jsonPatchToPatch({ op: "test", path: "/x", value: null })).toEqual({
+    op: "test",
+    path: ["x"],
+    value: null,
+  })
+  expect(jsonPatchToPatch({ op: "copy", from: "/a", path: "/b" })).toEqual({
+    op: "copy",
+    from: ["a"],
+    path: ["b"],
+  })
+
+  expect(jsonPatchToPatch({ op: "add", path: "/x" })).toEqual({
+    op: "add",
+    path: ["x"],
+    value: undefined,
+  })
+  expect(() => jsonPatchToPatch({ op: "move", path: "/x" })).toThrow(
+    "move operation must have a from pointer"
+  )
+  expect(() => jsonPatchToPatch({ op: "foo", path: "/x" } as any)).toThrow(
+    "unsupported JSON patch operation: foo"
+  )
+})
+
+test("round-trip through JSON patches", () => {
+  const p = createP(true)
+  const p2 = createP(true)
+
+  const jsonPatches: string[] = []
+  autoDispose(
+    onPatches(p, (patches: Patch[]) => {
+      jsonPatches.push(JSON.stringify(patches.map(patchToJsonPatch)))
+    })
+  )
+
+  runUnprotected(() => {
+    p.x = 10
+    p.arr.splice(1, 1, 20, 30)
+    p.p2!.y = 100
+    p.p2 = undefined
+  })
+
+  runUnprotected(() => {
+    jsonPatches.forEach(json => {
+      applyPatches(p2, JSON.parse(json).map(jsonPatchToPatch))
+    })
+  })
+
+  expect(getSnapshot(p2)).toStrictEqual({ ...getSnapshot(p), $modelId: p2.$modelId })
+})
@@ -0,0 +1,307 @@
+import {
+  applyPatches,
+  diffSnapshots,
+  fromSnapshot,
+  getSnapshot,
+  model,
+  Model,
+  modelAction,
+  onPatches,
+  Patch,
+  prop,
+  rebasePatches,
+  runUnprotected,
+  SnapshotOutOf,
+} from "../../src"
+import "../commonSetup"
+
+@model("rebasePatches/Item")
+class Item extends Model({
+  text: prop<string>(),
+  done: prop(false),
+}) {
+  @modelAction
+  setDone(done: boolean) {
+    this.done = done
+  }
+}
+
+@model("rebasePatches/List")
+class List extends Model({
+  title: prop(""),
+  items: prop<Item[]>(() => []),
+}) {
+  @modelAction
+  setTitle(title: string) {
+    this.title = title
+  }
+
+  @modelAction
+  addItem(text: string, index = this.items.length) {
+    const item = new Item({ text })
+    this.items.splice(index, 0, item)
+    return item
+  }
+
+  @modelAction
+  removeItem(index: number) {
+    this.items.splice(index, 1)
+  }
+}
+
+function createBase() {
+  const list = new List({})
+  list.addItem("a")
+  list.addItem("b")
+  list.addItem("c")
+  return getSnapshot(list)
+}
+
+function recordPatches(baseSn: SnapshotOutOf<List>, fn: (list: List) => void) {
+  const list = fromSnapshot<List>(baseSn)
+  const patches: Patch[] = []
+  const disposer = onPatches(list, p => {
+    patches.push(...p)
+  })
+  fn(list)
+  disposer()
+  return patches
+}
+
+function applyRebased(
+  baseSn: SnapshotOutOf<List>,
+  localPatches: Patch[],
+  remotePatches: Patch[]
+): List {
+  const list = fromSnapshot<List>(baseSn)
+  runUnprotected(() => {
+    applyPatches(list, remotePatches)
+    applyPatches(list, rebasePatches(localPatches, remotePatches))
+  })
+  return list
+}
+
+test("unrelated changes are kept", () => {
+  const base = createBase()
+
+  const local = recordPatches(base, list => {
+    list.setTitle("local")
+  })
+  const remote = recordPatches(base, list => {
+    list.items[1].setDone(true)
+  })
+
+  expect(rebasePatches(local, remote)).toEqual(local)
+
+  const list = applyRebased(base, local, remote)
+  expect(list.title).toBe("local")
+  expect(list.items[1].done).toBe(true)
+})
+
+test("local changes win over remote changes to the same path", () => {
+  const base = createBase()
+
+  const local = recordPatches(base, list => {
+    list.setTitle("local")
+  })
+  const remote = recordPatches(base, list => {
+    list.setTitle("remote")
+  })
+
+  expect(applyRebased(base, local, remote).title).toBe("local")
+})
+
+test("local changes over remotely removed targets are dropped", () => {
+  const base = createBase()
+
+  const local = recordPatches(base, list => {
+    list.items[2].setDone(true)
+  })
+  const remote = recordPatches(base, list => {
+    list.removeItem(2)
+  })
+
+  expect(rebasePatches(local, remote)).toEqual([])
+  expect(applyRebased(base, local, remote).items.map(item => item.text)).toEqual(["a", "b"])
+
+  // removing the same item twice is a no-op
+  const removal: Patch[] = [{ op: "remove", path: ["items", 1] }]
+  expect(rebasePatches(removal, removal)).toEqual([])
+})
+
+test("array indexes are shifted", () => {
+  const base = createBase()
+
+  const local = diffSnapshots(
+    base,
+    getSnapshot(
+      recordAndGet(base, list => {
+        list.items[2].setDone(true)
+        list.addItem("local", 2)
+      })
+    )
+  ).patches
+  const remote = diffSnapshots(
+    base,
+    getSnapshot(
+      recordAndGet(base, list => {
+        list.removeItem(0)
+        list.addItem("remote", 1)
+      })
+    )
+  ).patches
+
+  expect(rebasePatches(local, remote)).toMatchInlineSnapshot(`
+    Array [
+      Object {
+        "op": "add",
+        "path": Array [
+          "items",
+          1,
+        ],
+        "value": Object {
+          "$modelId": "id-17",
+          "$modelType": "rebasePatches/Item",
+          "done": false,
+          "text": "local",
+        },
+      },
+      Object {
+        "op": "replace",
+        "path": Array [
+          "items",
+          3,
+          "done",
+        ],
+        "value": true,
+      },
+    ]
+  `)
+
+  const list = applyRebased(base, local, remote)
+  expect(list.items.map(item => [item.text, item.done])).toEqual([
+    ["b", false],
+    ["local", false],
+    ["remote", false],
+    ["c", true],
+  ])
+})
+
+test("items added at the same index", () => {
+  const base = createBase()
+
+  const local = [{ op: "add", path: ["items", 1], value: getSnapshot(new Item({ text: "local" })) }]
+  const remote = [
+    { op: "add", path: ["items", 1], value: getSnapshot(new Item({ text: "remote" })) },
+  ]
+
+  const list = applyRebased(base, local as Patch[], remote as Patch[])
+  expect(list.items.map(item => item.text)).toEqual(["a", "local", "remote", "b", "c"])
+})
+
+test("truncated arrays", () => {
+  const base = createBase()
+
+  // onPatches describes the removal of the last item as a replace of the array length
+  const remote = recordPatches(base, list => {
+    list.removeItem(2)
+  })
+  expect(remote).toEqual([{ op: "replace", path: ["items", "length"], value: 2 }])
+
+  const local = recordPatches(base, list => {
+    list.items[2].setDone(true)
+    list.items[1].setDone(true)
+    list.addItem("d")
+  })
+
+  const list = applyRebased(base, local, remote)
+  expect(list.items.map(item => [item.text, item.done])).toEqual([
+    ["a", false],
+    ["b", true],
+    ["d", false],
+  ])
+})
+
+test("random concurrent changes", () => {
+  // mulberry32
+  let seed = 7
+  const random = () => {
+    seed = (seed + 0x6d2b79f5) | 0
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+  const randomInt = (max: number) => Math.floor(random() * max)
+
+  let textId = 0
+
+  const randomChanges = (list: List, added: Set<string>, removed: Set<string>) => {
+    const changes = 1 + randomInt(4)
+    for (let i = 0; i < changes; i++) {
+      const len = list.items.length
+      const r = randomInt(3)
+      if (r === 0 || len === 0) {
+        const text = `t${textId++}`
+        added.add(text)
+        list.addItem(text, randomInt(len + 1))
+      } else if (r === 1) {
+        const index = randomInt(len)
+        removed.add(list.items[index].text)
+        list.removeItem(index)
+      } else {
+        list.items[randomInt(len)].setDone(true)
+      }
+    }
+  }
+
+  for (let run = 0; run < 200; run++) {
+    const baseList = new List({})
+    const baseLen = randomInt(6)
+    for (let i = 0; i < baseLen; i++) {
+      baseList.addItem(`t${textId++}`)
+    }
+    const base = getSnapshot(baseList)
+
+    const added = new Set<string>()
+    const removed = new Set<string>()
+
+    const localList = fromSnapshot<List>(base)
+    randomChanges(localList, added, removed)
+    const remoteList = fromSnapshot<List>(base)
+    randomChanges(remoteList, added, removed)
+
+    const local = diffSnapshots(base, getSnapshot(localList)).patches
+    const remote = diffSnapshots(base, getSnapshot(remoteList)).patches
+
+    const list = applyRebased(base, local, remote)
+    const texts = list.items.map(item => item.text)
+
+    // all added items and no removed items are there, in the order both sides expect
+    const expectedTexts = [...base.items.map(item => item.text), ...added].filter(
+      text => !removed.has(text)
+    )
+    expect([...texts].sort()).toEqual(expectedTexts.sort())
+
+    const isOrderedAs = (otherTexts: string[]) => {
+      const common = otherTexts.filter(text => texts.includes(text))
+      return texts.filter(text => common.includes(text))
+    }
+    const localTexts = localList.items.map(item => item.text)
+    expect(isOrderedAs(localTexts)).toEqual(localTexts.filter(text => texts.includes(text)))
+    const remoteTexts = remoteList.items.map(item => item.text)
+    expect(isOrderedAs(remoteTexts)).toEqual(remoteTexts.filter(text => texts.includes(text)))
+
+    // done flags set on surviving items are kept
+    for (const item of [...localList.items, ...remoteList.items]) {
+      if (item.done && texts.includes(item.text)) {
+        expect(list.items.find(i => i.text === item.text)!.done).toBe(true)
+      }
+    }
+  }
+})
+
+function recordAndGet(baseSn: SnapshotOutOf<List>, fn: (list: List) => void) {
+  const list = fromSnapshot<List>(baseSn)
+  fn(list)
+  return list
+}
@@ -0,0 +1,266 @@
+import { reaction, when } from "mobx"
+import { assert, _ } from "spec.ts"
+import {
+  AsyncRef,
+  asyncRef,
+  getRoot,
+  getSnapshot,
+  isRefOfType,
+  model,
+  Model,
+  modelAction,
+  prop,
+} from "../../src"
+import "../commonSetup"
+import { autoDispose } from "../utils"
+
+@model("asyncRef/User")
+class User extends Model({
+  id: prop<string>(),
+  name: prop<string>(),
+}) {
+  getRefId() {
+    return this.id
+  }
+}
+
+const serverUsers: Record<string, string> = { u1: "John", u2: "Mary" }
+let loads: string[] = []
+
+function createDeferred<T>() {
+  let resolve!: (value: T) => void
+  const promise = new Promise<T>(r => {
+    resolve = r
+  })
+  return { promise, resolve }
+}
+
+let pendingLoad = createDeferred<void>()
+
+async function loadUser(id: string) {
+  loads.push(id)
+  await pendingLoad.promise
+  if (!serverUsers[id]) {
+    throw new Error(`user ${id} not found`)
+  }
+  return new User({ id, name: serverUsers[id] })
+}
+
+function storeUser(user: User, ref: AsyncRef<User>) {
+  getRoot<Store>(ref).addUser(user)
+}
+
+const userRef = asyncRef<User>("asyncRef/UserRef", {
+  load: loadUser,
+  store: storeUser,
+  autoLoad: false,
+})
+
+const autoUserRef = asyncRef<User>("asyncRef/AutoUserRef", {
+  load: loadUser,
+  store: storeUser,
+})
+
+@model("asyncRef/Post")
+class Post extends Model({
+  author: prop<AsyncRef<User>>(),
+}) {}
+
+@model("asyncRef/Store")
+class Store extends Model({
+  users: prop<User[]>(() => []),
+  posts: prop<Post[]>(() => []),
+}) {
+  @modelAction
+  addUser(user: User) {
+    this.users.push(user)
+  }
+}
+
+beforeEach(() => {
+  loads = []
+  pendingLoad = createDeferred<void>()
+})
+
+test("missing targets are loaded and stored", async () => {
+  const store = new Store({
+    posts: [new Post({ author: userRef("u1") }), new Post({ author: userRef("u1") })],
+  })
+  const [ref1, ref2] = store.posts.map(p => p.author)
+  assert(ref1, _ as AsyncRef<User>)
+  expect(isRefOfType(ref1, userRef)).toBe(true)
+  expect(ref1.isValid).toBe(false)
+  expect(ref1.isLoading).toBe(false)
+
+  const resolved: (User | undefined)[] = []
+  autoDispose(
+    reaction(
+      () => ref1.maybeCurrent,
+      user => {
+        resolved.push(user)
+      }
+    )
+  )
+  const loadingStates: boolean[] = []
+  autoDispose(
+    reaction(
+      () => ref1.isLoading,
+      loading => {
+        loadingStates.push(loading)
+      }
+    )
+  )
+
+  const promise1 = ref1.load()
+  expect(ref1.load()).toBe(promise1)
+  const promise2 = ref2.load()
+  expect(ref1.isLoading).toBe(true)
+  expect(ref2.isLoading).toBe(true)
+  // loads of the same id are shared
+  expect(loads).toEqual(["u1"])
+
+  pendingLoad.resolve()
+  const user = await promise1
+  expect(await promise2).toBe(user)
+  expect(store.users).toEqual([user])
+  expect(user.name).toBe("John")
+
+  expect(ref1.current).toBe(user)
+  expect(ref2.current).toBe(user)
+  expect(ref1.isLoading).toBe(false)
+  expect(resolved).toEqual([user])
+  expect(loadingStates).toEqual([true, false])
+
+  // already resolved
+  expect(await ref1.load()).toBe(user)
+  expect(loads).toEqual(["u1"])
+})
+
+test("load errors", async () => {
+  const store = new Store({
+    posts: [new Post({ author: userRef("u3") })],
+  })
+  const ref = store.posts[0].author
+
+  const promise = ref.load()
+  pendingLoad.resolve()
+  await expect(promise).rejects.toThrow("user u3 not found")
+  expect(ref.isLoading).toBe(false)
+  expect((ref.loadError as Error).message).toBe("user u3 not found")
+  expect(store.users).toEqual([])
+
+  // it can be retried
+  serverUsers.u3 = "Jane"
+  const user = await ref.load()
+  expect(ref.loadError).toBe(undefined)
+  expect(ref.current).toBe(user)
+  expect(loads).toEqual(["u3", "u3"])
+})
+
+test("loaders that throw right away", async () => {
+  const throwingLoad = (id: string): Promise<User> => {
+    loads.push(id)
+    throw new Error(`cannot load user ${id}`)
+  }
+  const throwingUserRef = asyncRef<User>("asyncRef/ThrowingUserRef", {
+    load: throwingLoad,
+    store: storeUser,
+    autoLoad: false,
+  })
+  const autoThrowingUserRef = asyncRef<User>("asyncRef/AutoThrowingUserRef", {
+    load: throwingLoad,
+    store: storeUser,
+  })
+
+  const store = new Store({
+    posts: [
+      new Post({ author: throwingUserRef("u1") }),
+      new Post({ author: autoThrowingUserRef("u2") }),
+    ],
+  })
+  const [ref1, ref2] = store.posts.map(p => p.author)
+
+  await expect(ref1.load()).rejects.toThrow("cannot load user u1")
+  expect(ref1.isLoading).toBe(false)
+  expect((ref1.loadError as Error).message).toBe("cannot load user u1")
+
+  expect(ref2.maybeCurrent).toBe(undefined)
+  await when(() => ref2.loadError !== undefined)
+  expect(ref2.isLoading).toBe(false)
+  expect((ref2.loadError as Error).message).toBe("cannot load user u2")
+  expect(loads).toEqual(["u1", "u2"])
+})
+
+test("targets added while loading are not stored again", async () => {
+  const store = new Store({
+    posts: [new Post({ author: userRef("u2") })],
+  })
+  const ref = store.posts[0].author
+
+  const promise = ref.load()
+  const user = new User({ id: "u2", name: "Mary" })
+  store.addUser(user)
+  pendingLoad.resolve()
+
+  expect(await promise).toBe(user)
+  expect(store.users).toEqual([user])
+})
+
+test("refs of different trees waiting for the same load", async () => {
+  const store1 = new Store({ posts: [new Post({ author: userRef("u1") })] })
+  const store2 = new Store({ posts: [new Post({ author: userRef("u1") })] })
+  const ref1 = store1.posts[0].author
+  const ref2 = store2.posts[0].author
+
+  const promise1 = ref1.load()
+  const promise2 = ref2.load()
+  pendingLoad.resolve()
+
+  const user1 = await promise1
+  const user2 = await promise2
+  expect(loads).toEqual(["u1"])
+  expect(ref1.current).toBe(user1)
+  expect(ref2.current).toBe(user2)
+  expect(store1.users).toEqual([user1])
+  expect(store2.users).toEqual([user2])
+  // the second tree gets a copy
+  expect(user2).not.toBe(user1)
+  expect(getSnapshot(user2)).toEqual(getSnapshot(user1))
+  expect(ref2.isLoading).toBe(false)
+})
+
+test("auto load", async () => {
+  const store = new Store({
+    posts: [new Post({ author: autoUserRef("u1") }), new Post({ author: autoUserRef("u4") })],
+  })
+  const [ref1, ref4] = store.posts.map(p => p.author)
+
+  // loading starts as soon as the refs cannot resolve their targets
+  expect(ref1.maybeCurrent).toBe(undefined)
+  await Promise.resolve()
+  expect(ref1.isLoading).toBe(true)
+  expect(ref4.isLoading).toBe(true)
+  expect(loads).toEqual(["u1", "u4"])
+
+  pendingLoad.resolve()
+  await when(() => !ref1.isLoading && !ref4.isLoading)
+  expect(ref1.current).toBe(store.users[0])
+  expect((ref4.loadError as Error).message).toBe("user u4 not found")
+
+  // failed loads are not retried automatically
+  expect(ref4.maybeCurrent).toBe(undefined)
+  await Promise.resolve()
+  expect(ref4.isLoading).toBe(false)
+  expect(loads).toEqual(["u1", "u4"])
+
+  // refs that are not part of a tree are not loaded
+  const detachedRef = autoUserRef("u2")
+  expect(detachedRef.maybeCurrent).toBe(undefined)
+  await Promise.resolve()
+  expect(detachedRef.isLoading).toBe(false)
+  expect(loads).toEqual(["u1", "u4"])
+})
+
+test("invalid options", () => {
+  expect(() => asyncRef("asyncRef/InvalidRef", {} as any)).toThrow("load must be a function")
+})
@@ -0,0 +1,172 @@
+import {
+  getSnapshot,
+  model,
+  Model,
+  modelAction,
+  onPatches,
+  Patch,
+  prop,
+  Ref,
+  rootRef,
+  transaction,
+  undoMiddleware,
+  UndoStore,
+} from "../../src"
+import "../commonSetup"
+import { autoDispose } from "../utils"
+
+@model("danglingRefs/Todo")
+class Todo extends Model({
+  id: prop<string>(),
+}) {
+  getRefId() {
+    return this.id
+  }
+}
+
+const removedTodoRef = rootRef<Todo>("danglingRefs/RemovedTodoRef", { danglingPolicy: "remove" })
+const nullifiedTodoRef = rootRef<Todo>("danglingRefs/NullifiedTodoRef", {
+  danglingPolicy: "nullify",
+})
+const throwingTodoRef = rootRef<Todo>("danglingRefs/ThrowingTodoRef", { danglingPolicy: "throw" })
+const keptTodoRef = rootRef<Todo>("danglingRefs/KeptTodoRef")
+
+@model("danglingRefs/TodoList")
+class TodoList extends Model({
+  undoData: prop(() => new UndoStore({})),
+  todos: prop<Todo[]>(() => []),
+  archived: prop<Todo[]>(() => []),
+  starred: prop<Ref<Todo>[]>(() => []),
+  recent: prop<(Ref<Todo> | null)[]>(() => []),
+  selected: prop<Ref<Todo> | undefined>(),
+  pinned: prop<Ref<Todo> | undefined>(),
+  last: prop<Ref<Todo> | undefined>(),
+}) {
+  @modelAction
+  removeTodo(id: string) {
+    const index = this.todos.findIndex(t => t.id === id)
+    this.todos.splice(index, 1)
+  }
+
+  @transaction
+  @modelAction
+  removeTodoInTransaction(id: string) {
+    this.removeTodo(id)
+  }
+
+  @modelAction
+  archiveTodo(id: string) {
+    const index = this.todos.findIndex(t => t.id === id)
+    const [todo] = this.todos.splice(index, 1)
+    this.archived.push(todo)
+  }
+
+  @modelAction
+  setRefs(refs: Partial<Pick<TodoList, "starred" | "recent" | "selected" | "pinned" | "last">>) {
+    Object.assign(this, refs)
+  }
+}
+
+function createList() {
+  const list = new TodoList({
+    todos: ["a", "b", "c"].map(id => new Todo({ id })),
+  })
+  const [a, b] = list.todos
+  list.setRefs({
+    starred: [removedTodoRef(a), removedTodoRef(b), removedTodoRef(a)],
+    selected: nullifiedTodoRef(a),
+    last: keptTodoRef(a),
+  })
+  return list
+}
+
+test("remove and nullify policies", () => {
+  const list = createList()
+  const [a, b] = list.todos
+  const last = list.last!
+
+  const patches: Patch[][] = []
+  autoDispose(
+    onPatches(list, p => {
+      patches.push(p)
+    })
+  )
+
+  list.removeTodo("a")
+  expect(list.starred.map(r => r.current)).toEqual([b])
+  expect(list.selected).toBe(undefined)
+  expect(list.last).toBe(last)
+  expect(last.isValid).toBe(false)
+
+  // the cleanup is part of the same action
+  expect(patches.map(p => p[0].path[0])).toEqual(["todos", "starred", "starred", "selected"])
+  expect(patches[3]).toEqual([{ op: "replace", path: ["selected"], value: undefined }])
+
+  // refs created while the target is detached are not affected
+  list.setRefs({ selected: nullifiedTodoRef(a) })
+  list.removeTodo("b")
+  expect(list.starred).toEqual([])
+  expect(list.selected!.isValid).toBe(false)
+})
+
+test("nullify policy over array items", () => {
+  const list = createList()
+  const [a, b] = list.todos
+  list.setRefs({ recent: [nullifiedTodoRef(a), nullifiedTodoRef(b)] })
+
+  list.removeTodo("a")
+  expect(list.recent).toHaveLength(2)
+  expect(list.recent[0]).toBe(null)
+  expect(list.recent[1]!.current).toBe(b)
+  expect(getSnapshot(list.recent)[0]).toBe(null)
+})
+
+test("undoing restores the refs", () => {
+  const list = createList()
+  const manager = undoMiddleware(list, list.undoData)
+  autoDispose(() => manager.dispose())
+
+  const { undoData, ...sn } = getSnapshot(list)
+  list.removeTodo("a")
+  expect(list.starred).toHaveLength(1)
+  expect(manager.undoLevels).toBe(1)
+
+  manager.undo()
+  expect(getSnapshot(list)).toStrictEqual({ ...sn, undoData: getSnapshot(list.undoData) })
+  const a = list.todos[0]
+  expect(list.starred[0].current).toBe(a)
+  expect(list.selected!.current).toBe(a)
+})
+
+test("targets moved inside the same action keep their refs", () => {
+  const list = createList()
+  const a = list.todos[0]
+
+  list.archiveTodo("a")
+  expect(list.archived[0]).toBe(a)
+  expect(list.starred).toHaveLength(3)
+  expect(list.selected!.current).toBe(a)
+})
+
+test("throw policy", () => {
+  const list = createList()
+  list.setRefs({ pinned: throwingTodoRef(list.todos[2]) })
+  const sn = getSnapshot(list)
+
+  expect(() => list.removeTodoInTransaction("c")).toThrow(
+    "reference of type 'danglingRefs/ThrowingTodoRef' to id 'c' would be left dangling"
+  )
+  expect(getSnapshot(list)).toStrictEqual(sn)
+  expect(list.pinned!.current).toBe(list.todos[2])
+
+  // removing the ref in the same action is fine
+  list.setRefs({ pinned: undefined })
+  list.removeTodo("c")
+  expect(list.todos).toHaveLength(2)
+})
+
+test("invalid policy", () => {
+  expect(() => rootRef("danglingRefs/InvalidRef", { danglingPolicy: "x" as any })).toThrow(
+    "invalid dangling ref policy: x"
+  )
+})
@@ -0,0 +1,98 @@
+import {
+  applySnapshot,
+  assertRefIntegrity,
+  clone,
+  findInvalidRefs,
+  fromSnapshot,
+  getSnapshot,
+  model,
+  Model,
+  modelAction,
+  prop,
+  Ref,
+  rootRef,
+  setGlobalConfig,
+} from "../../src"
+import "../commonSetup"
+
+@model("refIntegrity/Todo")
+class Todo extends Model({
+  id: prop<string>(),
+}) {
+  getRefId() {
+    return this.id
+  }
+}
+
+const todoRef = rootRef<Todo>("refIntegrity/TodoRef")
+
+@model("refIntegrity/TodoList")
+class TodoList extends Model({
+  todos: prop<Todo[]>(() => []),
+  selected: prop<Ref<Todo> | undefined>(),
+  starred: prop<Ref<Todo>[]>(() => []),
+}) {
+  @modelAction
+  removeTodo(todo: Todo) {
+    this.todos.splice(this.todos.indexOf(todo), 1)
+  }
+}
+
+function createList() {
+  const todos = ["a", "b"].map(id => new Todo({ id }))
+  return new TodoList({
+    todos,
+    selected: todoRef(todos[0]),
+    starred: [todoRef(todos[1]), todoRef(todos[0])],
+  })
+}
+
+afterEach(() => {
+  setGlobalConfig({
+    checkRefIntegrityOnSnapshots: false,
+  })
+})
+
+test("findInvalidRefs / assertRefIntegrity", () => {
+  const list = createList()
+  expect(findInvalidRefs(list)).toEqual([])
+  assertRefIntegrity(list)
+
+  list.removeTodo(list.todos[0])
+  expect(findInvalidRefs(list)).toEqual([
+    { ref: list.selected, path: ["selected"], refType: "refIntegrity/TodoRef", id: "a" },
+    { ref: list.starred[1], path: ["starred", 1], refType: "refIntegrity/TodoRef", id: "a" },
+  ])
+  // paths are root paths, even when looking in a subtree
+  expect(findInvalidRefs(list.starred).map(r => r.path)).toEqual([["starred", 1]])
+
+  expect(() => assertRefIntegrity(list)).toThrow(
+    [
+      "found 2 invalid reference(s):",
+      "- [/selected] reference of type 'refIntegrity/TodoRef' to id 'a'",
+      "- [/starred/1] reference of type 'refIntegrity/TodoRef' to id 'a'",
+    ].join("\n")
+  )
+})
+
+test("automatic checks after fromSnapshot / applySnapshot", () => {
+  const list = createList()
+  const sn = getSnapshot(list)
+  const invalidSn = { ...sn, todos: [sn.todos[1]] }
+
+  // off by default
+  fromSnapshot<TodoList>(invalidSn)
+
+  setGlobalConfig({
+    checkRefIntegrityOnSnapshots: true,
+  })
+
+  expect(() => fromSnapshot<TodoList>(invalidSn)).toThrow("found 2 invalid reference(s)")
+  expect(() => applySnapshot(list, invalidSn)).toThrow("found 2 invalid reference(s)")
+
+  // parts of a bigger tree are not checked on their own
+  const list2 = fromSnapshot<TodoList>(sn)
+  applySnapshot(list2, sn)
+  applySnapshot(list2.starred, sn.starred)
+  clone(list2.starred)
+})
@@ -0,0 +1,124 @@
+import {
+  getRefRootNamespace,
+  getRefsResolvingTo,
+  model,
+  Model,
+  modelAction,
+  prop,
+  Ref,
+  registerRefRoot,
+  registryRef,
+  unregisterRefRoot,
+} from "../../src"
+import "../commonSetup"
+
+@model("refRegistry/Book")
+class Book extends Model({
+  id: prop<string>(),
+  title: prop<string>(),
+}) {
+  getRefId() {
+    return this.id
+  }
+}
+
+@model("refRegistry/Library")
+class Library extends Model({
+  books: prop<Book[]>(() => []),
+}) {
+  @modelAction
+  addBook(book: Book) {
+    this.books.push(book)
+  }
+
+  @modelAction
+  removeBook(book: Book) {
+    this.books.splice(this.books.indexOf(book), 1)
+  }
+}
+
+const bookRef = registryRef<Book>("refRegistry/BookRef", { namespace: "refRegistry/library" })
+
+@model("refRegistry/Document")
+class Document extends Model({
+  citations: prop<Ref<Book>[]>(() => []),
+}) {
+  @modelAction
+  cite(book: Book | string) {
+    this.citations.push(bookRef(book))
+  }
+}
+
+test("refs resolve across registered roots", () => {
+  const library1 = new Library({ books: [new Book({ id: "b1", title: "1" })] })
+  const library2 = new Library({ books: [new Book({ id: "b2", title: "2" })] })
+  const doc = new Document({})
+
+  doc.cite("b1")
+  doc.cite("b2")
+  const [ref1, ref2] = doc.citations
+  expect(ref1.isValid).toBe(false)
+
+  registerRefRoot(library1, "refRegistry/library")
+  expect(getRefRootNamespace(library1)).toBe("refRegistry/library")
+  expect(ref1.current).toBe(library1.books[0])
+  expect(ref2.isValid).toBe(false)
+
+  registerRefRoot(library2, "refRegistry/library")
+  expect(ref2.current).toBe(library2.books[0])
+
+  // back-references
+  expect([...getRefsResolvingTo(library1.books[0])]).toEqual([ref1])
+  expect([...getRefsResolvingTo(library2.books[0], bookRef)]).toEqual([ref2])
+
+  // objects added later
+  const b3 = new Book({ id: "b3", title: "3" })
+  doc.cite(b3)
+  const ref3 = doc.citations[2]
+  expect(ref3.isValid).toBe(false)
+  library1.addBook(b3)
+  expect(ref3.current).toBe(b3)
+  expect([...getRefsResolvingTo(b3)]).toEqual([ref3])
+
+  // objects removed
+  library1.removeBook(b3)
+  expect(ref3.isValid).toBe(false)
+  expect([...getRefsResolvingTo(b3)]).toEqual([])
+
+  // roots unregistered
+  unregisterRefRoot(library2)
+  expect(getRefRootNamespace(library2)).toBe(undefined)
+  expect(ref2.isValid).toBe(false)
+  expect([...getRefsResolvingTo(library2.books[0])]).toEqual([])
+  expect(ref1.current).toBe(library1.books[0])
+
+  unregisterRefRoot(library1)
+  expect(ref1.isValid).toBe(false)
+})
+
+test("other namespaces are not used", () => {
+  const library = new Library({ books: [new Book({ id: "b1", title: "1" })] })
+  registerRefRoot(library, "refRegistry/other")
+
+  const doc = new Document({})
+  doc.cite("b1")
+  expect(doc.citations[0].isValid).toBe(false)
+
+  unregisterRefRoot(library)
+})
+
+test("registration errors", () => {
+  const library = new Library({ books: [new Book({ id: "b1", title: "1" })] })
+
+  expect(() => registerRefRoot(library.books[0], "refRegistry/library")).toThrow(
+    "a ref root must not have a parent"
+  )
+  expect(() => registerRefRoot(library, 5 as any)).toThrow("namespace must be a string")
+  expect(() => unregisterRefRoot(library)).toThrow("not a ref root")
+
+  registerRefRoot(library, "refRegistry/library")
+  expect(() => registerRefRoot(library, "refRegistry/library")).toThrow(
+    "object already registered as ref root"
+  )
+  unregisterRefRoot(library)
+})
@@ -4,8 +4,10 @@ import {
   model,
   Model,
   modelAction,
+  Path,
   prop,
   registerRootStore,
+  RootStoreDetachReason,
   runUnprotected,
   toTreeNode,
   unregisterRootStore,
@@ -239,3 +241,102 @@ test("issue #27", () => {
   const m = registerRootStore(new ModelWithArrayProp({ values: [] }))
   expect(m.values).toEqual([1, 2, 3])
 })
+
+test("onDetachedFromRootStore / onMovedWithinRootStore", () => {
+  const hookEvents: any[] = []
+
+  @model("rootStore/hooks/Item")
+  class Item extends Model({
+    name: prop<string>(),
+  }) {
+    onAttachedToRootStore() {
+      hookEvents.push(["attached", this.name])
+      return () => {
+        hookEvents.push(["disposer", this.name])
+      }
+    }
+
+    onDetachedFromRootStore(rootStore: object, reason: RootStoreDetachReason) {
+      expect(isRootStore(rootStore)).toBe(reason === "detached")
+      hookEvents.push(["detached", this.name, reason])
+    }
+
+    onMovedWithinRootStore(oldPath: Path, newPath: Path) {
+      hookEvents.push(["moved", this.name, oldPath, newPath])
+    }
+  }
+
+  @model("rootStore/hooks/Store")
+  class Store extends Model({
+    todo: prop<Item[]>(() => []),
+    done: prop<Item[]>(() => []),
+  }) {
+    @modelAction
+    markDone(index: number) {
+      const [item] = this.todo.splice(index, 1)
+      this.done.push(item)
+    }
+
+    @modelAction
+    remove(index: number) {
+      this.todo.splice(index, 1)
+    }
+
+    @modelAction
+    removeAndPutBack(index: number) {
+      const [item] = this.todo.splice(index, 1)
+      this.todo.splice(index, 0, item)
+    }
+
+    @modelAction
+    moveTo(index: number, store: Store) {
+      const [item] = this.todo.splice(index, 1)
+      store.todo.push(item)
+    }
+  }
+
+  const store = registerRootStore(
+    new Store({ todo: [new Item({ name: "a" }), new Item({ name: "b" })] })
+  )
+  expect(hookEvents).toEqual([
+    ["attached", "a"],
+    ["attached", "b"],
+  ])
+
+  // moves within the same root store keep effects alive
+  hookEvents.length = 0
+  store.markDone(0)
+  expect(hookEvents).toEqual([["moved", "a", ["todo", 0], ["done", 0]]])
+
+  hookEvents.length = 0
+  store.removeAndPutBack(0)
+  expect(hookEvents).toEqual([])
+
+  // actual detachments
+  hookEvents.length = 0
+  store.remove(0)
+  expect(hookEvents).toEqual([
+    ["disposer", "b"],
+    ["detached", "b", "detached"],
+  ])
+
+  // moves to another root store
+  const store2 = registerRootStore(new Store({}))
+  runUnprotected(() => {
+    store.todo.push(new Item({ name: "c" }))
+  })
+  hookEvents.length = 0
+  store.moveTo(0, store2)
+  expect(hookEvents).toEqual([
+    ["disposer", "c"],
+    ["detached", "c", "detached"],
+    ["attached", "c"],
+  ])
+
+  hookEvents.length = 0
+  unregisterRootStore(store)
+  expect(hookEvents).toEqual([
+    ["disposer", "a"],
+    ["detached", "a", "rootStoreUnregistered"],
+  ])
+})
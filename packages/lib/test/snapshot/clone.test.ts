@@ -1,4 +1,14 @@
-import { clone, getRootPath, getSnapshot } from "../../src"
+import {
+  clone,
+  detach,
+  getRootPath,
+  getSnapshot,
+  model,
+  Model,
+  modelAction,
+  prop,
+  registerRootStore,
+} from "../../src"
 import "../commonSetup"
 import { createP } from "../testbed"
 
@@ -39,3 +49,118 @@ test("clone", () => {
 
   expect(origSn).toStrictEqual(cloneSn)
 })
+
+let pageInits = 0
+
+@model("clone/Page")
+class Page extends Model({
+  title: prop<string>(),
+  lines: prop<string[]>(() => []),
+}) {
+  onInit() {
+    pageInits++
+  }
+
+  @modelAction
+  setLines(lines: string[]) {
+    this.lines = lines
+  }
+
+  @modelAction
+  setTitle(title: string) {
+    this.title = title
+  }
+}
+
+@model("clone/Doc")
+class Doc extends Model({
+  pages: prop<Page[]>(() => []),
+}) {
+  @modelAction
+  addPage(page: Page) {
+    this.pages.push(page)
+  }
+}
+
+test("copy-on-write clone", () => {
+  const doc = new Doc({
+    pages: [new Page({ title: "1", lines: ["a"] }), new Page({ title: "2", lines: ["b"] })],
+  })
+  const docSn = getSnapshot(doc)
+
+  const copy = clone(doc, { copyOnWrite: true })
+  expect(copy).not.toBe(doc)
+
+  // ids are kept, and unchanged parts of the snapshot are shared
+  const copySn = getSnapshot(copy)
+  expect(copySn).toStrictEqual(docSn)
+  expect(copySn.pages).toBe(docSn.pages)
+
+  copy.pages[0].setTitle("1b")
+  expect(copy.pages[0]).not.toBe(doc.pages[0])
+  expect(getSnapshot(copy).pages[0].title).toBe("1b")
+  expect(getSnapshot(copy).pages[1]).toStrictEqual(docSn.pages[1])
+  expect(getSnapshot(doc)).toBe(docSn)
+
+  doc.pages[1].setTitle("2b")
+  expect(copy.pages[1].title).toBe("2")
+  expect(getRootPath(copy.pages[1]).root).toBe(copy)
+
+  // model ids are shared, so it cannot be added to the tree of the original object
+  const pageCopy = clone(doc.pages[0], { copyOnWrite: true })
+  expect(pageCopy.$modelId).toBe(doc.pages[0].$modelId)
+  expect(() => doc.addPage(pageCopy)).toThrow(
+    "a copy-on-write clone (or any object taken from it) cannot be part of the same tree as the object it was cloned from, since both share the same model ids"
+  )
+  expect(doc.pages).toHaveLength(2)
+  copy.addPage(pageCopy)
+  expect(copy.pages[2]).toBe(pageCopy)
+
+  expect(() => clone(doc, { copyOnWrite: true, generateNewIds: true })).toThrow(
+    "the copyOnWrite and generateNewIds options cannot be used together"
+  )
+})
+
+test("objects taken from a copy-on-write clone cannot be added to the original tree", () => {
+  const doc = new Doc({
+    pages: [new Page({ title: "1", lines: ["a"] }), new Page({ title: "2", lines: ["b"] })],
+  })
+  const docSn = getSnapshot(doc)
+  const copy = clone(doc, { copyOnWrite: true })
+
+  const page = copy.pages[1]
+  detach(page)
+  expect(() => doc.addPage(page)).toThrow(
+    "a copy-on-write clone (or any object taken from it) cannot be part of the same tree as the object it was cloned from, since both share the same model ids"
+  )
+
+  const lines = copy.pages[0].lines
+  detach(lines)
+  expect(() => doc.pages[0].setLines(lines)).toThrow(
+    "a copy-on-write clone (or any object taken from it) cannot be part of the same tree as the object it was cloned from, since both share the same model ids"
+  )
+  expect(getSnapshot(doc)).toBe(docSn)
+
+  // it is fine anywhere else
+  const otherDoc = new Doc({})
+  otherDoc.addPage(page)
+  expect(otherDoc.pages[0]).toBe(page)
+})
+
+test("copy-on-write clones registered as root stores get fully instantiated", () => {
+  const doc = new Doc({
+    pages: [new Page({ title: "1", lines: ["a"] }), new Page({ title: "2", lines: ["b"] })],
+  })
+  const docSn = getSnapshot(doc)
+
+  pageInits = 0
+  const copy = clone(doc, { copyOnWrite: true })
+  expect(pageInits).toBe(0)
+
+  // root store hooks might be anywhere in the tree
+  registerRootStore(copy)
+  expect(pageInits).toBe(2)
+
+  // but the snapshot is still shared
+  expect(getSnapshot(copy).pages).toBe(docSn.pages)
+})
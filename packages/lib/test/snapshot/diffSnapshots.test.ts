@@ -0,0 +1,356 @@
+import {
+  applyPatches,
+  arraySet,
+  ArraySet,
+  diffSnapshots,
+  frozen,
+  Frozen,
+  fromSnapshot,
+  getSnapshot,
+  model,
+  Model,
+  modelAction,
+  objectMap,
+  ObjectMap,
+  prop,
+  runUnprotected,
+  SnapshotOutOf,
+} from "../../src"
+import "../commonSetup"
+
+@model("diffSnapshots/Todo")
+class Todo extends Model({
+  text: prop<string>(),
+  done: prop(false),
+}) {
+  @modelAction
+  setDone(done: boolean) {
+    this.done = done
+  }
+}
+
+@model("diffSnapshots/TodoList")
+class TodoList extends Model({
+  todos: prop<Todo[]>(() => []),
+  tags: prop<ArraySet<string>>(() => arraySet()),
+  counts: prop<ObjectMap<number>>(() => objectMap()),
+  settings: prop<Frozen<{ color: string; sizes: number[] }> | undefined>(),
+  data: prop<any>(() => ({})),
+}) {
+  @modelAction
+  addTodo(text: string, index = this.todos.length) {
+    const todo = new Todo({ text })
+    this.todos.splice(index, 0, todo)
+    return todo
+  }
+
+  @modelAction
+  removeTodo(index: number) {
+    this.todos.splice(index, 1)
+  }
+
+  @modelAction
+  moveTodo(from: number, to: number) {
+    const [todo] = this.todos.splice(from, 1)
+    this.todos.splice(to, 0, todo)
+  }
+
+  @modelAction
+  setSettings(color: string, sizes: number[]) {
+    this.settings = frozen({ color, sizes })
+  }
+
+  @modelAction
+  setData(data: any) {
+    this.data = data
+  }
+}
+
+function expectDiffToWork(oldSn: SnapshotOutOf<TodoList>, newSn: SnapshotOutOf<TodoList>) {
+  const { patches, inversePatches } = diffSnapshots(oldSn, newSn)
+
+  const fromOld = fromSnapshot<TodoList>(oldSn)
+  runUnprotected(() => {
+    applyPatches(fromOld, patches)
+  })
+  expect(getSnapshot(fromOld)).toStrictEqual(newSn)
+
+  const fromNew = fromSnapshot<TodoList>(newSn)
+  runUnprotected(() => {
+    applyPatches(fromNew, inversePatches)
+  })
+  expect(getSnapshot(fromNew)).toStrictEqual(oldSn)
+
+  return { patches, inversePatches }
+}
+
+function createList() {
+  const list = new TodoList({})
+  list.addTodo("a")
+  list.addTodo("b")
+  list.addTodo("c")
+  list.addTodo("d")
+  return list
+}
+
+test("equal snapshots", () => {
+  const list = createList()
+  const sn = getSnapshot(list)
+
+  expect(diffSnapshots(sn, sn)).toStrictEqual({ patches: [], inversePatches: [] })
+  expect(diffSnapshots(sn, JSON.parse(JSON.stringify(sn)))).toStrictEqual({
+    patches: [],
+    inversePatches: [],
+  })
+})
+
+test("primitives and plain objects", () => {
+  const list = createList()
+  list.setData({ x: 1, y: { z: 2 }, w: 3 })
+  const oldSn = getSnapshot(list)
+
+  list.setData({ x: 2, y: { z: 2, q: 4 }, v: "5" })
+  const newSn = getSnapshot(list)
+
+  expect(expectDiffToWork(oldSn, newSn)).toMatchInlineSnapshot(`
+    Object {
+      "inversePatches": Array [
+        Object {
+          "op": "remove",
+          "path": Array [
+            "data",
+            "v",
+          ],
+        },
+        Object {
+          "op": "replace",
+          "path": Array [
+            "data",
+            "x",
+          ],
+          "value": 1,
+        },
+        Object {
+          "op": "remove",
+          "path": Array [
+            "data",
+            "y",
+            "q",
+          ],
+        },
+        Object {
+          "op": "add",
+          "path": Array [
+            "data",
+            "w",
+          ],
+          "value": 3,
+        },
+      ],
+      "patches": Array [
+        Object {
+          "op": "remove",
+          "path": Array [
+            "data",
+            "w",
+          ],
+        },
+        Object {
+          "op": "replace",
+          "path": Array [
+            "data",
+            "x",
+          ],
+          "value": 2,
+        },
+        Object {
+          "op": "add",
+          "path": Array [
+            "data",
+            "y",
+            "q",
+          ],
+          "value": 4,
+        },
+        Object {
+          "op": "add",
+          "path": Array [
+            "data",
+            "v",
+          ],
+          "value": "5",
+        },
+      ],
+    }
+  `)
+})
+
+test("models are diffed property by property when they keep their identity", () => {
+  const list = createList()
+  const oldSn = getSnapshot(list)
+
+  list.todos[1].setDone(true)
+  const newSn = getSnapshot(list)
+
+  expect(expectDiffToWork(oldSn, newSn).patches).toStrictEqual([
+    { op: "replace", path: ["todos", 1, "done"], value: true },
+  ])
+})
+
+test("models are replaced when their identity changes", () => {
+  const list = createList()
+  const oldSn = getSnapshot(list)
+
+  const newSn = {
+    ...oldSn,
+    todos: oldSn.todos.map((todo, i) => (i === 1 ? getSnapshot(new Todo({ text: "b" })) : todo)),
+  }
+
+  const { patches } = expectDiffToWork(oldSn, newSn)
+  expect(patches).toStrictEqual([
+    { op: "remove", path: ["todos", 1] },
+    { op: "add", path: ["todos", 1], value: newSn.todos[1] },
+  ])
+})
+
+test("models removed, added and moved inside arrays", () => {
+  const list = createList()
+  const [a, b, c, d] = list.todos
+  const oldSn = getSnapshot(list)
+
+  list.removeTodo(1)
+  const removedSn = getSnapshot(list)
+  expect(expectDiffToWork(oldSn, removedSn).patches).toStrictEqual([
+    { op: "remove", path: ["todos", 1] },
+  ])
+
+  const e = list.addTodo("e", 1)
+  const addedSn = getSnapshot(list)
+  expect(expectDiffToWork(removedSn, addedSn).patches).toStrictEqual([
+    { op: "add", path: ["todos", 1], value: getSnapshot(e) },
+  ])
+
+  list.moveTodo(3, 0)
+  d.setDone(true)
+  const movedSn = getSnapshot(list)
+  expect(list.todos).toStrictEqual([d, a, e, c])
+  // d was moved out of order, so it is added again (with its new data) rather than diffed
+  expect(expectDiffToWork(addedSn, movedSn).patches).toStrictEqual([
+    { op: "add", path: ["todos", 0], value: getSnapshot(d) },
+    { op: "remove", path: ["todos", 4] },
+  ])
+
+  // models that keep their identity are kept when patches are applied over a live tree
+  const live = fromSnapshot<TodoList>(oldSn)
+  const liveA = live.todos[0]
+  const liveC = live.todos[2]
+  runUnprotected(() => {
+    applyPatches(live, diffSnapshots(oldSn, movedSn).patches)
+  })
+  expect(getSnapshot(live)).toStrictEqual(movedSn)
+  expect(live.todos[1]).toBe(liveA)
+  expect(live.todos[3]).toBe(liveC)
+  expect(live.todos.map(todo => todo.text)).toStrictEqual(["d", "a", "e", "c"])
+  expect(b.text).toBe("b")
+})
+
+test("object maps and array sets", () => {
+  const list = createList()
+  runUnprotected(() => {
+    list.counts.set("a", 1)
+    list.counts.set("b", 2)
+    list.tags.add("x")
+    list.tags.add("y")
+  })
+  const oldSn = getSnapshot(list)
+
+  runUnprotected(() => {
+    list.counts.set("a", 10)
+    list.counts.delete("b")
+    list.counts.set("c", 3)
+    list.tags.delete("x")
+    list.tags.add("z")
+  })
+  const newSn = getSnapshot(list)
+
+  expect(expectDiffToWork(oldSn, newSn).patches).toStrictEqual([
+    { op: "remove", path: ["tags", "items", 0] },
+    { op: "add", path: ["tags", "items", 1], value: "z" },
+    { op: "remove", path: ["counts", "items", "b"] },
+    { op: "replace", path: ["counts", "items", "a"], value: 10 },
+    { op: "add", path: ["counts", "items", "c"], value: 3 },
+  ])
+})
+
+test("frozen data is replaced as a whole", () => {
+  const list = createList()
+  list.setSettings("red", [1, 2])
+  const oldSn = getSnapshot(list)
+
+  list.setSettings("red", [1, 2])
+  expect(diffSnapshots(oldSn, getSnapshot(list)).patches).toStrictEqual([])
+
+  list.setSettings("red", [1, 3])
+  const newSn = getSnapshot(list)
+  expect(expectDiffToWork(oldSn, newSn).patches).toStrictEqual([
+    { op: "replace", path: ["settings"], value: newSn.settings },
+  ])
+
+  list.setSettings("blue", [1, 3])
+  expectDiffToWork(newSn, getSnapshot(list))
+})
+
+test("random changes", () => {
+  // mulberry32
+  let seed = 42
+  const random = () => {
+    seed = (seed + 0x6d2b79f5) | 0
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+  const randomInt = (max: number) => Math.floor(random() * max)
+
+  const list = createList()
+  runUnprotected(() => {
+    list.data = { arr: [0, 1, 2] }
+  })
+
+  for (let run = 0; run < 200; run++) {
+    const oldSn = getSnapshot(list)
+
+    const changes = 1 + randomInt(4)
+    for (let i = 0; i < changes; i++) {
+      const len = list.todos.length
+      switch (randomInt(6)) {
+        case 0:
+          list.addTodo(`t${run}`, randomInt(len + 1))
+          break
+        case 1:
+          if (len > 0) list.removeTodo(randomInt(len))
+          break
+        case 2:
+          if (len > 0) list.moveTodo(randomInt(len), randomInt(len))
+          break
+        case 3:
+          if (len > 0) list.todos[randomInt(len)].setDone(random() < 0.5)
+          break
+        case 4:
+          list.setSettings(random() < 0.5 ? "red" : "blue", [randomInt(3)])
+          break
+        case 5:
+          runUnprotected(() => {
+            const arr: number[] = list.data.arr
+            if (random() < 0.5 && arr.length > 0) {
+              arr.splice(randomInt(arr.length), 1)
+            } else {
+              arr.splice(randomInt(arr.length + 1), 0, randomInt(5))
+            }
+          })
+          break
+      }
+    }
+
+    expectDiffToWork(oldSn, getSnapshot(list))
+  }
+})
@@ -0,0 +1,178 @@
+import {
+  arraySet,
+  ArraySet,
+  CompactSnapshot,
+  decodeSnapshot,
+  encodeSnapshot,
+  frozen,
+  Frozen,
+  fromSnapshot,
+  getSnapshot,
+  model,
+  Model,
+  objectMap,
+  ObjectMap,
+  prop,
+  Ref,
+  rootRef,
+  SnapshotOutOf,
+} from "../../src"
+import "../commonSetup"
+
+@model("encodeSnapshot/Todo")
+class Todo extends Model({
+  text: prop<string>(),
+  done: prop(false),
+  priority: prop<number | undefined>(),
+}) {}
+
+const todoRef = rootRef<Todo>("encodeSnapshot/TodoRef")
+
+@model("encodeSnapshot/TodoList")
+class TodoList extends Model({
+  todos: prop<Todo[]>(() => []),
+  selected: prop<Ref<Todo> | undefined>(),
+  tags: prop<ArraySet<string>>(() => arraySet()),
+  counts: prop<ObjectMap<number>>(() => objectMap()),
+  settings: prop<Frozen<any> | undefined>(),
+  data: prop<any>(() => ({})),
+}) {}
+
+function createList() {
+  const todos = [
+    new Todo({ text: "a" }),
+    new Todo({ text: "ünïcödé 😀", done: true, priority: -3 }),
+    new Todo({ text: "x".repeat(300), priority: 1.5 }),
+  ]
+  return new TodoList({
+    todos,
+    selected: todoRef(todos[1]),
+    tags: arraySet(["work", "home"]),
+    counts: objectMap([
+      ["small", 200],
+      ["big", 70000],
+      ["huge", 2 ** 40],
+      ["negative", -70000],
+    ]),
+    settings: frozen({ color: "red", sizes: [[1, 2], []], nested: { a: null } }),
+    data: {
+      nested: [{ x: 1 }, { x: 2 }, [0, 1, 2]],
+      empty: [],
+      emptyObj: {},
+      undef: undefined,
+      nil: null,
+    },
+  })
+}
+
+test("compact form", () => {
+  const sn = getSnapshot(createList())
+  const compact = encodeSnapshot(sn)
+
+  expect(compact.$compactSnapshot).toBe(1)
+  expect(compact.types).toEqual([
+    "encodeSnapshot/TodoList",
+    "encodeSnapshot/Todo",
+    "encodeSnapshot/TodoRef",
+    "mobx-keystone/ArraySet",
+    "mobx-keystone/ObjectMap",
+  ])
+  // todos share the same shape
+  expect(compact.shapes.filter(s => s.join() === "text,done,priority")).toHaveLength(1)
+
+  expect(decodeSnapshot(compact)).toStrictEqual(sn)
+
+  // it survives JSON serialization
+  const json = JSON.stringify(compact)
+  expect(decodeSnapshot(JSON.parse(json))).toStrictEqual(sn)
+})
+
+test("binary form", () => {
+  const sn = getSnapshot(createList())
+  const binary = encodeSnapshot(sn, { binary: true })
+
+  expect(binary).toBeInstanceOf(Uint8Array)
+  expect(binary.length).toBeLessThan(JSON.stringify(sn).length)
+  expect(decodeSnapshot(binary)).toStrictEqual(sn)
+})
+
+test("round-trips through fromSnapshot", () => {
+  const list = createList()
+  const sn = getSnapshot(list)
+
+  for (const encoded of [encodeSnapshot(sn), encodeSnapshot(sn, { binary: true })]) {
+    const decodedList = fromSnapshot<TodoList>(decodeSnapshot<SnapshotOutOf<TodoList>>(encoded))
+    expect(getSnapshot(decodedList)).toStrictEqual(sn)
+    expect(decodedList.selected!.current).toBe(decodedList.todos[1])
+  }
+})
+
+test("larger documents", () => {
+  const list = new TodoList({
+    todos: Array.from({ length: 2000 }, (_, i) => new Todo({ text: `todo ${i}`, priority: i })),
+  })
+  const sn = getSnapshot(list)
+
+  const compactJson = JSON.stringify(encodeSnapshot(sn))
+  const binary = encodeSnapshot(sn, { binary: true })
+  expect(compactJson.length).toBeLessThan(JSON.stringify(sn).length / 2)
+  expect(binary.length).toBeLessThan(compactJson.length)
+
+  expect(decodeSnapshot(binary)).toStrictEqual(sn)
+})
+
+test("large plain data", () => {
+  const sn = {
+    items: Array.from({ length: 70000 }, (_, i) => i),
+    text: "x".repeat(70000),
+  }
+  expect(decodeSnapshot(encodeSnapshot(sn, { binary: true }))).toStrictEqual(sn)
+})
+
+test("undefined inside frozen data", () => {
+  const sn = getSnapshot(new TodoList({ settings: frozen({ a: undefined, b: 1 }) }))
+
+  // as in JSON, undefined object properties inside frozen data are dropped rather than turned into null
+  const fromJson = decodeSnapshot<SnapshotOutOf<TodoList>>(
+    JSON.parse(JSON.stringify(encodeSnapshot(sn)))
+  )
+  const fromBinary = decodeSnapshot<SnapshotOutOf<TodoList>>(encodeSnapshot(sn, { binary: true }))
+  for (const decoded of [fromJson, fromBinary]) {
+    expect(decoded.settings).toStrictEqual({ $frozen: true, data: { b: 1 } })
+    expect(fromSnapshot<TodoList>(decoded).settings!.data).toStrictEqual({ b: 1 })
+  }
+})
+
+test("primitives", () => {
+  for (const value of [undefined, null, true, false, 0, -1, 1.5, "", "str"]) {
+    expect(decodeSnapshot(encodeSnapshot(value))).toBe(value)
+    expect(decodeSnapshot(encodeSnapshot(value, { binary: true }))).toBe(value)
+  }
+})
+
+test("invalid data", () => {
+  expect(() => encodeSnapshot({ date: new Date() })).toThrow(
+    "snapshot values must be primitives, plain objects or arrays"
+  )
+
+  const compact = encodeSnapshot({ x: 1 })
+  expect(() => decodeSnapshot({ ...compact, $compactSnapshot: 2 })).toThrow(
+    "unsupported compact snapshot version: 2"
+  )
+  expect(() => decodeSnapshot({ ...compact, data: [9] })).toThrow(
+    "invalid compact snapshot value tag: 9"
+  )
+  expect(() => decodeSnapshot({ ...compact, data: [2, 5, 1] })).toThrow(
+    "invalid compact snapshot shape index: 5"
+  )
+  expect(() => decodeSnapshot({} as CompactSnapshot)).toThrow(
+    "unsupported compact snapshot version: undefined"
+  )
+
+  const binary = encodeSnapshot({ x: 1 }, { binary: true })
+  expect(() => decodeSnapshot(binary.slice(0, binary.length - 1))).toThrow(
+    "unexpected end of binary data"
+  )
+  expect(() => decodeSnapshot(new Uint8Array([0xc1]))).toThrow("unsupported binary data type: 0xc1")
+  expect(() => decodeSnapshot(new Uint8Array([0x90]))).toThrow("invalid binary snapshot")
+})
@@ -0,0 +1,286 @@
+import {
+  applySnapshot,
+  fromSnapshot,
+  getChildrenObjects,
+  getParent,
+  getRootPath,
+  getSnapshot,
+  model,
+  Model,
+  modelAction,
+  modelIdKey,
+  modelTypeKey,
+  modelVersionKey,
+  onPatches,
+  onSnapshot,
+  Patch,
+  prop,
+  Ref,
+  registerRootStore,
+  rootRef,
+  SnapshotOutOf,
+  tProp,
+  types,
+  unregisterRootStore,
+} from "../../src"
+import "../commonSetup"
+
+let todoInits = 0
+let todoAttaches = 0
+
+@model("lazyFromSnapshot/Todo", {
+  version: 2,
+  migrations: {
+    1: ({ title, ...sn }) => ({ ...sn, text: title }),
+  },
+})
+class Todo extends Model({
+  text: prop<string>(),
+  done: prop(false),
+  tags: prop<string[]>(() => []),
+}) {
+  onInit() {
+    todoInits++
+  }
+
+  onAttachedToRootStore() {
+    todoAttaches++
+  }
+
+  @modelAction
+  setDone(done: boolean) {
+    this.done = done
+  }
+}
+
+// used by the list snapshot
+rootRef<Todo>("lazyFromSnapshot/TodoRef")
+
+@model("lazyFromSnapshot/Point")
+class Point extends Model({
+  x: prop<number>(),
+  y: prop<number>(),
+}) {
+  fromSnapshot({ xy, ...sn }: { xy: string }) {
+    const [x, y] = xy.split(",").map(Number)
+    return { ...sn, x, y }
+  }
+}
+
+@model("lazyFromSnapshot/TodoList")
+class TodoList extends Model({
+  todos: prop<Todo[]>(() => []),
+  selected: prop<Ref<Todo> | undefined>(),
+  info: prop<{ owner: string; origin?: Point } | undefined>(),
+}) {
+  @modelAction
+  setTodos(todos: Todo[]) {
+    this.todos = todos
+  }
+}
+
+let typedTodoInits = 0
+
+@model("lazyFromSnapshot/TypedTodo")
+class TypedTodo extends Model({
+  text: tProp(types.string),
+}) {
+  onInit() {
+    typedTodoInits++
+  }
+}
+
+@model("lazyFromSnapshot/TypedTodoList")
+class TypedTodoList extends Model({
+  name: tProp(types.string),
+  todos: tProp(types.array(types.model<TypedTodo>(TypedTodo)), () => []),
+}) {}
+
+function createSnapshot(): SnapshotOutOf<TodoList> {
+  return {
+    [modelTypeKey]: "lazyFromSnapshot/TodoList",
+    [modelIdKey]: "list",
+    todos: [
+      // old version, missing defaults
+      { [modelTypeKey]: "lazyFromSnapshot/Todo", [modelIdKey]: "t1", title: "a" },
+      {
+        [modelTypeKey]: "lazyFromSnapshot/Todo",
+        [modelIdKey]: "t2",
+        [modelVersionKey]: 2,
+        text: "b",
+        done: true,
+        tags: ["x"],
+      },
+    ],
+    selected: { [modelTypeKey]: "lazyFromSnapshot/TodoRef", [modelIdKey]: "r", id: "t2" },
+    info: { owner: "me" },
+  } as any
+}
+
+beforeEach(() => {
+  todoInits = 0
+  todoAttaches = 0
+  typedTodoInits = 0
+})
+
+test("nested models are not instantiated until accessed", () => {
+  const eagerList = fromSnapshot<TodoList>(createSnapshot())
+  expect(todoInits).toBe(2)
+  todoInits = 0
+
+  const list = fromSnapshot<TodoList>(createSnapshot(), { lazy: true })
+  expect(todoInits).toBe(0)
+
+  // the snapshot is the same one (including key order)
+  expect(getSnapshot(list)).toStrictEqual(getSnapshot(eagerList))
+  expect(JSON.stringify(getSnapshot(list))).toBe(JSON.stringify(getSnapshot(eagerList)))
+  expect(todoInits).toBe(0)
+
+  // accessing a prop only instantiates that prop
+  expect(list.info!.owner).toBe("me")
+  expect(todoInits).toBe(0)
+
+  const todos = list.todos
+  expect(todoInits).toBe(2)
+  expect(todos.map(t => [t.text, t.done, [...t.tags]])).toEqual([
+    ["a", false, []],
+    ["b", true, ["x"]],
+  ])
+  expect(getParent(todos)).toBe(list)
+  expect(getRootPath(todos[1]).path).toEqual(["todos", 1])
+  expect(list.todos).toBe(todos)
+
+  expect(list.selected!.current).toBe(todos[1])
+
+  expect(getSnapshot(list)).toStrictEqual(getSnapshot(eagerList))
+})
+
+test("type checking does not instantiate props", () => {
+  const sn = getSnapshot(
+    new TypedTodoList({
+      name: "l",
+      todos: [new TypedTodo({ text: "a" }), new TypedTodo({ text: "b" })],
+    })
+  )
+  typedTodoInits = 0
+
+  // automatic type checking is on in dev mode
+  const list = fromSnapshot<TypedTodoList>(sn, { lazy: true })
+  expect(typedTodoInits).toBe(0)
+  expect(list.typeCheck()).toBe(null)
+  expect(list.name).toBe("l")
+  expect(typedTodoInits).toBe(0)
+
+  expect(list.todos[1].text).toBe("b")
+  expect(typedTodoInits).toBe(2)
+  expect(list.typeCheck()).toBe(null)
+
+  // props are type checked once instantiated
+  expect(() => fromSnapshot<TypedTodoList>({ ...sn, name: 5 } as any, { lazy: true })).toThrow(
+    "TypeCheckError: [/name] Expected: string"
+  )
+  const invalidList = fromSnapshot<TypedTodoList>(
+    { ...sn, todos: [{ ...sn.todos[0], text: 5 }] } as any,
+    { lazy: true }
+  )
+  expect(() => invalidList.todos).toThrow("TypeCheckError: [/text] Expected: string")
+})
+
+test("instantiation is not a change", () => {
+  const list = fromSnapshot<TodoList>(createSnapshot(), { lazy: true })
+  const sn = getSnapshot(list)
+
+  const patches: Patch[][] = []
+  const inversePatches: Patch[][] = []
+  const disposePatches = onPatches(list, (p, invP) => {
+    patches.push(p)
+    inversePatches.push(invP)
+  })
+  const snapshots: any[] = []
+  const disposeSnapshot = onSnapshot(list, newSn => {
+    snapshots.push(newSn)
+  })
+
+  list.todos[0].setDone(true)
+
+  expect(patches).toEqual([[{ op: "replace", path: ["todos", 0, "done"], value: true }]])
+  expect(inversePatches).toEqual([[{ op: "replace", path: ["todos", 0, "done"], value: false }]])
+  expect(snapshots).toHaveLength(1)
+  expect(snapshots[0].todos[0].done).toBe(true)
+  expect(snapshots[0].todos[1]).toStrictEqual(sn.todos[1])
+
+  // replacing a prop that was never accessed
+  patches.length = 0
+  inversePatches.length = 0
+  const list2 = fromSnapshot<TodoList>(createSnapshot(), { lazy: true })
+  const disposePatches2 = onPatches(list2, (p, invP) => {
+    patches.push(p)
+    inversePatches.push(invP)
+  })
+  list2.setTodos([])
+  expect(patches).toEqual([[{ op: "replace", path: ["todos"], value: [] }]])
+  expect(inversePatches).toEqual([
+    [
+      {
+        op: "replace",
+        path: ["todos"],
+        value: createSnapshot().todos.map(t => getSnapshot(fromSnapshot<Todo>(t))),
+      },
+    ],
+  ])
+
+  disposePatches()
+  disposePatches2()
+  disposeSnapshot()
+})
+
+test("tree traversal and data access instantiate everything needed", () => {
+  const list = fromSnapshot<TodoList>(createSnapshot(), { lazy: true })
+  expect(getChildrenObjects(list, { deep: true }).size).toBe(7)
+  expect(todoInits).toBe(2)
+
+  const list2 = fromSnapshot<TodoList>(createSnapshot(), { lazy: true })
+  expect(list2.$.todos).toHaveLength(2)
+  expect(todoInits).toBe(4)
+
+  const list3 = fromSnapshot<TodoList>(createSnapshot(), { lazy: true })
+  applySnapshot(list3, { ...getSnapshot(list3), info: undefined })
+  expect(list3.info).toBe(undefined)
+  expect(list3.todos[0].text).toBe("a")
+})
+
+test("root store hooks still run", () => {
+  const list = fromSnapshot<TodoList>(createSnapshot(), { lazy: true })
+  expect(todoAttaches).toBe(0)
+
+  // attaching to a root store requires every model to be instantiated
+  registerRootStore(list)
+  expect(todoInits).toBe(2)
+  expect(todoAttaches).toBe(2)
+
+  unregisterRootStore(list)
+})
+
+test("models with snapshot processors are instantiated right away", () => {
+  const sn = {
+    ...createSnapshot(),
+    info: {
+      owner: "me",
+      origin: { [modelTypeKey]: "lazyFromSnapshot/Point", [modelIdKey]: "p", xy: "1,2" },
+    },
+  }
+  const list = fromSnapshot<TodoList>(sn as any, { lazy: true })
+  const eagerList = fromSnapshot<TodoList>(sn as any)
+  expect(getSnapshot(list)).toStrictEqual(getSnapshot(eagerList))
+  expect(getSnapshot(list).info!.origin).toEqual({
+    [modelTypeKey]: "lazyFromSnapshot/Point",
+    [modelIdKey]: "p",
+    x: 1,
+    y: 2,
+  })
+})
+
+test("new ids are never lazy", () => {
+  fromSnapshot<TodoList>(createSnapshot(), { lazy: true, generateNewIds: true })
+  expect(todoInits).toBe(2)
+})
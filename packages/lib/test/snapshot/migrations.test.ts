@@ -0,0 +1,280 @@
+import {
+  applySnapshot,
+  fromSnapshot,
+  getSnapshot,
+  model,
+  Model,
+  modelIdKey,
+  modelSnapshotInWithMetadata,
+  modelSnapshotOutWithMetadata,
+  modelTypeKey,
+  modelVersionKey,
+  prop,
+  runUnprotected,
+} from "../../src"
+import "../commonSetup"
+
+// v1: { title: string }
+// v2: { text: string }
+// v3: { text: string, tags: string[] }
+@model("migrations/Todo", {
+  version: 3,
+  migrations: {
+    1: ({ title, ...sn }) => ({ ...sn, text: title }),
+    2: sn => ({ ...sn, tags: [] }),
+  },
+})
+class Todo extends Model({
+  text: prop<string>(),
+  tags: prop<string[]>(() => []),
+}) {}
+
+// a model with a version and an input snapshot processor
+@model("migrations/Point", {
+  version: 2,
+  migrations: {
+    1: ({ xy, ...sn }) => ({ ...sn, coords: xy }),
+  },
+})
+class Point extends Model({
+  x: prop<number>(),
+  y: prop<number>(),
+}) {
+  fromSnapshot({ coords, ...sn }: { coords: string }) {
+    const [x, y] = coords.split(",").map(Number)
+    return { ...sn, x, y }
+  }
+}
+
+@model("migrations/TodoList")
+class TodoList extends Model({
+  todos: prop<Todo[]>(() => []),
+  origin: prop<Point | undefined>(),
+}) {}
+
+const versionOf = (sn: any) => sn[modelVersionKey]
+
+test("snapshots of versioned models include their version", () => {
+  const todo = new Todo({ text: "a" })
+  expect(getSnapshot(todo)).toStrictEqual({
+    text: "a",
+    tags: [],
+    [modelIdKey]: todo.$modelId,
+    [modelTypeKey]: "migrations/Todo",
+    [modelVersionKey]: 3,
+  })
+
+  const list = new TodoList({})
+  expect(modelVersionKey in getSnapshot(list)).toBe(false)
+
+  // it is kept after changes
+  runUnprotected(() => {
+    list.todos.push(todo)
+  })
+  expect(versionOf(getSnapshot(list).todos[0])).toBe(3)
+
+  expect(modelSnapshotInWithMetadata(Todo, { text: "b" }, "id")).toStrictEqual({
+    text: "b",
+    [modelIdKey]: "id",
+    [modelTypeKey]: "migrations/Todo",
+    [modelVersionKey]: 3,
+  })
+  expect(modelSnapshotOutWithMetadata(Todo, { text: "b", tags: [] }, "id")).toStrictEqual({
+    text: "b",
+    tags: [],
+    [modelIdKey]: "id",
+    [modelTypeKey]: "migrations/Todo",
+    [modelVersionKey]: 3,
+  })
+})
+
+test("fromSnapshot migrates old snapshots", () => {
+  const list = fromSnapshot<TodoList>({
+    [modelTypeKey]: "migrations/TodoList",
+    [modelIdKey]: "list",
+    todos: [
+      // no version, so version 1
+      { [modelTypeKey]: "migrations/Todo", [modelIdKey]: "t1", title: "v1" },
+      { [modelTypeKey]: "migrations/Todo", [modelIdKey]: "t2", [modelVersionKey]: 2, text: "v2" },
+      {
+        [modelTypeKey]: "migrations/Todo",
+        [modelIdKey]: "t3",
+        [modelVersionKey]: 3,
+        text: "v3",
+        tags: ["x"],
+      },
+    ],
+    origin: { [modelTypeKey]: "migrations/Point", [modelIdKey]: "p", xy: "1,2" },
+  } as any)
+
+  expect(list.todos.map(t => [t.$modelId, t.text, [...t.tags]])).toEqual([
+    ["t1", "v1", []],
+    ["t2", "v2", []],
+    ["t3", "v3", ["x"]],
+  ])
+  expect([list.origin!.x, list.origin!.y]).toEqual([1, 2])
+
+  const sn = getSnapshot(list)
+  expect(sn.todos.map(versionOf)).toEqual([3, 3, 3])
+  expect(versionOf(sn.origin)).toBe(2)
+
+  // current snapshots are left untouched
+  expect(getSnapshot(fromSnapshot<Todo>(sn.todos[2]))).toStrictEqual(sn.todos[2])
+})
+
+test("applySnapshot migrates old snapshots", () => {
+  const todo = new Todo({ text: "a", tags: ["x"] })
+  const id = todo.$modelId
+
+  applySnapshot(todo, {
+    [modelTypeKey]: "migrations/Todo",
+    [modelIdKey]: id,
+    title: "b",
+  } as any)
+  expect(todo.text).toBe("b")
+  expect(todo.tags).toEqual([])
+  expect(versionOf(getSnapshot(todo))).toBe(3)
+
+  const point = new Point({ coords: "0,0" } as any)
+  applySnapshot(point, {
+    [modelTypeKey]: "migrations/Point",
+    [modelIdKey]: point.$modelId,
+    xy: "3,4",
+  } as any)
+  expect([point.x, point.y]).toEqual([3, 4])
+})
+
+test("invalid snapshot versions", () => {
+  const todoSn = (version: any) => ({
+    [modelTypeKey]: "migrations/Todo",
+    [modelIdKey]: "t",
+    [modelVersionKey]: version,
+    text: "a",
+  })
+
+  expect(() => fromSnapshot(todoSn(4) as any)).toThrow(
+    "snapshot version 4 of model 'migrations/Todo' is newer than the current model version (3)"
+  )
+  expect(() => fromSnapshot(todoSn(1.5) as any)).toThrow(
+    "invalid snapshot version for model 'migrations/Todo': 1.5"
+  )
+
+  @model("migrations/MissingMigration", {
+    version: 3,
+    migrations: {
+      2: sn => sn,
+    },
+  })
+  class MissingMigration extends Model({}) {}
+
+  expect(() =>
+    fromSnapshot<MissingMigration>({
+      [modelTypeKey]: "migrations/MissingMigration",
+      [modelIdKey]: "m",
+    } as any)
+  ).toThrow("model 'migrations/MissingMigration' has no migration from version 1")
+
+  @model("migrations/BadMigration", {
+    version: 2,
+    migrations: {
+      1: () => undefined,
+    },
+  })
+  class BadMigration extends Model({}) {}
+
+  expect(() =>
+    fromSnapshot<BadMigration>({
+      [modelTypeKey]: "migrations/BadMigration",
+      [modelIdKey]: "m",
+    } as any)
+  ).toThrow(
+    "model 'migrations/BadMigration' migration from version 1 must return a snapshot object"
+  )
+})
+
+test("migrations cannot drop or change the model type and id", () => {
+  // v1: { name: string }
+  // v2: { text: string }
+  // v3: { text: string }
+  @model("migrations/Rebuilt", {
+    version: 3,
+    migrations: {
+      // builds a new snapshot from scratch
+      1: sn => ({ text: sn.name }),
+      2: sn => {
+        expect(sn[modelTypeKey]).toBe("migrations/Rebuilt")
+        expect(sn[modelIdKey]).toBe("r")
+        return sn
+      },
+    },
+  })
+  class Rebuilt extends Model({
+    text: prop<string>(),
+  }) {
+    fromSnapshot(sn: { text: string }) {
+      expect((sn as any)[modelTypeKey]).toBe("migrations/Rebuilt")
+      expect((sn as any)[modelIdKey]).toBe("r")
+      return sn
+    }
+  }
+
+  const rebuilt = fromSnapshot<Rebuilt>({
+    [modelTypeKey]: "migrations/Rebuilt",
+    [modelIdKey]: "r",
+    name: "a",
+  } as any)
+  expect(rebuilt.text).toBe("a")
+  expect(getSnapshot(rebuilt)).toStrictEqual({
+    text: "a",
+    [modelIdKey]: "r",
+    [modelTypeKey]: "migrations/Rebuilt",
+    [modelVersionKey]: 3,
+  })
+
+  applySnapshot(rebuilt, {
+    [modelTypeKey]: "migrations/Rebuilt",
+    [modelIdKey]: "r",
+    name: "b",
+  } as any)
+  expect(rebuilt.text).toBe("b")
+
+  @model("migrations/ChangesType", {
+    version: 2,
+    migrations: {
+      1: sn => ({ ...sn, [modelTypeKey]: "migrations/Todo" }),
+    },
+  })
+  class ChangesType extends Model({}) {}
+
+  expect(() =>
+    fromSnapshot<ChangesType>({
+      [modelTypeKey]: "migrations/ChangesType",
+      [modelIdKey]: "c",
+    } as any)
+  ).toThrow(
+    "model 'migrations/ChangesType' migration from version 1 must not change the $modelType of the snapshot"
+  )
+})
+
+test("invalid model options", () => {
+  const decorate = (name: string, options: any) => () => {
+    @model(name, options)
+    class M extends Model({}) {}
+    return M
+  }
+
+  expect(decorate("migrations/Invalid1", { version: 0 })).toThrow(
+    "model 'migrations/Invalid1' version must be an integer greater or equal to 1"
+  )
+  expect(decorate("migrations/Invalid2", { migrations: {} })).toThrow(
+    "model 'migrations/Invalid2' declares migrations but no version"
+  )
+  expect(
+    decorate("migrations/Invalid3", { version: 2, migrations: { 2: (sn: any) => sn } })
+  ).toThrow(
+    "model 'migrations/Invalid3' migration from version '2' must be from a version between 1 and 1"
+  )
+  expect(decorate("migrations/Invalid4", { version: 2, migrations: { 1: "nope" } })).toThrow(
+    "model 'migrations/Invalid4' migration from version 1 must be a function"
+  )
+})
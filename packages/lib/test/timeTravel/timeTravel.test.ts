@@ -0,0 +1,172 @@
+import { reaction, runInAction } from "mobx"
+import {
+  getSnapshot,
+  model,
+  Model,
+  modelAction,
+  modelFlow,
+  prop,
+  runUnprotected,
+  timeTravel,
+} from "../../src"
+import "../commonSetup"
+import { autoDispose } from "../utils"
+
+@model("timeTravel/Counter")
+class Counter extends Model({
+  value: prop(0),
+  history: prop<number[]>(() => []),
+}) {
+  @modelAction
+  inc() {
+    this.value++
+    this.history.push(this.value)
+  }
+
+  @modelAction
+  incAndCheck(check: () => void) {
+    this.inc()
+    check()
+    this.inc()
+  }
+
+  @modelAction
+  incAndFail() {
+    this.inc()
+    throw new Error("failed")
+  }
+
+  @modelFlow
+  *incLater() {
+    yield Promise.resolve()
+    this.value++
+    yield Promise.resolve()
+    this.value++
+  }
+}
+
+test("timeline and travelTo", () => {
+  const counter = new Counter({})
+  const tt = timeTravel(counter)
+  autoDispose(() => tt.dispose())
+
+  const indexes: number[] = []
+  autoDispose(
+    reaction(
+      () => tt.currentIndex,
+      i => {
+        indexes.push(i)
+      }
+    )
+  )
+
+  counter.inc()
+  counter.inc()
+  runUnprotected(() => {
+    counter.value = 10
+  })
+  counter.inc()
+
+  expect(tt.timeline.map(e => e.actionName)).toEqual([undefined, "inc", "inc", undefined, "inc"])
+  expect(tt.timeline.map(e => e.snapshot.value)).toEqual([0, 1, 2, 10, 11])
+  expect(tt.timeline[1].patches).toEqual([
+    { op: "replace", path: ["value"], value: 1 },
+    { op: "add", path: ["history", 0], value: 1 },
+  ])
+  expect(tt.currentIndex).toBe(4)
+  expect(tt.isAtLatest).toBe(true)
+
+  // adjacent entries (patches)
+  tt.travelTo(3)
+  expect(getSnapshot(counter)).toEqual(tt.timeline[3].snapshot)
+  tt.travelTo(4)
+  expect(getSnapshot(counter)).toEqual(tt.timeline[4].snapshot)
+
+  // far away entries (snapshots)
+  tt.travelTo(1)
+  expect(getSnapshot(counter)).toEqual(tt.timeline[1].snapshot)
+  expect(tt.currentEntry).toBe(tt.timeline[1])
+  expect(tt.isAtLatest).toBe(false)
+  // traveling does not generate new entries
+  expect(tt.timeline).toHaveLength(5)
+
+  expect(() => tt.travelTo(5)).toThrow("timeline entry index out of range: 5")
+
+  // forks
+  const fork = tt.fork(4)
+  expect(getSnapshot(fork)).toEqual(tt.timeline[4].snapshot)
+  fork.inc()
+  expect(tt.timeline).toHaveLength(5)
+
+  // changes made in the past drop the future
+  counter.inc()
+  expect(tt.timeline.map(e => e.snapshot.value)).toEqual([0, 1, 2])
+  expect(tt.currentIndex).toBe(2)
+  expect(counter.history).toEqual([1, 2])
+
+  expect(indexes).toEqual([1, 2, 3, 4, 3, 4, 1, 2])
+})
+
+test("flows and max entries", async () => {
+  const counter = new Counter({})
+  const tt = timeTravel(counter, { maxEntries: 3 })
+  autoDispose(() => tt.dispose())
+
+  await counter.incLater()
+  // all steps of the flow end up in the same entry
+  expect(tt.timeline.map(e => e.actionName)).toEqual([undefined, "incLater"])
+  expect(tt.timeline[1].patches).toHaveLength(2)
+
+  counter.inc()
+  counter.inc()
+  expect(tt.timeline.map(e => e.snapshot.value)).toEqual([2, 3, 4])
+  expect(tt.timeline[0].patches).toEqual([])
+
+  tt.travelTo(0)
+  expect(counter.value).toBe(2)
+  tt.travelTo(1)
+  expect(counter.value).toBe(3)
+
+  expect(() => timeTravel(counter, { maxEntries: 0 })).toThrow(
+    "maxEntries must be a positive integer"
+  )
+})
+
+test("entries are added once their action finishes", () => {
+  const counter = new Counter({})
+  const tt = timeTravel(counter)
+  autoDispose(() => tt.dispose())
+
+  counter.incAndCheck(() => {
+    // the entry being recorded is not part of the timeline yet
+    expect(tt.timeline).toHaveLength(1)
+    expect(tt.currentIndex).toBe(0)
+  })
+  expect(tt.timeline.map(e => e.snapshot.value)).toEqual([0, 2])
+  expect(tt.timeline[1].patches).toHaveLength(4)
+
+  // several actions in the same batch still get their own entries
+  runInAction(() => {
+    counter.inc()
+    counter.inc()
+  })
+  expect(tt.timeline.map(e => e.actionName)).toEqual([undefined, "incAndCheck", "inc", "inc"])
+  expect(tt.timeline.map(e => e.snapshot.value)).toEqual([0, 2, 3, 4])
+
+  // changes of actions that throw are recorded as well
+  expect(() => counter.incAndFail()).toThrow("failed")
+  expect(tt.timeline.map(e => e.snapshot.value)).toEqual([0, 2, 3, 4, 5])
+
+  // traveling in the middle of an action adds the changes made so far
+  counter.incAndCheck(() => {
+    tt.travelTo(4)
+    expect(counter.value).toBe(5)
+  })
+  expect(tt.timeline.map(e => e.snapshot.value)).toEqual([0, 2, 3, 4, 5, 6])
+  expect(counter.value).toBe(6)
+
+  tt.travelTo(3)
+  expect(getSnapshot(counter)).toEqual(tt.timeline[3].snapshot)
+  tt.travelTo(5)
+  expect(getSnapshot(counter)).toEqual(tt.timeline[5].snapshot)
+})
@@ -13,6 +13,7 @@ export default {
     "Root Stores",
     "Snapshots",
     "Patches",
+    "Time Travel",
     "Maps & Sets",
     {
       name: "Action Middlewares",
@@ -21,6 +22,8 @@ export default {
         "transactionMiddleware",
         "undoMiddleware",
         "readonlyMiddleware",
+        "actionSyncClient",
+        "actionRecorder",
         "Custom Middlewares",
       ],
     },
@@ -1,4 +1,5 @@
 import {
+  ActionContextOrigin,
   ActionTrackingResult,
   applySerializedActionAndSyncNewModelIds,
   fromSnapshot,
@@ -20,18 +21,11 @@ function initAppInstance() {
   // and hydrate it into a proper object
   const rootStore = fromSnapshot<TodoList>(rootStoreSnapshot)
 
-  let serverAction = false
   const runServerActionLocally = (actionCall: SerializedActionCallWithModelIdOverrides) => {
-    let wasServerAction = serverAction
-    serverAction = true
-    try {
-      // in clients we use the sync new model ids version to make sure that
-      // any model ids that were generated in the server side end up being
-      // the same in the client side
-      applySerializedActionAndSyncNewModelIds(rootStore, actionCall)
-    } finally {
-      serverAction = wasServerAction
-    }
+    // in clients we use the sync new model ids version to make sure that
+    // any model ids that were generated in the server side end up being
+    // the same in the client side
+    applySerializedActionAndSyncNewModelIds(rootStore, actionCall)
   }
 
   // listen to action messages to be replicated into the local root store
@@ -42,7 +36,8 @@ function initAppInstance() {
   // also listen to local actions, cancel them and send them to the server
   onActionMiddleware(rootStore, {
     onStart(actionCall, ctx) {
-      if (!serverAction) {
+      // actions applied from serialized action calls are the ones coming from the server
+      if (ctx.origin !== ActionContextOrigin.Serialized) {
         // if the action does not come from the server cancel it silently
         // and send it to the server
         // it will then be replicated by the server and properly executed